@@ -8,6 +8,7 @@ import { globalRateLimiter } from '@shared/middleware/rateLimiter';
 import { ResponseHandler } from '@shared/utils/response';
 import { logger } from '@shared/utils/logger';
 import practiceRoutes from '@modules/practice/practice.routes';
+import reviewRoutes from '@modules/review/review.routes';
 
 export const createApp = (): Application => {
   const app = express();
@@ -36,6 +37,7 @@ export const createApp = (): Application => {
   app.use(globalRateLimiter);
 
   app.use('/api/practice', practiceRoutes);
+  app.use('/api/review', reviewRoutes);
 
   // Health check endpoint
   app.get('/health', (_req: Request, res: Response) => {
@@ -57,7 +59,6 @@ export const createApp = (): Application => {
 
   // API routes will be mounted here
   // app.use(`${env.apiPrefix}/practice`, practiceRoutes);
-  // app.use(`${env.apiPrefix}/review`, reviewRoutes);
   // app.use(`${env.apiPrefix}/analytics`, analyticsRoutes);
 
   // 404 handler
@@ -21,6 +21,10 @@ const envSchema = z.object({
   // OpenAI
   OPENAI_API_KEY: z.string().min(1, 'OPENAI_API_KEY is required'),
   OPENAI_ORG_ID: z.string().optional(),
+  PROMPT_VERSIONS: z.string().optional(), // e.g. "translation@2,response-suggestions@1"
+
+  // Languages
+  ENABLED_LANGUAGES: z.string().optional(), // e.g. "zh-TW,ja,pt"; overrides the enabled flags
 
   // File Upload
   MAX_FILE_SIZE: z.string().default('10485760'), // 10MB
@@ -40,9 +44,13 @@ const envSchema = z.object({
   LOG_LEVEL: z.enum(['error', 'warn', 'info', 'debug']).default('info'),
   LOG_DIR: z.string().default('./logs'),
 
-  // Session (future use)
+  // Session
   SESSION_SECRET: z.string().optional(),
   SESSION_TIMEOUT: z.string().default('86400000'), // 24 hours
+  PRACTICE_SESSION_IDLE_TIMEOUT: z.string().default('1800000'), // 30 minutes
+
+  // Admin API (scenario catalog management); admin routes are disabled when unset
+  ADMIN_API_KEY: z.string().optional(),
 
   // JWT (future use)
   JWT_SECRET: z.string().optional(),
@@ -82,6 +90,14 @@ export const env = {
   openai: {
     apiKey: parsedEnv.data.OPENAI_API_KEY,
     orgId: parsedEnv.data.OPENAI_ORG_ID,
+    promptVersions: parsedEnv.data.PROMPT_VERSIONS,
+  },
+
+  // Languages
+  languages: {
+    enabled: parsedEnv.data.ENABLED_LANGUAGES?.split(',')
+      .map((code) => code.trim())
+      .filter(Boolean),
   },
 
   // File Upload
@@ -112,6 +128,12 @@ export const env = {
   session: {
     secret: parsedEnv.data.SESSION_SECRET,
     timeout: parseInt(parsedEnv.data.SESSION_TIMEOUT, 10),
+    practiceIdleTimeout: parseInt(parsedEnv.data.PRACTICE_SESSION_IDLE_TIMEOUT, 10),
+  },
+
+  // Admin
+  admin: {
+    apiKey: parsedEnv.data.ADMIN_API_KEY || undefined,
   },
 
   // JWT
@@ -0,0 +1,150 @@
+import { env } from './environment';
+
+/**
+ * A language the app can translate from or into
+ */
+export interface LanguageDefinition {
+  code: string; // BCP-47 tag clients send and receive
+  name: string; // English name, as used in prompts
+  nativeName: string;
+  script: string; // ISO 15924 code, used to match tags like zh-Hant-HK
+  direction: 'ltr' | 'rtl';
+  enabled: boolean;
+}
+
+/**
+ * Every translation goes from or into English, so it stays enabled
+ */
+const ENGLISH = 'en';
+
+/**
+ * Language registry, see services/language/languageRegistry.ts
+ * ENABLED_LANGUAGES replaces the enabled flags with its list
+ */
+const LANGUAGES: LanguageDefinition[] = [
+  {
+    code: ENGLISH,
+    name: 'English',
+    nativeName: 'English',
+    script: 'Latn',
+    direction: 'ltr',
+    enabled: true,
+  },
+  {
+    code: 'zh-CN',
+    name: 'Simplified Chinese',
+    nativeName: '简体中文',
+    script: 'Hans',
+    direction: 'ltr',
+    enabled: true,
+  },
+  {
+    code: 'zh-TW',
+    name: 'Traditional Chinese',
+    nativeName: '繁體中文',
+    script: 'Hant',
+    direction: 'ltr',
+    enabled: true,
+  },
+  {
+    code: 'ja',
+    name: 'Japanese',
+    nativeName: '日本語',
+    script: 'Jpan',
+    direction: 'ltr',
+    enabled: true,
+  },
+  {
+    code: 'ko',
+    name: 'Korean',
+    nativeName: '한국어',
+    script: 'Kore',
+    direction: 'ltr',
+    enabled: true,
+  },
+  {
+    code: 'es',
+    name: 'Spanish',
+    nativeName: 'Español',
+    script: 'Latn',
+    direction: 'ltr',
+    enabled: true,
+  },
+  {
+    code: 'fr',
+    name: 'French',
+    nativeName: 'Français',
+    script: 'Latn',
+    direction: 'ltr',
+    enabled: true,
+  },
+  {
+    code: 'de',
+    name: 'German',
+    nativeName: 'Deutsch',
+    script: 'Latn',
+    direction: 'ltr',
+    enabled: true,
+  },
+  {
+    code: 'pt',
+    name: 'Portuguese',
+    nativeName: 'Português',
+    script: 'Latn',
+    direction: 'ltr',
+    enabled: true,
+  },
+  {
+    code: 'it',
+    name: 'Italian',
+    nativeName: 'Italiano',
+    script: 'Latn',
+    direction: 'ltr',
+    enabled: true,
+  },
+  {
+    code: 'vi',
+    name: 'Vietnamese',
+    nativeName: 'Tiếng Việt',
+    script: 'Latn',
+    direction: 'ltr',
+    enabled: true,
+  },
+  {
+    code: 'ru',
+    name: 'Russian',
+    nativeName: 'Русский',
+    script: 'Cyrl',
+    direction: 'ltr',
+    enabled: false,
+  },
+  {
+    code: 'ar',
+    name: 'Arabic',
+    nativeName: 'العربية',
+    script: 'Arab',
+    direction: 'rtl',
+    enabled: false,
+  },
+  {
+    code: 'he',
+    name: 'Hebrew',
+    nativeName: 'עברית',
+    script: 'Hebr',
+    direction: 'rtl',
+    enabled: false,
+  },
+];
+
+const enabledOverride = env.languages.enabled;
+
+export const languageConfig = {
+  english: ENGLISH,
+  defaultTargetLanguage: 'zh-TW', // for English text when no target is given
+  languages: LANGUAGES.map((language) => ({
+    ...language,
+    enabled:
+      language.code === ENGLISH ||
+      (enabledOverride?.length ? enabledOverride.includes(language.code) : language.enabled),
+  })),
+};
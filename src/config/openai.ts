@@ -14,11 +14,30 @@ export const openaiConfig = {
     temperature: 0.3,
     maxCompletionTokens: 2000,
   },
-  prompts: {
-    talkWithSpecificTopic: {
-      id: 'pmpt_690cafff67748196b1128b3affd644690712eb38faca12d4',
-      version: '8',
+  // Prompt template versions per environment, see services/openai/promptTemplates.ts
+  // Unpinned templates use their latest version; PROMPT_VERSIONS overrides these pins
+  promptVersions: {
+    production: {
+      'talk-with-topic': '8',
+      'conversation-partner': '1',
+      'response-suggestions': '3',
+      translation: '2',
+      'batch-translation': '1',
+      'language-detection': '1',
+      'translation-alternatives': '1',
+      'dictionary-sense': '1',
+      'dictionary-entry': '1',
+      'speech-analysis': '1',
+      'grammar-check': '1',
+      'turn-correction': '1',
+      'conversation-report': '1',
+      'session-report': '1',
+      'review-exercises': '1',
+      'level-guidance': '1',
+      'translation-level': '1',
     },
+    development: {},
+    test: {},
   },
   timeout: 60000, // 60 seconds
 } as const;
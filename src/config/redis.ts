@@ -53,4 +53,17 @@ export const redisConfig = {
     medium: 3600, // 1 hour
     long: 86400, // 24 hours
   },
+  // Cache of AI responses, see services/cache
+  responseCache: {
+    keyPrefix: 'response-cache:',
+    timeout: 250, // ms; slower Redis calls are skipped rather than delaying the response
+    // Operations whose responses are cached, with the `ttl` tier each is kept for; only
+    // deterministic outputs are listed, as a cached free-form generation would repeat itself
+    operations: {
+      translation: 'long',
+      'grammar-check': 'long',
+      lookup: 'long',
+      'lookup-sense': 'long',
+    },
+  },
 } as const;
@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "practices" ADD COLUMN     "audioFileId" TEXT;
+
+-- CreateTable
+CREATE TABLE "audio_files" (
+    "id" TEXT NOT NULL,
+    "hash" TEXT NOT NULL,
+    "storageKey" TEXT NOT NULL,
+    "contentType" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "audio_files_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "audio_files_hash_key" ON "audio_files"("hash");
+
+-- CreateIndex
+CREATE INDEX "practices_audioFileId_idx" ON "practices"("audioFileId");
+
+-- AddForeignKey
+ALTER TABLE "practices" ADD CONSTRAINT "practices_audioFileId_fkey" FOREIGN KEY ("audioFileId") REFERENCES "audio_files"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "practices" ADD COLUMN     "transcriptionTimings" JSONB;
@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "CefrLevel" AS ENUM ('A1', 'A2', 'B1', 'B2', 'C1', 'C2');
+
+-- AlterTable
+ALTER TABLE "conversations" ADD COLUMN     "scenarioId" TEXT;
+
+-- CreateTable
+CREATE TABLE "scenarios" (
+    "id" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "aiRole" TEXT NOT NULL,
+    "learnerRole" TEXT NOT NULL,
+    "difficulty" "CefrLevel" NOT NULL,
+    "tags" TEXT[],
+    "openingLine" TEXT NOT NULL,
+    "objectives" TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "scenarios_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "scenarios_slug_key" ON "scenarios"("slug");
+
+-- CreateIndex
+CREATE INDEX "scenarios_difficulty_idx" ON "scenarios"("difficulty");
+
+-- AddForeignKey
+ALTER TABLE "conversations" ADD CONSTRAINT "conversations_scenarioId_fkey" FOREIGN KEY ("scenarioId") REFERENCES "scenarios"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "estimatedLevel" "CefrLevel",
+ADD COLUMN     "levelEstimatedAt" TIMESTAMP(3),
+ADD COLUMN     "levelMetrics" JSONB,
+ADD COLUMN     "levelOverride" "CefrLevel";
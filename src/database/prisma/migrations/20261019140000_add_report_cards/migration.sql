@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "conversations" ADD COLUMN     "endedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "report_cards" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "sessionId" TEXT,
+    "conversationId" TEXT,
+    "content" JSONB NOT NULL,
+    "model" TEXT,
+    "totalTokens" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "report_cards_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "report_cards_sessionId_key" ON "report_cards"("sessionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "report_cards_conversationId_key" ON "report_cards"("conversationId");
+
+-- CreateIndex
+CREATE INDEX "report_cards_userId_createdAt_idx" ON "report_cards"("userId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "report_cards" ADD CONSTRAINT "report_cards_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "report_cards" ADD CONSTRAINT "report_cards_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "practice_sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "report_cards" ADD CONSTRAINT "report_cards_conversationId_fkey" FOREIGN KEY ("conversationId") REFERENCES "conversations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
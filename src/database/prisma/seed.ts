@@ -1,7 +1,81 @@
-import { PrismaClient } from '@prisma/client';
+import { CefrLevel, Prisma, PrismaClient } from '@prisma/client';
 
 const prisma = new PrismaClient();
 
+// Starter conversation scenarios, upserted by slug so reseeding refreshes them
+const STARTER_SCENARIOS: Prisma.ScenarioCreateInput[] = [
+  {
+    slug: 'ordering-coffee',
+    title: 'Ordering coffee at a cafe',
+    description: 'Order a drink and a snack at a busy neighbourhood cafe.',
+    aiRole: 'a friendly barista',
+    learnerRole: 'a customer',
+    difficulty: CefrLevel.A1,
+    tags: ['food', 'daily-life', 'shopping'],
+    openingLine: 'Hi there! What can I get for you today?',
+    objectives: ['Order politely with "Can I have..."', 'Ask about sizes and prices'],
+  },
+  {
+    slug: 'asking-for-directions',
+    title: 'Asking for directions',
+    description: 'You are lost in a new city and need to find the train station.',
+    aiRole: 'a helpful local',
+    learnerRole: 'a tourist',
+    difficulty: CefrLevel.A2,
+    tags: ['travel', 'daily-life'],
+    openingLine: 'You look a bit lost. Can I help you find something?',
+    objectives: ['Ask for directions', 'Understand and repeat back directions'],
+  },
+  {
+    slug: 'hotel-check-in',
+    title: 'Checking in at a hotel',
+    description: 'Check in at the front desk and sort out a problem with your booking.',
+    aiRole: 'a hotel receptionist',
+    learnerRole: 'a guest',
+    difficulty: CefrLevel.A2,
+    tags: ['travel'],
+    openingLine: 'Good evening and welcome! Do you have a reservation with us?',
+    objectives: ['Give personal details', 'Explain a problem and ask for a solution'],
+  },
+  {
+    slug: 'doctor-appointment',
+    title: 'Seeing a doctor',
+    description: 'Describe your symptoms to a doctor and understand their advice.',
+    aiRole: 'a general practitioner',
+    learnerRole: 'a patient',
+    difficulty: CefrLevel.B1,
+    tags: ['health', 'daily-life'],
+    openingLine: 'Hello, please take a seat. What seems to be the problem today?',
+    objectives: ['Describe symptoms and how long they have lasted', 'Ask follow-up questions'],
+  },
+  {
+    slug: 'job-interview',
+    title: 'Job interview',
+    description: 'Interview for a position that matches your experience.',
+    aiRole: 'a hiring manager',
+    learnerRole: 'a job candidate',
+    difficulty: CefrLevel.B2,
+    tags: ['work', 'career'],
+    openingLine:
+      'Thanks for coming in today. Could you start by telling me a little about yourself?',
+    objectives: [
+      'Talk about past experience using the past simple and present perfect',
+      'Give examples of strengths and achievements',
+    ],
+  },
+  {
+    slug: 'salary-negotiation',
+    title: 'Negotiating a salary',
+    description: 'Negotiate the terms of a job offer with tact and confidence.',
+    aiRole: 'an HR manager',
+    learnerRole: 'a candidate who has received an offer',
+    difficulty: CefrLevel.C1,
+    tags: ['work', 'career', 'negotiation'],
+    openingLine: "We're very pleased to offer you the role. How do you feel about the package?",
+    objectives: ['Make counter-offers diplomatically', 'Use hedging and conditional language'],
+  },
+];
+
 async function main() {
   console.log('🌱 Starting database seeding...');
 
@@ -33,6 +107,16 @@ async function main() {
 
   console.log('✅ Created user analytics');
 
+  for (const scenario of STARTER_SCENARIOS) {
+    await prisma.scenario.upsert({
+      where: { slug: scenario.slug },
+      update: scenario,
+      create: scenario,
+    });
+  }
+
+  console.log(`✅ Seeded ${STARTER_SCENARIOS.length} scenarios`);
+
   console.log('🎉 Database seeding completed!');
 }
 
@@ -0,0 +1,17 @@
+import { abandonIdleSessions } from '@modules/practice/services/session.service';
+import { logger } from '@shared/utils/logger';
+
+/**
+ * Moves practice sessions left ACTIVE past the idle timeout to ABANDONED
+ */
+export async function runAbandonIdleSessionsJob(): Promise<void> {
+  try {
+    await abandonIdleSessions();
+  } catch (error) {
+    logger.error('Failed to abandon idle practice sessions', {
+      error: error instanceof Error ? error.message : error,
+    });
+  }
+}
+
+export default runAbandonIdleSessionsJob;
@@ -0,0 +1,44 @@
+import { logger } from '@shared/utils/logger';
+import { runAbandonIdleSessionsJob } from './abandonIdleSessions';
+
+interface ScheduledJob {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<void>;
+}
+
+const jobs: ScheduledJob[] = [
+  {
+    name: 'abandonIdleSessions',
+    intervalMs: 60 * 1000, // 1 minute
+    run: runAbandonIdleSessionsJob,
+  },
+];
+
+const timers: NodeJS.Timeout[] = [];
+
+/**
+ * Starts all background jobs on their intervals
+ */
+export const startScheduler = (): void => {
+  for (const job of jobs) {
+    const timer = setInterval(() => {
+      void job.run();
+    }, job.intervalMs);
+
+    // Background jobs should not keep the process alive on shutdown
+    timer.unref();
+    timers.push(timer);
+
+    logger.info(`Scheduled job ${job.name} every ${job.intervalMs}ms`);
+  }
+};
+
+/**
+ * Stops all background jobs
+ */
+export const stopScheduler = (): void => {
+  while (timers.length > 0) {
+    clearInterval(timers.pop());
+  }
+};
@@ -0,0 +1,101 @@
+import { Request, Response, NextFunction } from 'express';
+import { ResponseHandler } from '@shared/utils/response';
+import { SuccessMessages } from '@shared/constants/messages';
+import { getUserId } from '@shared/middleware/userContext';
+import {
+  addMessage,
+  createConversation,
+  endConversation,
+  getConversation,
+  getConversationReport,
+} from '../services/conversation.service';
+import {
+  conversationMessageSchema,
+  conversationParamsSchema,
+  createConversationSchema,
+} from '../validators/conversation.validator';
+
+/**
+ * Controller for multi-turn conversations with the AI partner
+ */
+export class ConversationController {
+  /**
+   * Start a conversation
+   * POST /api/practice/conversations
+   *
+   * @body {topic?: string, scenarioId?: string, initialMessage?: string} - topic or scenarioId
+   */
+  public static async create(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const body = createConversationSchema.parse(req.body);
+      const conversation = await createConversation({ userId: getUserId(req), ...body });
+
+      ResponseHandler.created(res, conversation, SuccessMessages.CONVERSATION_STARTED);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Add a learner turn and get the AI reply, with an optional inline correction
+   * POST /api/practice/conversations/:id/messages
+   *
+   * @body {text: string, correct?: boolean}
+   */
+  public static async addMessage(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = conversationParamsSchema.parse(req.params);
+      const { text, correct } = conversationMessageSchema.parse(req.body);
+      const exchange = await addMessage(getUserId(req), id, text, { correct });
+
+      ResponseHandler.created(res, exchange, SuccessMessages.CONVERSATION_REPLIED);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get a conversation with its transcript
+   * GET /api/practice/conversations/:id
+   */
+  public static async get(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = conversationParamsSchema.parse(req.params);
+      const conversation = await getConversation(getUserId(req), id);
+
+      ResponseHandler.success(res, conversation, 'Conversation retrieved successfully');
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * End a conversation and get its report card
+   * POST /api/practice/conversations/:id/end
+   */
+  public static async end(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = conversationParamsSchema.parse(req.params);
+      const ending = await endConversation(getUserId(req), id);
+
+      ResponseHandler.success(res, ending, SuccessMessages.CONVERSATION_ENDED);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get the report card of an ended conversation
+   * GET /api/practice/conversations/:id/report
+   */
+  public static async report(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = conversationParamsSchema.parse(req.params);
+      const reportCard = await getConversationReport(getUserId(req), id);
+
+      ResponseHandler.success(res, reportCard, 'Report card retrieved successfully');
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,32 @@
+import { Request, Response, NextFunction } from 'express';
+import { lookupTerm } from '@services/openai';
+import { ResponseHandler } from '@shared/utils/response';
+import { SuccessMessages } from '@shared/constants/messages';
+import { wantsCacheBypass } from '@shared/utils/cache';
+import { lookupSchema } from '../validators/dictionary.validator';
+
+/**
+ * Controller for dictionary lookups of words and phrases in context
+ */
+export class DictionaryController {
+  /**
+   * Look up a word or phrase in the sense it has in a sentence
+   * POST /api/practice/lookup
+   *
+   * @body {term: string, context: string, language?: string}
+   * @header {X-Cache-Bypass?: 'true'} - Or `Cache-Control: no-cache`; regenerates the cached entry
+   */
+  public static async lookup(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { term, context, language } = lookupSchema.parse(req.body);
+      const result = await lookupTerm(term, context, {
+        language,
+        bypassCache: wantsCacheBypass(req),
+      });
+
+      ResponseHandler.success(res, result, SuccessMessages.TERM_LOOKED_UP);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
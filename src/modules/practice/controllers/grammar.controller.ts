@@ -0,0 +1,43 @@
+import { Request, Response, NextFunction } from 'express';
+import { checkGrammar, GRAMMAR_CHECK_PROMPTS } from '@services/openai';
+import { withResponseCache } from '@services/cache';
+import { ResponseHandler } from '@shared/utils/response';
+import { SuccessMessages } from '@shared/constants/messages';
+import { findUserId } from '@shared/middleware/userContext';
+import { wantsCacheBypass } from '@shared/utils/cache';
+import { resolveLevel } from '../services/level.service';
+import { grammarCheckSchema } from '../validators/grammar.validator';
+
+/**
+ * Controller for grammar checks of typed or transcribed text
+ */
+export class GrammarController {
+  /**
+   * Correct a text and list its categorized errors with character offsets
+   * POST /api/practice/grammar/check
+   *
+   * @body {text: string, level?: CefrLevel, options?: {store?: boolean}}
+   * level defaults to the stored level of the user identified by X-User-Id
+   * @header {X-Cache-Bypass?: 'true'} - Or `Cache-Control: no-cache`; skips the cached check
+   */
+  public static async check(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const body = grammarCheckSchema.parse(req.body);
+      const { text, options } = body;
+      const level = await resolveLevel(findUserId(req), body.level);
+      const { value, cache } = await withResponseCache(
+        {
+          operation: 'grammar-check',
+          prompts: GRAMMAR_CHECK_PROMPTS,
+          input: { text, level, options },
+        },
+        () => checkGrammar(text, { ...options, level }),
+        { bypass: wantsCacheBypass(req) }
+      );
+
+      ResponseHandler.success(res, { ...value, cache }, SuccessMessages.GRAMMAR_CHECKED);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,30 @@
+import { Request, Response, NextFunction } from 'express';
+import { DEFAULT_TARGET_LANGUAGE, ENGLISH_LANGUAGE } from '@services/openai';
+import { listLanguages } from '@services/language';
+import { ResponseHandler } from '@shared/utils/response';
+import { SuccessMessages } from '@shared/constants/messages';
+
+/**
+ * Controller for the language registry
+ */
+export class LanguageController {
+  /**
+   * List the enabled languages with their names, script and writing direction
+   * GET /api/practice/languages
+   */
+  public static list(_req: Request, res: Response, next: NextFunction): void {
+    try {
+      ResponseHandler.success(
+        res,
+        {
+          languages: listLanguages(),
+          sourceLanguage: ENGLISH_LANGUAGE,
+          defaultTargetLanguage: DEFAULT_TARGET_LANGUAGE,
+        },
+        SuccessMessages.LANGUAGES_LISTED
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+}
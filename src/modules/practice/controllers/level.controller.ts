@@ -0,0 +1,42 @@
+import { Request, Response, NextFunction } from 'express';
+import { ResponseHandler } from '@shared/utils/response';
+import { SuccessMessages } from '@shared/constants/messages';
+import { getUserId } from '@shared/middleware/userContext';
+import { getLearnerLevel, setLevelOverride } from '../services/level.service';
+import { levelOverrideSchema } from '../validators/level.validator';
+
+/**
+ * Controller for the learner's CEFR level
+ */
+export class LevelController {
+  /**
+   * Get the learner's level, its source and the metrics behind the estimate
+   * GET /api/practice/level
+   */
+  public static async get(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const level = await getLearnerLevel(getUserId(req));
+
+      ResponseHandler.success(res, level, 'Learner level retrieved successfully');
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Set or clear the learner's manual level override
+   * PUT /api/practice/level
+   *
+   * @body {level: 'A1' | 'A2' | 'B1' | 'B2' | 'C1' | 'C2' | null}
+   */
+  public static async override(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { level } = levelOverrideSchema.parse(req.body);
+      const result = await setLevelOverride(getUserId(req), level);
+
+      ResponseHandler.success(res, result, SuccessMessages.LEVEL_UPDATED);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
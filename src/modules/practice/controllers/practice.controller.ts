@@ -0,0 +1,184 @@
+import { Request, Response, NextFunction } from 'express';
+import {
+  isSupportedAudioFormat,
+  MAX_AUDIO_FILE_SIZE,
+  SUPPORTED_AUDIO_FORMATS,
+} from '@services/openai';
+import { ResponseHandler } from '@shared/utils/response';
+import { AppError } from '@shared/utils/errors';
+import { ErrorCodes } from '@shared/constants/errorCodes';
+import { HttpStatus } from '@shared/constants/enums';
+import { SuccessMessages } from '@shared/constants/messages';
+import { getUserId } from '@shared/middleware/userContext';
+import { logger } from '@shared/utils/logger';
+import {
+  analyzePractice,
+  assessReadAloud,
+  getPracticeHistory,
+  getPracticeTranscript,
+} from '../services/practice.service';
+import { renderTranscript } from '../services/transcriptExport.service';
+import {
+  analyzePracticeSchema,
+  practiceHistoryQuerySchema,
+  practiceParamsSchema,
+  readAloudSchema,
+  transcriptExportQuerySchema,
+} from '../validators/practice.validator';
+
+/**
+ * Controller for scored practice records
+ */
+export class PracticeController {
+  /**
+   * Returns the uploaded audio file after validating its format and size
+   * @throws {AppError} If the file is missing, unsupported or too large
+   */
+  private static getAudioFile(req: Request): Express.Multer.File {
+    if (!req.file) {
+      throw new AppError(
+        ErrorCodes.AUDIO_FILE_MISSING,
+        'No audio file provided',
+        HttpStatus.BAD_REQUEST
+      );
+    }
+
+    if (!isSupportedAudioFormat(req.file.buffer)) {
+      throw new AppError(
+        ErrorCodes.INVALID_AUDIO_FORMAT,
+        `Unsupported audio format. Supported formats: ${SUPPORTED_AUDIO_FORMATS.join(', ')}`,
+        HttpStatus.BAD_REQUEST
+      );
+    }
+
+    if (req.file.size > MAX_AUDIO_FILE_SIZE) {
+      throw new AppError(
+        ErrorCodes.AUDIO_FILE_TOO_LARGE,
+        `File size exceeds maximum limit of ${MAX_AUDIO_FILE_SIZE / (1024 * 1024)}MB`,
+        HttpStatus.BAD_REQUEST
+      );
+    }
+
+    return req.file;
+  }
+
+  /**
+   * Analyze a recording and save it as a Practice record
+   * POST /api/practice/analyze
+   *
+   * @body {audio: File, originalText?: string, sessionId?: string, language?: string}
+   */
+  public static async analyze(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const audioFile = PracticeController.getAudioFile(req);
+      const body = analyzePracticeSchema.parse(req.body);
+      const userId = getUserId(req);
+
+      logger.info('Analyzing practice recording', {
+        userId,
+        filename: audioFile.originalname,
+        size: audioFile.size,
+        sessionId: body.sessionId,
+      });
+
+      const practice = await analyzePractice({
+        userId,
+        audio: audioFile,
+        ...body,
+      });
+
+      ResponseHandler.created(res, practice, SuccessMessages.PRACTICE_ANALYZED);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Assess a reading of a reference text and save it as a Practice record
+   * POST /api/practice/read-aloud
+   *
+   * @body {audio: File, referenceText: string, sessionId?: string, language?: string}
+   */
+  public static async readAloud(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const audioFile = PracticeController.getAudioFile(req);
+      const body = readAloudSchema.parse(req.body);
+      const userId = getUserId(req);
+
+      logger.info('Assessing read-aloud recording', {
+        userId,
+        filename: audioFile.originalname,
+        size: audioFile.size,
+        referenceLength: body.referenceText.length,
+      });
+
+      const result = await assessReadAloud({
+        userId,
+        audio: audioFile,
+        ...body,
+      });
+
+      ResponseHandler.created(res, result, SuccessMessages.PRACTICE_ANALYZED);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List the user's practice history
+   * GET /api/practice/history
+   *
+   * @query {page?, limit?, sessionId?, startDate?, endDate?, minScore?, maxScore?, sortBy?: 'date' | 'score', order?: 'asc' | 'desc'}
+   */
+  public static async history(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { page, limit, ...filters } = practiceHistoryQuerySchema.parse(req.query);
+
+      const { practices, total } = await getPracticeHistory(
+        getUserId(req),
+        { page, limit },
+        filters
+      );
+
+      ResponseHandler.paginated(
+        res,
+        practices,
+        page,
+        total,
+        limit,
+        'Practice history retrieved successfully'
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Export the transcript of a stored practice
+   * GET /api/practice/history/:id/transcript
+   *
+   * @query {format?: 'srt' | 'vtt' | 'txt' | 'captions'}
+   */
+  public static async transcript(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = practiceParamsSchema.parse(req.params);
+      const { format } = transcriptExportQuerySchema.parse(req.query);
+      const source = await getPracticeTranscript(getUserId(req), id);
+
+      if (!format) {
+        ResponseHandler.success(res, source, 'Practice transcript retrieved successfully');
+        return;
+      }
+
+      const rendered = renderTranscript(source, format);
+      ResponseHandler.file(
+        res,
+        rendered.content,
+        rendered.contentType,
+        `practice-${id}.${rendered.extension}`
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,60 @@
+import { Request, Response, NextFunction } from 'express';
+import { pipeline } from 'stream/promises';
+import { AppError } from '@shared/utils/errors';
+import { ErrorCodes } from '@shared/constants/errorCodes';
+import { HttpStatus } from '@shared/constants/enums';
+import { getUserId } from '@shared/middleware/userContext';
+import { parseRangeHeader } from '@shared/utils/range';
+import { getRecording, openRecording } from '../services/recording.service';
+import { recordingParamsSchema } from '../validators/recording.validator';
+
+/**
+ * Controller for stored practice recordings
+ */
+export class RecordingController {
+  /**
+   * Stream a recording, honoring single-range requests for seeking
+   * GET /api/practice/recordings/:id
+   */
+  public static async stream(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = recordingParamsSchema.parse(req.params);
+      const audioFile = await getRecording(getUserId(req), id);
+      const range = parseRangeHeader(req.headers.range, audioFile.size);
+
+      res.setHeader('Accept-Ranges', 'bytes');
+      res.setHeader('Content-Type', audioFile.contentType);
+      res.setHeader('Cache-Control', 'private, max-age=31536000, immutable');
+      res.setHeader('ETag', `"${audioFile.hash}"`);
+
+      if (range === 'unsatisfiable') {
+        res.setHeader('Content-Range', `bytes */${audioFile.size}`);
+        throw new AppError(
+          ErrorCodes.RANGE_NOT_SATISFIABLE,
+          'Requested range not satisfiable',
+          HttpStatus.RANGE_NOT_SATISFIABLE
+        );
+      }
+
+      const stream = await openRecording(audioFile, range ?? undefined);
+
+      if (range) {
+        res.status(HttpStatus.PARTIAL_CONTENT);
+        res.setHeader('Content-Range', `bytes ${range.start}-${range.end}/${audioFile.size}`);
+        res.setHeader('Content-Length', range.end - range.start + 1);
+      } else {
+        res.status(HttpStatus.OK);
+        res.setHeader('Content-Length', audioFile.size);
+      }
+
+      await pipeline(stream, res);
+    } catch (error) {
+      // Once bytes are on the wire the response can only be aborted
+      if (res.headersSent) {
+        res.destroy(error instanceof Error ? error : undefined);
+        return;
+      }
+      next(error);
+    }
+  }
+}
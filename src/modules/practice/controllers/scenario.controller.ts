@@ -0,0 +1,110 @@
+import { Request, Response, NextFunction } from 'express';
+import { ResponseHandler } from '@shared/utils/response';
+import { SuccessMessages } from '@shared/constants/messages';
+import {
+  createScenario,
+  deleteScenario,
+  getScenario,
+  listScenarios,
+  updateScenario,
+} from '../services/scenario.service';
+import {
+  createScenarioSchema,
+  scenarioListQuerySchema,
+  scenarioParamsSchema,
+  updateScenarioSchema,
+} from '../validators/scenario.validator';
+
+/**
+ * Controller for the conversation scenario catalog
+ */
+export class ScenarioController {
+  /**
+   * List and search scenarios
+   * GET /api/practice/scenarios
+   *
+   * @query {page?, limit?, q?: string, difficulty?: 'A1' | 'A2' | 'B1' | 'B2' | 'C1' | 'C2', tag?: string}
+   */
+  public static async list(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { page, limit, ...filters } = scenarioListQuerySchema.parse(req.query);
+      const { scenarios, total } = await listScenarios({ page, limit }, filters);
+
+      ResponseHandler.paginated(
+        res,
+        scenarios,
+        page,
+        total,
+        limit,
+        'Scenarios retrieved successfully'
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get a scenario
+   * GET /api/practice/scenarios/:id
+   */
+  public static async get(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = scenarioParamsSchema.parse(req.params);
+      const scenario = await getScenario(id);
+
+      ResponseHandler.success(res, scenario, 'Scenario retrieved successfully');
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Add a scenario to the catalog
+   * POST /api/practice/scenarios
+   *
+   * @body {slug, title, description, aiRole, learnerRole, difficulty, tags?, openingLine, objectives?}
+   */
+  public static async create(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const body = createScenarioSchema.parse(req.body);
+      const scenario = await createScenario(body);
+
+      ResponseHandler.created(res, scenario, SuccessMessages.SCENARIO_CREATED);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Update a scenario
+   * PATCH /api/practice/scenarios/:id
+   *
+   * @body Any subset of the create fields
+   */
+  public static async update(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = scenarioParamsSchema.parse(req.params);
+      const body = updateScenarioSchema.parse(req.body);
+      const scenario = await updateScenario(id, body);
+
+      ResponseHandler.success(res, scenario, SuccessMessages.SCENARIO_UPDATED);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Remove a scenario from the catalog
+   * DELETE /api/practice/scenarios/:id
+   */
+  public static async remove(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = scenarioParamsSchema.parse(req.params);
+      const scenario = await deleteScenario(id);
+
+      ResponseHandler.success(res, scenario, SuccessMessages.SCENARIO_DELETED);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
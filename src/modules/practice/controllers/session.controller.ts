@@ -0,0 +1,75 @@
+import { Request, Response, NextFunction } from 'express';
+import { ResponseHandler } from '@shared/utils/response';
+import { SuccessMessages } from '@shared/constants/messages';
+import { getUserId } from '@shared/middleware/userContext';
+import {
+  startSession,
+  endSession,
+  getSession,
+  getSessionReport,
+} from '../services/session.service';
+import { sessionParamsSchema } from '../validators/session.validator';
+
+/**
+ * Controller for the practice session lifecycle
+ */
+export class SessionController {
+  /**
+   * Start a new practice session
+   * POST /api/practice/session/start
+   */
+  public static async start(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const session = await startSession(getUserId(req));
+
+      ResponseHandler.created(res, session, SuccessMessages.SESSION_STARTED);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * End an active practice session
+   * POST /api/practice/session/:id/end
+   */
+  public static async end(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = sessionParamsSchema.parse(req.params);
+      const session = await endSession(getUserId(req), id);
+
+      ResponseHandler.success(res, session, SuccessMessages.SESSION_ENDED);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get a practice session
+   * GET /api/practice/session/:id
+   */
+  public static async get(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = sessionParamsSchema.parse(req.params);
+      const session = await getSession(getUserId(req), id);
+
+      ResponseHandler.success(res, session, 'Practice session retrieved successfully');
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get the report card of an ended practice session
+   * GET /api/practice/session/:id/report
+   */
+  public static async report(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = sessionParamsSchema.parse(req.params);
+      const reportCard = await getSessionReport(getUserId(req), id);
+
+      ResponseHandler.success(res, reportCard, 'Report card retrieved successfully');
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -1,25 +1,63 @@
 import { Request, Response, NextFunction } from 'express';
-import { talkWithSpecificTopic, generateText, generateResponseSuggestions } from '@services/openai';
+import {
+  talkWithSpecificTopic,
+  generateText,
+  generateResponseSuggestions,
+  streamTalkWithSpecificTopic,
+  streamText,
+} from '@services/openai';
 import { ResponseHandler } from '@shared/utils/response';
 import { AppError } from '@shared/utils/errors';
 import { ErrorCodes } from '@shared/constants/errorCodes';
 import { HttpStatus } from '@shared/constants/enums';
 import { logger } from '@shared/utils/logger';
+import { streamEvents, wantsEventStream } from '@shared/utils/sse';
+import { findUserId } from '@shared/middleware/userContext';
+import { describeScenario, getScenario } from '../services/scenario.service';
+import { resolveLevel } from '../services/level.service';
+import {
+  generateTextSchema,
+  suggestionsSchema,
+  talkWithTopicSchema,
+} from '../validators/textGeneration.validator';
 
 /**
  * Controller for handling text generation requests
  */
 export class TextGenerationController {
-  private static readonly MAX_TOPIC_LENGTH = 1000;
-  private static readonly MAX_INITIAL_MESSAGE_LENGTH = 2000;
-  private static readonly MAX_PROMPT_LENGTH = 5000;
-  private static readonly MAX_CONVERSATION_HISTORY_LENGTH = 10000;
+  /**
+   * Resolves the topic text for a request that names a catalog scenario or a free-form topic
+   * @returns The prompt topic and, for scenarios, the scenario's opening line
+   * @throws {AppError} If neither is given, or SCENARIO_NOT_FOUND
+   */
+  private static async resolveTopic(body: {
+    topic?: string;
+    scenarioId?: string;
+  }): Promise<{ topic: string; openingLine?: string }> {
+    if (body.scenarioId !== undefined) {
+      const scenario = await getScenario(body.scenarioId);
+      return { topic: describeScenario(scenario), openingLine: scenario.openingLine };
+    }
+
+    if (body.topic === undefined) {
+      throw new AppError(
+        ErrorCodes.VALIDATION_ERROR,
+        'Topic or scenarioId is required',
+        HttpStatus.BAD_REQUEST
+      );
+    }
+
+    return { topic: body.topic };
+  }
 
   /**
    * Talk with specific topic using reusable OpenAI prompt
    * POST /api/practice/generate/talk-with-topic
    *
-   * @body {topic: string, initial_message: string, options?: {store?: boolean, include?: string[]}}
+   * @body {topic?: string, scenarioId?: string, initial_message?: string, level?: CefrLevel, options?: {store?: boolean, include?: string[]}}
+   * topic or scenarioId is required; initial_message defaults to the scenario's opening line;
+   * level defaults to the stored level of the user identified by X-User-Id
+   * @query {stream?: 'true'} - Or `Accept: text/event-stream`; streams the reply as SSE
    */
   public static async talkWithSpecificTopic(
     req: Request,
@@ -27,46 +65,36 @@ export class TextGenerationController {
     next: NextFunction
   ): Promise<void> {
     try {
-      const { topic, initial_message, options } = req.body;
+      const body = talkWithTopicSchema.parse(req.body);
+      const { scenarioId, options } = body;
+      const { topic, openingLine } = await TextGenerationController.resolveTopic(body);
+      const initial_message = body.initial_message ?? openingLine;
 
-      if (!topic || typeof topic !== 'string') {
+      if (initial_message === undefined) {
         throw new AppError(
           ErrorCodes.VALIDATION_ERROR,
-          'Topic is required and must be a string',
+          'Initial message is required for a topic',
           HttpStatus.BAD_REQUEST
         );
       }
 
-      if (!initial_message || typeof initial_message !== 'string') {
-        throw new AppError(
-          ErrorCodes.VALIDATION_ERROR,
-          'Initial message is required and must be a string',
-          HttpStatus.BAD_REQUEST
-        );
-      }
-
-      if (topic.length > TextGenerationController.MAX_TOPIC_LENGTH) {
-        throw new AppError(
-          ErrorCodes.VALIDATION_ERROR,
-          `Topic is too long. Maximum ${TextGenerationController.MAX_TOPIC_LENGTH} characters allowed.`,
-          HttpStatus.BAD_REQUEST
-        );
-      }
-
-      if (initial_message.length > TextGenerationController.MAX_INITIAL_MESSAGE_LENGTH) {
-        throw new AppError(
-          ErrorCodes.VALIDATION_ERROR,
-          `Initial message is too long. Maximum ${TextGenerationController.MAX_INITIAL_MESSAGE_LENGTH} characters allowed.`,
-          HttpStatus.BAD_REQUEST
-        );
-      }
+      const level = await resolveLevel(findUserId(req), body.level);
 
       logger.info('Generating conversation with specific topic', {
+        scenarioId,
         topicLength: topic.length,
         initialMessageLength: initial_message.length,
+        level,
       });
 
-      const result = await talkWithSpecificTopic(topic, initial_message, options);
+      if (wantsEventStream(req)) {
+        await streamEvents(req, res, (handlers) =>
+          streamTalkWithSpecificTopic(topic, initial_message, handlers, { ...options, level })
+        );
+        return;
+      }
+
+      const result = await talkWithSpecificTopic(topic, initial_message, { ...options, level });
 
       ResponseHandler.success(res, result, 'Topic conversation generated successfully');
     } catch (error) {
@@ -79,6 +107,7 @@ export class TextGenerationController {
    * POST /api/practice/generate/text
    *
    * @body {prompt: string, options?: {store?: boolean, include?: string[]}}
+   * @query {stream?: 'true'} - Or `Accept: text/event-stream`; streams the text as SSE
    */
   public static async generateText(
     req: Request,
@@ -86,28 +115,17 @@ export class TextGenerationController {
     next: NextFunction
   ): Promise<void> {
     try {
-      const { prompt, options } = req.body;
-
-      if (!prompt || typeof prompt !== 'string') {
-        throw new AppError(
-          ErrorCodes.VALIDATION_ERROR,
-          'Prompt is required and must be a string',
-          HttpStatus.BAD_REQUEST
-        );
-      }
-
-      if (prompt.length > TextGenerationController.MAX_PROMPT_LENGTH) {
-        throw new AppError(
-          ErrorCodes.VALIDATION_ERROR,
-          `Prompt is too long. Maximum ${TextGenerationController.MAX_PROMPT_LENGTH} characters allowed.`,
-          HttpStatus.BAD_REQUEST
-        );
-      }
+      const { prompt, options } = generateTextSchema.parse(req.body);
 
       logger.info('Generating text', {
         promptLength: prompt.length,
       });
 
+      if (wantsEventStream(req)) {
+        await streamEvents(req, res, (handlers) => streamText(prompt, handlers, options));
+        return;
+      }
+
       const result = await generateText(prompt, options);
 
       ResponseHandler.success(res, result, 'Text generated successfully');
@@ -120,7 +138,9 @@ export class TextGenerationController {
    * Generate response suggestions for conversation
    * POST /api/practice/generate/suggestions
    *
-   * @body {topic: string, conversationHistory: string, options?: {store?: boolean, include?: string[]}}
+   * @body {topic?: string, scenarioId?: string, conversationHistory: Array<{role: 'user' | 'assistant', text: string}>, count?: number, nativeLanguage?: string, level?: CefrLevel, options?: {store?: boolean, include?: string[]}}
+   * topic or scenarioId is required; count is 1-5 (default 3);
+   * level defaults to the stored level of the user identified by X-User-Id
    */
   public static async generateSuggestions(
     req: Request,
@@ -128,46 +148,26 @@ export class TextGenerationController {
     next: NextFunction
   ): Promise<void> {
     try {
-      const { topic, conversationHistory, options } = req.body;
-
-      if (!topic || typeof topic !== 'string') {
-        throw new AppError(
-          ErrorCodes.VALIDATION_ERROR,
-          'Topic is required and must be a string',
-          HttpStatus.BAD_REQUEST
-        );
-      }
-
-      if (!conversationHistory || typeof conversationHistory !== 'string') {
-        throw new AppError(
-          ErrorCodes.VALIDATION_ERROR,
-          'Conversation history is required and must be a string',
-          HttpStatus.BAD_REQUEST
-        );
-      }
-
-      if (topic.length > TextGenerationController.MAX_TOPIC_LENGTH) {
-        throw new AppError(
-          ErrorCodes.VALIDATION_ERROR,
-          `Topic is too long. Maximum ${TextGenerationController.MAX_TOPIC_LENGTH} characters allowed.`,
-          HttpStatus.BAD_REQUEST
-        );
-      }
-
-      if (conversationHistory.length > TextGenerationController.MAX_CONVERSATION_HISTORY_LENGTH) {
-        throw new AppError(
-          ErrorCodes.VALIDATION_ERROR,
-          `Conversation history is too long. Maximum ${TextGenerationController.MAX_CONVERSATION_HISTORY_LENGTH} characters allowed.`,
-          HttpStatus.BAD_REQUEST
-        );
-      }
+      const body = suggestionsSchema.parse(req.body);
+      const { scenarioId, conversationHistory, count, nativeLanguage, options } = body;
+      const { topic } = await TextGenerationController.resolveTopic(body);
+      const level = await resolveLevel(findUserId(req), body.level);
 
       logger.info('Generating response suggestions', {
+        scenarioId,
         topicLength: topic.length,
-        historyLength: conversationHistory.length,
+        turns: conversationHistory.length,
+        count,
+        nativeLanguage,
+        level,
       });
 
-      const result = await generateResponseSuggestions(topic, conversationHistory, options);
+      const result = await generateResponseSuggestions(topic, conversationHistory, {
+        ...options,
+        count,
+        nativeLanguage,
+        level,
+      });
 
       ResponseHandler.success(res, result, 'Response suggestions generated successfully');
     } catch (error) {
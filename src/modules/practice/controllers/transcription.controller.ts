@@ -3,13 +3,19 @@ import {
   transcribeAudio,
   transcribeAudioWithTimestamps,
   isSupportedAudioFormat,
+  getMaxAudioFileSize,
   MAX_AUDIO_FILE_SIZE,
+  MAX_CHUNKED_AUDIO_FILE_SIZE,
+  SUPPORTED_AUDIO_FORMATS,
 } from '@services/openai';
 import { ResponseHandler } from '@shared/utils/response';
 import { AppError } from '@shared/utils/errors';
 import { ErrorCodes } from '@shared/constants/errorCodes';
 import { HttpStatus } from '@shared/constants/enums';
 import { logger } from '@shared/utils/logger';
+import { analyzeFluency, FLUENCY_TRANSCRIPTION_PROMPT } from '../services/fluency.service';
+import { renderTranscript } from '../services/transcriptExport.service';
+import { transcriptExportQuerySchema } from '../validators/practice.validator';
 
 /**
  * Controller for handling audio transcription requests
@@ -52,19 +58,20 @@ export class TranscriptionController {
       const audioFile = req.file;
 
       // Validate file format
-      if (!isSupportedAudioFormat(audioFile.originalname)) {
+      if (!isSupportedAudioFormat(audioFile.buffer)) {
         throw new AppError(
           ErrorCodes.INVALID_AUDIO_FORMAT,
-          'Unsupported audio format. Supported formats: mp3, mp4, mpeg, mpga, m4a, wav, webm',
+          `Unsupported audio format. Supported formats: ${SUPPORTED_AUDIO_FORMATS.join(', ')}`,
           HttpStatus.BAD_REQUEST
         );
       }
 
       // Validate file size
-      if (audioFile.size > MAX_AUDIO_FILE_SIZE) {
+      const maxFileSize = getMaxAudioFileSize(audioFile.buffer);
+      if (audioFile.size > maxFileSize) {
         throw new AppError(
           ErrorCodes.AUDIO_FILE_TOO_LARGE,
-          `File size exceeds maximum limit of ${MAX_AUDIO_FILE_SIZE / (1024 * 1024)}MB`,
+          `File size exceeds maximum limit of ${maxFileSize / (1024 * 1024)}MB`,
           HttpStatus.BAD_REQUEST
         );
       }
@@ -92,7 +99,8 @@ export class TranscriptionController {
    * Transcribe audio with detailed timestamps
    * POST /api/practice/transcribe/detailed
    *
-   * Returns word-level timestamps and segment information
+   * Returns word-level timestamps and segment information, or with
+   * ?format=srt|vtt|txt|captions the transcript rendered in that format
    */
   public static async transcribeWithTimestamps(
     req: Request,
@@ -109,22 +117,24 @@ export class TranscriptionController {
       }
 
       const { language, prompt, temperature } = req.body;
+      const { format } = transcriptExportQuerySchema.parse(req.query);
       const audioFile = req.file;
 
       // Validate file format
-      if (!isSupportedAudioFormat(audioFile.originalname)) {
+      if (!isSupportedAudioFormat(audioFile.buffer)) {
         throw new AppError(
           ErrorCodes.INVALID_AUDIO_FORMAT,
-          'Unsupported audio format. Supported formats: mp3, mp4, mpeg, mpga, m4a, wav, webm',
+          `Unsupported audio format. Supported formats: ${SUPPORTED_AUDIO_FORMATS.join(', ')}`,
           HttpStatus.BAD_REQUEST
         );
       }
 
       // Validate file size
-      if (audioFile.size > MAX_AUDIO_FILE_SIZE) {
+      const maxFileSize = getMaxAudioFileSize(audioFile.buffer);
+      if (audioFile.size > maxFileSize) {
         throw new AppError(
           ErrorCodes.AUDIO_FILE_TOO_LARGE,
-          `File size exceeds maximum limit of ${MAX_AUDIO_FILE_SIZE / (1024 * 1024)}MB`,
+          `File size exceeds maximum limit of ${maxFileSize / (1024 * 1024)}MB`,
           HttpStatus.BAD_REQUEST
         );
       }
@@ -132,6 +142,7 @@ export class TranscriptionController {
       logger.info('Transcribing audio file with timestamps', {
         filename: audioFile.originalname,
         size: audioFile.size,
+        format,
       });
 
       // Transcribe with detailed timestamps
@@ -141,6 +152,17 @@ export class TranscriptionController {
         temperature: temperature ? parseFloat(temperature) : undefined,
       });
 
+      if (format) {
+        const rendered = renderTranscript(result, format);
+        ResponseHandler.file(
+          res,
+          rendered.content,
+          rendered.contentType,
+          `transcript.${rendered.extension}`
+        );
+        return;
+      }
+
       ResponseHandler.success(res, result, 'Audio transcribed with timestamps successfully');
     } catch (error) {
       next(error);
@@ -148,14 +170,71 @@ export class TranscriptionController {
   }
 
   /**
-   * Get supported audio formats
-   * GET /api/practice/transcribe/formats
+   * Transcribe audio and measure fluency from word timestamps
+   * POST /api/practice/transcribe/fluency
+   *
+   * Returns the detailed transcription together with a 0-100 fluency score
+   * and the metrics behind it. The analysis runs locally without an LLM call.
    */
-  public static async getSupportedFormats(
+  public static async transcribeWithFluency(
     req: Request,
-    res: Response
+    res: Response,
+    next: NextFunction
   ): Promise<void> {
-    const formats = ['mp3', 'mp4', 'mpeg', 'mpga', 'm4a', 'wav', 'webm'];
+    try {
+      if (!req.file) {
+        throw new AppError(
+          ErrorCodes.AUDIO_FILE_MISSING,
+          'No audio file provided',
+          HttpStatus.BAD_REQUEST
+        );
+      }
+
+      const { language, prompt } = req.body;
+      const audioFile = req.file;
+
+      // Validate file format
+      if (!isSupportedAudioFormat(audioFile.buffer)) {
+        throw new AppError(
+          ErrorCodes.INVALID_AUDIO_FORMAT,
+          `Unsupported audio format. Supported formats: ${SUPPORTED_AUDIO_FORMATS.join(', ')}`,
+          HttpStatus.BAD_REQUEST
+        );
+      }
+
+      // Validate file size
+      if (audioFile.size > MAX_AUDIO_FILE_SIZE) {
+        throw new AppError(
+          ErrorCodes.AUDIO_FILE_TOO_LARGE,
+          `File size exceeds maximum limit of ${MAX_AUDIO_FILE_SIZE / (1024 * 1024)}MB`,
+          HttpStatus.BAD_REQUEST
+        );
+      }
+
+      logger.info('Transcribing audio file for fluency analysis', {
+        filename: audioFile.originalname,
+        size: audioFile.size,
+      });
+
+      const transcription = await transcribeAudioWithTimestamps(audioFile.buffer, {
+        language,
+        prompt: prompt || FLUENCY_TRANSCRIPTION_PROMPT,
+      });
+
+      const fluency = analyzeFluency(transcription);
+
+      ResponseHandler.success(res, { transcription, fluency }, 'Fluency analyzed successfully');
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get supported audio formats
+   * GET /api/practice/transcribe/formats
+   */
+  public static async getSupportedFormats(req: Request, res: Response): Promise<void> {
+    const formats = SUPPORTED_AUDIO_FORMATS;
     const maxSize = MAX_AUDIO_FILE_SIZE;
 
     ResponseHandler.success(
@@ -164,6 +243,9 @@ export class TranscriptionController {
         formats,
         maxFileSize: maxSize,
         maxFileSizeMB: maxSize / (1024 * 1024),
+        // WAV recordings above maxFileSize are transcribed in chunks
+        maxWavFileSize: MAX_CHUNKED_AUDIO_FILE_SIZE,
+        maxWavFileSizeMB: MAX_CHUNKED_AUDIO_FILE_SIZE / (1024 * 1024),
       },
       'Supported formats retrieved successfully'
     );
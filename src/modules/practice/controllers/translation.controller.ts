@@ -1,71 +1,69 @@
 import { Request, Response, NextFunction } from 'express';
-import { translateText, SUPPORTED_LANGUAGES } from '@services/openai';
+import {
+  translateText,
+  translateBatch,
+  streamTranslateText,
+  buildTranslationCacheKey,
+} from '@services/openai';
+import { withResponseCache } from '@services/cache';
+import { listLanguages, normalizeLanguageTag } from '@services/language';
 import { ResponseHandler } from '@shared/utils/response';
 import { AppError } from '@shared/utils/errors';
 import { ErrorCodes } from '@shared/constants/errorCodes';
 import { HttpStatus } from '@shared/constants/enums';
 import { logger } from '@shared/utils/logger';
+import { streamEvents, wantsEventStream } from '@shared/utils/sse';
+import { wantsCacheBypass } from '@shared/utils/cache';
+import { findUserId } from '@shared/middleware/userContext';
+import { resolveLevel } from '../services/level.service';
+import { batchTranslationSchema, translateSchema } from '../validators/translation.validator';
 
 /**
  * Controller for handling translation requests
  */
 export class TranslationController {
-  private static readonly MAX_TEXT_LENGTH = 5000;
-  private static readonly DEFAULT_TARGET_LANGUAGE = 'zh-TW';
-  private static readonly SUPPORTED_LANGUAGES_SET = new Set(SUPPORTED_LANGUAGES);
-  private static readonly SUPPORTED_LANGUAGES_STRING = SUPPORTED_LANGUAGES.join(', ');
-
   /**
-   * Validates the translation request parameters
-   * @param body - The request body containing text and targetLanguage
-   * @throws {AppError} If validation fails
+   * Normalizes an optional language tag of the request to its registry code
+   * @returns The code, or undefined if the tag is not given
+   * @throws {AppError} If it is given but matches no supported language
    */
-  private static validateRequest(body: {
-    text?: unknown;
-    targetLanguage?: unknown;
-  }): asserts body is { text: string; targetLanguage: string } {
-    const { text, targetLanguage } = body;
-
-    // Validate text
-    if (typeof text !== 'string' || text.trim().length === 0) {
-      throw new AppError(
-        ErrorCodes.VALIDATION_ERROR,
-        'Text is required and must be a non-empty string',
-        HttpStatus.BAD_REQUEST
-      );
+  private static normalizeLanguage(
+    value: string | undefined,
+    field: 'sourceLanguage' | 'targetLanguage'
+  ): string | undefined {
+    if (value === undefined) {
+      return undefined;
     }
 
-    if (text.length > TranslationController.MAX_TEXT_LENGTH) {
-      throw new AppError(
-        ErrorCodes.VALIDATION_ERROR,
-        `Text is too long. Maximum ${TranslationController.MAX_TEXT_LENGTH} characters allowed.`,
-        HttpStatus.BAD_REQUEST
-      );
-    }
+    const code = normalizeLanguageTag(value);
 
-    // Validate target language
-    if (typeof targetLanguage !== 'string') {
+    if (!code) {
+      const role = field === 'sourceLanguage' ? 'source' : 'target';
+      const supported = listLanguages()
+        .map((language) => language.code)
+        .join(', ');
       throw new AppError(
         ErrorCodes.VALIDATION_ERROR,
-        'Target language must be a string',
+        `Unsupported ${role} language: ${value}. Supported languages are: ${supported}`,
         HttpStatus.BAD_REQUEST
       );
     }
 
-    if (!TranslationController.SUPPORTED_LANGUAGES_SET.has(targetLanguage)) {
-      throw new AppError(
-        ErrorCodes.VALIDATION_ERROR,
-        `Unsupported target language: ${targetLanguage}. Supported languages are: ${TranslationController.SUPPORTED_LANGUAGES_STRING}`,
-        HttpStatus.BAD_REQUEST
-      );
-    }
+    return code;
   }
 
   /**
-   * Translate text from English to target language
+   * Translate text between English and another supported language
    * POST /api/practice/translate
    *
-   * @body {text: string, targetLanguage?: string}
+   * @body {text: string, sourceLanguage?: string, targetLanguage?: string, level?: CefrLevel, alternatives?: boolean}
+   * Without sourceLanguage it is detected and returned with a confidence, unless a non-English
+   * targetLanguage implies English; English text goes into targetLanguage (default zh-TW),
+   * other languages into English. alternatives adds formal/neutral/casual phrasings to
+   * translations into English.
+   * level defaults to the stored level of the user identified by X-User-Id
+   * @query {stream?: 'true'} - Or `Accept: text/event-stream`; streams the translation as SSE
+   * @header {X-Cache-Bypass?: 'true'} - Or `Cache-Control: no-cache`; skips the cached translation
    */
   public static async translate(
     req: Request,
@@ -73,28 +71,83 @@ export class TranslationController {
     next: NextFunction
   ): Promise<void> {
     try {
-      const bodyForValidation = {
-        text: req.body.text,
-        targetLanguage:
-          req.body.targetLanguage === undefined
-            ? TranslationController.DEFAULT_TARGET_LANGUAGE
-            : req.body.targetLanguage,
-      };
-
-      // Validate request parameters
-      TranslationController.validateRequest(bodyForValidation);
+      const body = translateSchema.parse(req.body);
+      const { text } = body;
 
-      // After validation, TypeScript knows text and targetLanguage are strings
-      const { text, targetLanguage } = bodyForValidation;
+      // Languages become registry codes
+      const sourceLanguage = TranslationController.normalizeLanguage(
+        body.sourceLanguage,
+        'sourceLanguage'
+      );
+      const targetLanguage = TranslationController.normalizeLanguage(
+        body.targetLanguage,
+        'targetLanguage'
+      );
+      const level = await resolveLevel(findUserId(req), body.level);
+      const alternatives = body.alternatives ?? false;
+      const options = { sourceLanguage, level, alternatives };
 
       logger.info('Translating text', {
         textLength: text.length,
+        sourceLanguage,
         targetLanguage,
+        level,
+        alternatives,
       });
 
-      const result = await translateText(text, targetLanguage);
+      const cacheKey = buildTranslationCacheKey(text, targetLanguage, options);
+      const bypass = wantsCacheBypass(req);
+
+      if (wantsEventStream(req)) {
+        await streamEvents(req, res, async (handlers) => {
+          const { value, cache } = await withResponseCache(
+            cacheKey,
+            () => streamTranslateText(text, targetLanguage, handlers, options),
+            { bypass }
+          );
+          // A cached translation is sent as a single delta
+          if (cache.status === 'hit') {
+            handlers.onDelta(value.translatedText);
+          }
+          return { ...value, cache };
+        });
+        return;
+      }
+
+      const { value, cache } = await withResponseCache(
+        cacheKey,
+        () => translateText(text, targetLanguage, options),
+        { bypass }
+      );
+
+      ResponseHandler.success(res, { ...value, cache }, 'Text translated successfully');
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Translate several texts, each into its own target language
+   * POST /api/practice/translate/batch
+   *
+   * @body {items: Array<{text: string, targetLanguage: string, sourceLanguage?: string}>, level?: CefrLevel}
+   * Each item gets a result or an error; level defaults to the stored level of the user
+   * identified by X-User-Id. Items share cached translations with single translations
+   * @header {X-Cache-Bypass?: 'true'} - Or `Cache-Control: no-cache`; translates every item anew
+   */
+  public static async translateBatch(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { items, level } = batchTranslationSchema.parse(req.body);
+      const result = await translateBatch(items, {
+        level: await resolveLevel(findUserId(req), level),
+        bypassCache: wantsCacheBypass(req),
+      });
 
-      ResponseHandler.success(res, result, 'Text translated successfully');
+      ResponseHandler.success(res, result, 'Batch translated successfully');
     } catch (error) {
       next(error);
     }
@@ -3,37 +3,48 @@ import multer from 'multer';
 import { TranscriptionController } from './controllers/transcription.controller';
 import { TextGenerationController } from './controllers/textGeneration.controller';
 import { TranslationController } from './controllers/translation.controller';
-import { MAX_AUDIO_FILE_SIZE } from '@services/openai';
+import { PracticeController } from './controllers/practice.controller';
+import { SessionController } from './controllers/session.controller';
+import { RecordingController } from './controllers/recording.controller';
+import { ConversationController } from './controllers/conversation.controller';
+import { ScenarioController } from './controllers/scenario.controller';
+import { LevelController } from './controllers/level.controller';
+import { GrammarController } from './controllers/grammar.controller';
+import { DictionaryController } from './controllers/dictionary.controller';
+import { LanguageController } from './controllers/language.controller';
+import { MAX_AUDIO_FILE_SIZE, MAX_CHUNKED_AUDIO_FILE_SIZE } from '@services/openai';
+import { attachUser, requireUser } from '@shared/middleware/userContext';
+import { requireAdmin } from '@shared/middleware/adminAuth';
+import {
+  aiAnalysisRateLimiter,
+  batchTranslationRateLimiter,
+  fileUploadRateLimiter,
+  translationRateLimiter,
+} from '@shared/middleware/rateLimiter';
 
 const router = Router();
 
 /**
  * Configure multer for handling audio file uploads
  * Store files in memory as buffers for direct OpenAI API upload
+ * Uploads are not filtered by MIME type; controllers detect the format from the file contents
  */
 const upload = multer({
   storage: multer.memoryStorage(),
   limits: {
     fileSize: MAX_AUDIO_FILE_SIZE,
   },
-  fileFilter: (_req, file, cb) => {
-    // Accept audio files only
-    const allowedMimeTypes = [
-      'audio/mpeg',
-      'audio/mp3',
-      'audio/mp4',
-      'audio/wav',
-      'audio/webm',
-      'audio/m4a',
-      'audio/x-m4a',
-      'video/mp4', // Some audio files might have video mime type
-    ];
-
-    if (allowedMimeTypes.includes(file.mimetype) || file.mimetype.startsWith('audio/')) {
-      cb(null, true);
-    } else {
-      cb(new Error('Invalid file type. Only audio files are allowed.'));
-    }
+});
+
+/**
+ * Upload for the transcription routes, which split long WAV recordings into chunks
+ * Kept off the other routes so a single request cannot hold the larger buffer in memory
+ */
+const largeUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    // Per-format limits are enforced after the format is detected
+    fileSize: MAX_CHUNKED_AUDIO_FILE_SIZE,
   },
 });
 
@@ -45,22 +56,35 @@ const upload = multer({
  */
 router.post(
   '/transcribe',
-  upload.single('audio'),
+  largeUpload.single('audio'),
   TranscriptionController.transcribeAudio
 );
 
 /**
  * @route   POST /api/practice/transcribe/detailed
- * @desc    Transcribe audio with word-level timestamps
+ * @desc    Transcribe audio with word-level timestamps, optionally exported as subtitles
  * @access  Public/Private (depends on your auth setup)
+ * @query   {format?: 'srt' | 'vtt' | 'txt' | 'captions'}
  * @body    {audio: File, language?: string, prompt?: string, temperature?: number}
  */
 router.post(
   '/transcribe/detailed',
-  upload.single('audio'),
+  largeUpload.single('audio'),
   TranscriptionController.transcribeWithTimestamps
 );
 
+/**
+ * @route   POST /api/practice/transcribe/fluency
+ * @desc    Transcribe audio and compute fluency metrics from word timestamps
+ * @access  Public/Private (depends on your auth setup)
+ * @body    {audio: File, language?: string, prompt?: string}
+ */
+router.post(
+  '/transcribe/fluency',
+  upload.single('audio'),
+  TranscriptionController.transcribeWithFluency
+);
+
 /**
  * @route   GET /api/practice/transcribe/formats
  * @desc    Get supported audio formats and size limits
@@ -71,16 +95,213 @@ router.get(
   TranscriptionController.getSupportedFormats
 );
 
+// ============ Practice Analysis Routes ============
+
+/**
+ * @route   POST /api/practice/analyze
+ * @desc    Transcribe and analyze a recording, saving the scored Practice record
+ * @access  Private (X-User-Id header)
+ * @body    {audio: File, originalText?: string, sessionId?: string, language?: string}
+ */
+router.post(
+  '/analyze',
+  aiAnalysisRateLimiter,
+  requireUser,
+  upload.single('audio'),
+  PracticeController.analyze
+);
+
+/**
+ * @route   POST /api/practice/read-aloud
+ * @desc    Assess a reading of a reference text word by word and save it as a Practice record
+ * @access  Private (X-User-Id header)
+ * @body    {audio: File, referenceText: string, sessionId?: string, language?: string}
+ */
+router.post(
+  '/read-aloud',
+  fileUploadRateLimiter,
+  requireUser,
+  upload.single('audio'),
+  PracticeController.readAloud
+);
+
+/**
+ * @route   GET /api/practice/history
+ * @desc    Paginated practice history filtered by session, date range and score
+ * @access  Private (X-User-Id header)
+ * @query   {page?, limit?, sessionId?, startDate?, endDate?, minScore?, maxScore?, sortBy?, order?}
+ */
+router.get('/history', requireUser, PracticeController.history);
+
+/**
+ * @route   GET /api/practice/history/:id/transcript
+ * @desc    Export a practice transcript as SRT, WebVTT, timestamped text or word-level JSON captions
+ * @access  Private (X-User-Id header)
+ * @query   {format?: 'srt' | 'vtt' | 'txt' | 'captions'}
+ */
+router.get('/history/:id/transcript', requireUser, PracticeController.transcript);
+
+/**
+ * @route   GET /api/practice/recordings/:id
+ * @desc    Stream a stored practice recording (supports Range requests for seeking)
+ * @access  Private (X-User-Id header)
+ */
+router.get('/recordings/:id', requireUser, RecordingController.stream);
+
+// ============ Practice Session Routes ============
+
+/**
+ * @route   POST /api/practice/session/start
+ * @desc    Start a new practice session
+ * @access  Private (X-User-Id header)
+ */
+router.post('/session/start', requireUser, SessionController.start);
+
+/**
+ * @route   POST /api/practice/session/:id/end
+ * @desc    End a practice session, compute its practice count and average score and generate its report card
+ * @access  Private (X-User-Id header)
+ */
+router.post('/session/:id/end', aiAnalysisRateLimiter, requireUser, SessionController.end);
+
+/**
+ * @route   GET /api/practice/session/:id/report
+ * @desc    Get the report card of an ended session, generating it if it is missing
+ * @access  Private (X-User-Id header)
+ */
+router.get('/session/:id/report', aiAnalysisRateLimiter, requireUser, SessionController.report);
+
+/**
+ * @route   GET /api/practice/session/:id
+ * @desc    Get a practice session
+ * @access  Private (X-User-Id header)
+ */
+router.get('/session/:id', requireUser, SessionController.get);
+
+// ============ Learner Level Routes ============
+
+/**
+ * @route   GET /api/practice/level
+ * @desc    Get the learner's CEFR level, whether it is estimated or overridden, and the estimate metrics
+ * @access  Private (X-User-Id header)
+ */
+router.get('/level', requireUser, LevelController.get);
+
+/**
+ * @route   PUT /api/practice/level
+ * @desc    Override the estimated CEFR level, or clear the override with null
+ * @access  Private (X-User-Id header)
+ * @body    {level: CefrLevel | null}
+ */
+router.put('/level', requireUser, LevelController.override);
+
+// ============ Scenario Routes ============
+
+/**
+ * @route   GET /api/practice/scenarios
+ * @desc    List and search the conversation scenario catalog
+ * @access  Public
+ * @query   {page?, limit?, q?: string, difficulty?: CefrLevel, tag?: string}
+ */
+router.get('/scenarios', ScenarioController.list);
+
+/**
+ * @route   GET /api/practice/scenarios/:id
+ * @desc    Get a scenario
+ * @access  Public
+ */
+router.get('/scenarios/:id', ScenarioController.get);
+
+/**
+ * @route   POST /api/practice/scenarios
+ * @desc    Add a scenario to the catalog
+ * @access  Admin (X-Admin-Key header)
+ * @body    {slug, title, description, aiRole, learnerRole, difficulty: CefrLevel, tags?: string[], openingLine, objectives?: string[]}
+ */
+router.post('/scenarios', requireAdmin, ScenarioController.create);
+
+/**
+ * @route   PATCH /api/practice/scenarios/:id
+ * @desc    Update a scenario
+ * @access  Admin (X-Admin-Key header)
+ * @body    Any subset of the POST /scenarios fields
+ */
+router.patch('/scenarios/:id', requireAdmin, ScenarioController.update);
+
+/**
+ * @route   DELETE /api/practice/scenarios/:id
+ * @desc    Remove a scenario; conversations started from it keep their topic
+ * @access  Admin (X-Admin-Key header)
+ */
+router.delete('/scenarios/:id', requireAdmin, ScenarioController.remove);
+
+// ============ Conversation Routes ============
+
+/**
+ * @route   POST /api/practice/conversations
+ * @desc    Start a multi-turn conversation with the AI partner
+ * @access  Private (X-User-Id header)
+ * @body    {topic?: string, scenarioId?: string, initialMessage?: string} - topic or scenarioId
+ */
+router.post('/conversations', aiAnalysisRateLimiter, requireUser, ConversationController.create);
+
+/**
+ * @route   POST /api/practice/conversations/:id/messages
+ * @desc    Add a learner turn and get the AI reply, generated from the full conversation;
+ *          with correct: true, also a minimal correction of the turn with the changed spans
+ * @access  Private (X-User-Id header)
+ * @body    {text: string, correct?: boolean}
+ */
+router.post(
+  '/conversations/:id/messages',
+  aiAnalysisRateLimiter,
+  requireUser,
+  ConversationController.addMessage
+);
+
+/**
+ * @route   GET /api/practice/conversations/:id
+ * @desc    Get a conversation with every turn and its token usage
+ * @access  Private (X-User-Id header)
+ */
+router.get('/conversations/:id', requireUser, ConversationController.get);
+
+/**
+ * @route   POST /api/practice/conversations/:id/end
+ * @desc    End a conversation and generate its report card
+ * @access  Private (X-User-Id header)
+ */
+router.post(
+  '/conversations/:id/end',
+  aiAnalysisRateLimiter,
+  requireUser,
+  ConversationController.end
+);
+
+/**
+ * @route   GET /api/practice/conversations/:id/report
+ * @desc    Get the report card of an ended conversation, generating it if it is missing
+ * @access  Private (X-User-Id header)
+ */
+router.get(
+  '/conversations/:id/report',
+  aiAnalysisRateLimiter,
+  requireUser,
+  ConversationController.report
+);
+
 // ============ Text Generation Routes ============
 
 /**
  * @route   POST /api/practice/generate/talk-with-topic
  * @desc    Generate conversation with specific topic using reusable OpenAI prompt
- * @access  Public/Private
- * @body    {topic: string, initial_message: string, options?: TextGenerationOptions}
+ * @access  Public/Private (optional X-User-Id header; its stored level is used when no level is given)
+ * @body    {topic?: string, scenarioId?: string, initial_message?: string, level?: CefrLevel, options?: TextGenerationOptions} - topic or scenarioId; initial_message defaults to the scenario's opening line
+ * @query   {stream?: 'true'} - Or Accept: text/event-stream; streams delta events, then a done event with the full result
  */
 router.post(
   '/generate/talk-with-topic',
+  attachUser,
   TextGenerationController.talkWithSpecificTopic
 );
 
@@ -89,6 +310,7 @@ router.post(
  * @desc    Generate text using OpenAI Responses API
  * @access  Public/Private
  * @body    {prompt: string, options?: TextGenerationOptions}
+ * @query   {stream?: 'true'} - Or Accept: text/event-stream; streams delta events, then a done event with the full result
  */
 router.post(
   '/generate/text',
@@ -98,25 +320,69 @@ router.post(
 /**
  * @route   POST /api/practice/generate/suggestions
  * @desc    Generate response suggestions for conversation
- * @access  Public/Private
- * @body    {topic: string, conversationHistory: string, options?: TextGenerationOptions}
+ * @access  Public/Private (optional X-User-Id header; its stored level is used when no level is given)
+ * @body    {topic?: string, scenarioId?: string, conversationHistory: Array<{role: 'user' | 'assistant', text: string}>, count?: 1-5, nativeLanguage?: string, level?: CefrLevel, options?: TextGenerationOptions} - topic or scenarioId
  */
 router.post(
   '/generate/suggestions',
+  attachUser,
   TextGenerationController.generateSuggestions
 );
 
+// ============ Grammar Routes ============
+
+/**
+ * @route   POST /api/practice/grammar/check
+ * @desc    Correct typed or transcribed text and list its errors with offsets, category and explanation, plus a 0-100 grammar score
+ * @access  Public/Private (optional X-User-Id header; its stored level is used when no level is given)
+ * @body    {text: string, level?: CefrLevel, options?: {store?: boolean}}
+ */
+router.post('/grammar/check', aiAnalysisRateLimiter, attachUser, GrammarController.check);
+
 // ============ Translation Routes ============
 
+/**
+ * @route   GET /api/practice/languages
+ * @desc    List the enabled languages (BCP-47 code, English and native name, script, writing direction), the source language and the default target language
+ * @access  Public
+ */
+router.get('/languages', LanguageController.list);
+
 /**
  * @route   POST /api/practice/translate
- * @desc    Translate text from English to target language
- * @access  Public/Private
- * @body    {text: string, targetLanguage?: string}
+ * @desc    Translate text between English and another supported language, detecting the source language when it is not given
+ * @access  Public/Private (optional X-User-Id header; its stored level is used when no level is given)
+ * @body    {text: string, sourceLanguage?: string, targetLanguage?: string, level?: CefrLevel, alternatives?: boolean}
+ * @query   {stream?: 'true'} - Or Accept: text/event-stream; streams delta events, then a done event with the full result
  */
 router.post(
   '/translate',
+  translationRateLimiter,
+  attachUser,
   TranslationController.translate
 );
 
+/**
+ * @route   POST /api/practice/translate/batch
+ * @desc    Translate up to 50 texts, each into its own target language, with a result or an error per item and combined usage
+ * @access  Public/Private (optional X-User-Id header; its stored level is used when no level is given)
+ * @body    {items: Array<{text: string, targetLanguage: string, sourceLanguage?: string}>, level?: CefrLevel}
+ */
+router.post(
+  '/translate/batch',
+  batchTranslationRateLimiter,
+  attachUser,
+  TranslationController.translateBatch
+);
+
+// ============ Dictionary Routes ============
+
+/**
+ * @route   POST /api/practice/lookup
+ * @desc    Look up a word or phrase in the sense it has in a sentence: part of speech, IPA, definition, two examples, collocations, CEFR level and a translation; entries are cached per lemma and sense
+ * @access  Public
+ * @body    {term: string, context: string, language?: string} - term must appear in context; language defaults to zh-TW
+ */
+router.post('/lookup', aiAnalysisRateLimiter, DictionaryController.lookup);
+
 export default router;
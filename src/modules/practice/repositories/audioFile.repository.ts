@@ -0,0 +1,26 @@
+import { AudioFile, Prisma } from '@prisma/client';
+import { prisma } from '@database/client';
+
+/**
+ * Data access for AudioFile records
+ */
+export const audioFileRepository = {
+  create(data: Prisma.AudioFileCreateInput): Promise<AudioFile> {
+    return prisma.audioFile.create({ data });
+  },
+
+  findByHash(hash: string): Promise<AudioFile | null> {
+    return prisma.audioFile.findUnique({ where: { hash } });
+  },
+
+  /**
+   * Finds a file linked to at least one of the user's practices
+   */
+  findOwnedById(id: string, userId: string): Promise<AudioFile | null> {
+    return prisma.audioFile.findFirst({
+      where: { id, practices: { some: { userId } } },
+    });
+  },
+};
+
+export default audioFileRepository;
@@ -0,0 +1,69 @@
+import { Conversation, ConversationMessage, Prisma } from '@prisma/client';
+import { prisma } from '@database/client';
+
+export type ConversationWithMessages = Conversation & { messages: ConversationMessage[] };
+
+const withMessages = {
+  messages: { orderBy: { position: 'asc' } },
+} satisfies Prisma.ConversationInclude;
+
+/**
+ * Data access for Conversation and ConversationMessage records
+ */
+export const conversationRepository = {
+  /**
+   * Creates a conversation together with its opening messages
+   */
+  create(
+    data: Prisma.ConversationUncheckedCreateInput,
+    messages: Prisma.ConversationMessageCreateWithoutConversationInput[]
+  ): Promise<ConversationWithMessages> {
+    return prisma.conversation.create({
+      data: { ...data, messages: { create: messages } },
+      include: withMessages,
+    });
+  },
+
+  findById(id: string): Promise<Conversation | null> {
+    return prisma.conversation.findUnique({ where: { id } });
+  },
+
+  findByIdWithMessages(id: string): Promise<ConversationWithMessages | null> {
+    return prisma.conversation.findUnique({ where: { id }, include: withMessages });
+  },
+
+  update(id: string, data: Prisma.ConversationUpdateInput): Promise<ConversationWithMessages> {
+    return prisma.conversation.update({ where: { id }, data, include: withMessages });
+  },
+
+  /**
+   * Appends turns and adds their token usage to the conversation total
+   * A concurrent append at the same positions fails on the unique (conversationId, position)
+   */
+  async appendMessages(
+    conversationId: string,
+    messages: Prisma.ConversationMessageCreateManyConversationInput[]
+  ): Promise<ConversationMessage[]> {
+    const tokens = messages.reduce((sum, message) => sum + (message.totalTokens ?? 0), 0);
+
+    const [, conversation] = await prisma.$transaction([
+      prisma.conversationMessage.createMany({
+        data: messages.map((message) => ({ ...message, conversationId })),
+      }),
+      prisma.conversation.update({
+        where: { id: conversationId },
+        data: { totalTokens: { increment: tokens } },
+        include: {
+          messages: {
+            where: { position: { in: messages.map((message) => message.position) } },
+            orderBy: { position: 'asc' },
+          },
+        },
+      }),
+    ]);
+
+    return conversation.messages;
+  },
+};
+
+export default conversationRepository;
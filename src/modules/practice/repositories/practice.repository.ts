@@ -0,0 +1,68 @@
+import { Practice, Prisma } from '@prisma/client';
+import { prisma } from '@database/client';
+
+/**
+ * Data access for Practice records
+ */
+export const practiceRepository = {
+  create(data: Prisma.PracticeUncheckedCreateInput): Promise<Practice> {
+    return prisma.practice.create({ data });
+  },
+
+  findById(id: string): Promise<Practice | null> {
+    return prisma.practice.findUnique({ where: { id } });
+  },
+
+  /**
+   * Practices linked to a session, oldest first
+   */
+  findBySession(sessionId: string): Promise<Practice[]> {
+    return prisma.practice.findMany({ where: { sessionId }, orderBy: { createdAt: 'asc' } });
+  },
+
+  /**
+   * The user's most recent practices, newest first
+   */
+  findRecentByUser(userId: string, take: number): Promise<Practice[]> {
+    return prisma.practice.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      take,
+    });
+  },
+
+  /**
+   * Page of practices matching the filter together with the total match count
+   */
+  async findManyWithCount(params: {
+    where: Prisma.PracticeWhereInput;
+    orderBy: Prisma.PracticeOrderByWithRelationInput[];
+    skip: number;
+    take: number;
+  }): Promise<{ items: Practice[]; total: number }> {
+    const [items, total] = await prisma.$transaction([
+      prisma.practice.findMany(params),
+      prisma.practice.count({ where: params.where }),
+    ]);
+
+    return { items, total };
+  },
+
+  /**
+   * Count and average overall score of the practices linked to a session
+   */
+  async getSessionStats(sessionId: string): Promise<{ count: number; avgScore: number | null }> {
+    const result = await prisma.practice.aggregate({
+      where: { sessionId },
+      _count: { _all: true },
+      _avg: { overallScore: true },
+    });
+
+    return {
+      count: result._count._all,
+      avgScore: result._avg.overallScore,
+    };
+  },
+};
+
+export default practiceRepository;
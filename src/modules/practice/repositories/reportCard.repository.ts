@@ -0,0 +1,21 @@
+import { Prisma, ReportCard } from '@prisma/client';
+import { prisma } from '@database/client';
+
+/**
+ * Data access for ReportCard records
+ */
+export const reportCardRepository = {
+  create(data: Prisma.ReportCardUncheckedCreateInput): Promise<ReportCard> {
+    return prisma.reportCard.create({ data });
+  },
+
+  findBySessionId(sessionId: string): Promise<ReportCard | null> {
+    return prisma.reportCard.findUnique({ where: { sessionId } });
+  },
+
+  findByConversationId(conversationId: string): Promise<ReportCard | null> {
+    return prisma.reportCard.findUnique({ where: { conversationId } });
+  },
+};
+
+export default reportCardRepository;
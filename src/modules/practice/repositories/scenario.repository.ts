@@ -0,0 +1,45 @@
+import { Prisma, Scenario } from '@prisma/client';
+import { prisma } from '@database/client';
+
+/**
+ * Data access for Scenario records
+ */
+export const scenarioRepository = {
+  create(data: Prisma.ScenarioCreateInput): Promise<Scenario> {
+    return prisma.scenario.create({ data });
+  },
+
+  findById(id: string): Promise<Scenario | null> {
+    return prisma.scenario.findUnique({ where: { id } });
+  },
+
+  /**
+   * Page of scenarios matching the filter together with the total match count
+   */
+  async findManyWithCount(params: {
+    where: Prisma.ScenarioWhereInput;
+    orderBy: Prisma.ScenarioOrderByWithRelationInput[];
+    skip: number;
+    take: number;
+  }): Promise<{ items: Scenario[]; total: number }> {
+    const [items, total] = await prisma.$transaction([
+      prisma.scenario.findMany(params),
+      prisma.scenario.count({ where: params.where }),
+    ]);
+
+    return { items, total };
+  },
+
+  update(id: string, data: Prisma.ScenarioUpdateInput): Promise<Scenario> {
+    return prisma.scenario.update({ where: { id }, data });
+  },
+
+  /**
+   * Deletes a scenario; conversations started from it keep their topic and lose the link
+   */
+  delete(id: string): Promise<Scenario> {
+    return prisma.scenario.delete({ where: { id } });
+  },
+};
+
+export default scenarioRepository;
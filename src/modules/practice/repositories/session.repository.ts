@@ -0,0 +1,56 @@
+import { PracticeSession, Prisma, SessionStatus } from '@prisma/client';
+import { prisma } from '@database/client';
+
+/**
+ * Data access for PracticeSession records
+ */
+export const sessionRepository = {
+  create(data: Prisma.PracticeSessionUncheckedCreateInput): Promise<PracticeSession> {
+    return prisma.practiceSession.create({ data });
+  },
+
+  findById(id: string): Promise<PracticeSession | null> {
+    return prisma.practiceSession.findUnique({ where: { id } });
+  },
+
+  findIdleActive(lastActivityBefore: Date): Promise<PracticeSession[]> {
+    return prisma.practiceSession.findMany({
+      where: {
+        status: SessionStatus.ACTIVE,
+        updatedAt: { lt: lastActivityBefore },
+      },
+    });
+  },
+
+  update(id: string, data: Prisma.PracticeSessionUpdateInput): Promise<PracticeSession> {
+    return prisma.practiceSession.update({ where: { id }, data });
+  },
+
+  /**
+   * Ends a session only if it is still ACTIVE, so concurrent requests cannot both end it
+   * @returns The ended session, or null if it was not active
+   */
+  async endIfActive(
+    id: string,
+    data: Prisma.PracticeSessionUpdateManyMutationInput
+  ): Promise<PracticeSession | null> {
+    const { count } = await prisma.practiceSession.updateMany({
+      where: { id, status: SessionStatus.ACTIVE },
+      data,
+    });
+
+    return count === 0 ? null : prisma.practiceSession.findUnique({ where: { id } });
+  },
+
+  /**
+   * Records activity on a session, which also refreshes updatedAt for idle tracking
+   */
+  incrementPracticeCount(id: string): Promise<PracticeSession> {
+    return prisma.practiceSession.update({
+      where: { id },
+      data: { practiceCount: { increment: 1 } },
+    });
+  },
+};
+
+export default sessionRepository;
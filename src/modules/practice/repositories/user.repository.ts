@@ -0,0 +1,17 @@
+import { Prisma, User } from '@prisma/client';
+import { prisma } from '@database/client';
+
+/**
+ * Data access for User records
+ */
+export const userRepository = {
+  findById(id: string): Promise<User | null> {
+    return prisma.user.findUnique({ where: { id } });
+  },
+
+  update(id: string, data: Prisma.UserUpdateInput): Promise<User> {
+    return prisma.user.update({ where: { id }, data });
+  },
+};
+
+export default userRepository;
@@ -0,0 +1,343 @@
+import { CefrLevel, ConversationMessage, MessageRole, Prisma, ReportCard } from '@prisma/client';
+import {
+  ConversationTurn,
+  correctTurn,
+  generateConversationReply,
+  TextGenerationResponse,
+  TurnCorrectionResult,
+} from '@services/openai';
+import { AppError, ConflictError } from '@shared/utils/errors';
+import { ErrorCodes } from '@shared/constants/errorCodes';
+import { HttpStatus } from '@shared/constants/enums';
+import { logger } from '@shared/utils/logger';
+import {
+  conversationRepository,
+  ConversationWithMessages,
+} from '../repositories/conversation.repository';
+import { scenarioRepository } from '../repositories/scenario.repository';
+import { reportCardRepository } from '../repositories/reportCard.repository';
+import { describeScenario, getScenario } from './scenario.service';
+import { resolveLevel } from './level.service';
+import { createConversationReport } from './report.service';
+
+/**
+ * Input for starting a conversation, on either a catalog scenario or a free-form topic
+ */
+export interface CreateConversationInput {
+  userId: string;
+  topic?: string;
+  scenarioId?: string;
+  initialMessage?: string;
+}
+
+/**
+ * Options for adding a learner turn
+ */
+export interface AddMessageOptions {
+  /** Also return an inline correction of the learner turn */
+  correct?: boolean;
+}
+
+/**
+ * Result of adding a learner turn
+ * correction is null unless requested, or if it could not be generated
+ */
+export interface ConversationExchange {
+  message: ConversationMessage;
+  reply: ConversationMessage;
+  usage: TextGenerationResponse['usage'];
+  correction: TurnCorrectionResult | null;
+}
+
+/**
+ * Result of ending a conversation
+ * reportCard is null when the learner never replied
+ */
+export interface ConversationEnding {
+  conversation: ConversationWithMessages;
+  reportCard: ReportCard | null;
+}
+
+/**
+ * Maps a stored message to the turn shape replayed to the model
+ */
+function toTurn(message: ConversationMessage): ConversationTurn {
+  return {
+    role: message.role === MessageRole.USER ? 'user' : 'assistant',
+    text: message.content,
+  };
+}
+
+/**
+ * Builds a stored assistant turn from a generated reply
+ */
+function toAssistantMessage(
+  position: number,
+  reply: TextGenerationResponse
+): Prisma.ConversationMessageCreateManyConversationInput {
+  return {
+    position,
+    role: MessageRole.ASSISTANT,
+    content: reply.text,
+    responseId: reply.id,
+    model: reply.model,
+    promptTokens: reply.usage.promptTokens,
+    completionTokens: reply.usage.completionTokens,
+    totalTokens: reply.usage.totalTokens,
+  };
+}
+
+/**
+ * Corrects a learner turn without ever failing the exchange it belongs to
+ */
+async function tryCorrectTurn(
+  conversationId: string,
+  text: string,
+  context: string | undefined,
+  level: CefrLevel | undefined
+): Promise<TurnCorrectionResult | null> {
+  try {
+    return await correctTurn(text, context, level);
+  } catch (error) {
+    logger.warn('Failed to correct conversation turn', {
+      conversationId,
+      error: error instanceof Error ? error.message : error,
+    });
+    return null;
+  }
+}
+
+/**
+ * Loads a conversation owned by the user with its messages
+ * @throws {AppError} CONVERSATION_NOT_FOUND if it does not exist or belongs to another user
+ */
+async function findOwnedConversation(
+  userId: string,
+  conversationId: string
+): Promise<ConversationWithMessages> {
+  const conversation = await conversationRepository.findByIdWithMessages(conversationId);
+
+  if (!conversation || conversation.userId !== userId) {
+    throw new AppError(
+      ErrorCodes.CONVERSATION_NOT_FOUND,
+      'Conversation not found',
+      HttpStatus.NOT_FOUND
+    );
+  }
+
+  return conversation;
+}
+
+/**
+ * Returns the topic text the model sees for a conversation
+ * Scenario conversations use the current scenario details; if the scenario was
+ * deleted, the stored title is used as a plain topic
+ */
+async function getPromptTopic(conversation: ConversationWithMessages): Promise<string> {
+  const scenario = conversation.scenarioId
+    ? await scenarioRepository.findById(conversation.scenarioId)
+    : null;
+
+  return scenario ? describeScenario(scenario) : conversation.topic;
+}
+
+/**
+ * Starts a conversation on a catalog scenario or a free-form topic
+ * A supplied initial message becomes the AI's opening line; otherwise the scenario's
+ * opening line is used, or the AI writes one for a free-form topic
+ *
+ * @param input - Owner, scenario or topic, and optional opening line
+ * @returns The conversation with its opening message
+ * @throws {AppError} SCENARIO_NOT_FOUND if the scenario does not exist
+ */
+export async function createConversation(
+  input: CreateConversationInput
+): Promise<ConversationWithMessages> {
+  const { userId, scenarioId } = input;
+  const scenario = scenarioId ? await getScenario(scenarioId) : null;
+  const topic = scenario?.title ?? input.topic;
+
+  if (!topic) {
+    throw new AppError(
+      ErrorCodes.VALIDATION_ERROR,
+      'Provide either a topic or a scenarioId',
+      HttpStatus.BAD_REQUEST
+    );
+  }
+
+  const initialMessage = input.initialMessage ?? scenario?.openingLine;
+  const level = initialMessage ? undefined : await resolveLevel(userId);
+
+  const opening: Prisma.ConversationMessageCreateWithoutConversationInput = initialMessage
+    ? { position: 0, role: MessageRole.ASSISTANT, content: initialMessage }
+    : toAssistantMessage(0, await generateConversationReply(topic, [], { level }));
+
+  const conversation = await conversationRepository.create(
+    { userId, topic, scenarioId: scenario?.id, totalTokens: opening.totalTokens ?? 0 },
+    [opening]
+  );
+
+  logger.info('Conversation started', {
+    conversationId: conversation.id,
+    userId,
+    scenarioId: scenario?.id,
+  });
+
+  return conversation;
+}
+
+/**
+ * Adds a learner turn and generates the AI reply from the full conversation so far
+ * The reply is adapted to the learner's current level; both turns are stored only
+ * once the reply succeeds. A requested correction is generated alongside the reply
+ * and is left out rather than failing the turn.
+ *
+ * @param userId - Owner of the conversation
+ * @param conversationId - The conversation to continue
+ * @param text - The learner's message
+ * @param options - Whether to correct the learner's message
+ * @returns The stored learner turn, the stored reply, the reply's token usage and the
+ *   correction, if requested
+ * @throws {AppError} CONVERSATION_NOT_FOUND, CONVERSATION_ALREADY_ENDED, or a conflict
+ *   if another turn was added meanwhile
+ */
+export async function addMessage(
+  userId: string,
+  conversationId: string,
+  text: string,
+  options: AddMessageOptions = {}
+): Promise<ConversationExchange> {
+  const conversation = await findOwnedConversation(userId, conversationId);
+  const position = conversation.messages.length;
+
+  if (conversation.endedAt) {
+    throw new AppError(
+      ErrorCodes.CONVERSATION_ALREADY_ENDED,
+      'Conversation already ended',
+      HttpStatus.CONFLICT
+    );
+  }
+
+  const level = await resolveLevel(userId);
+  const context = conversation.messages.at(-1)?.content;
+  const turns = [...conversation.messages.map(toTurn), { role: 'user' as const, text }];
+  const [reply, correction] = await Promise.all([
+    generateConversationReply(await getPromptTopic(conversation), turns, { level }),
+    options.correct ? tryCorrectTurn(conversation.id, text, context, level) : null,
+  ]);
+
+  try {
+    const [message, stored] = await conversationRepository.appendMessages(conversation.id, [
+      { position, role: MessageRole.USER, content: text },
+      toAssistantMessage(position + 1, reply),
+    ]);
+
+    if (!message || !stored) {
+      throw new Error('Conversation turns were not stored');
+    }
+
+    logger.info('Conversation turn added', {
+      conversationId: conversation.id,
+      turns: position + 2,
+      totalTokens: reply.usage.totalTokens,
+      correctionChanges: correction?.changes.length,
+    });
+
+    return { message, reply: stored, usage: reply.usage, correction };
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new ConflictError('Another message was added to this conversation, please retry');
+    }
+    throw error;
+  }
+}
+
+/**
+ * Gets a conversation owned by the user with its full transcript
+ * @throws {AppError} CONVERSATION_NOT_FOUND
+ */
+export async function getConversation(
+  userId: string,
+  conversationId: string
+): Promise<ConversationWithMessages> {
+  return findOwnedConversation(userId, conversationId);
+}
+
+/**
+ * Ends a conversation and generates its report card
+ * If the report card fails, the conversation stays ended and the report card is
+ * generated on first request instead
+ *
+ * @param userId - Owner of the conversation
+ * @param conversationId - The conversation to end
+ * @returns The ended conversation and its report card, null if it could not be generated
+ * @throws {AppError} CONVERSATION_NOT_FOUND or CONVERSATION_ALREADY_ENDED
+ */
+export async function endConversation(
+  userId: string,
+  conversationId: string
+): Promise<ConversationEnding> {
+  const conversation = await findOwnedConversation(userId, conversationId);
+
+  if (conversation.endedAt) {
+    throw new AppError(
+      ErrorCodes.CONVERSATION_ALREADY_ENDED,
+      'Conversation already ended',
+      HttpStatus.CONFLICT
+    );
+  }
+
+  const ended = await conversationRepository.update(conversation.id, { endedAt: new Date() });
+  const hasLearnerTurns = ended.messages.some((message) => message.role === MessageRole.USER);
+
+  logger.info('Conversation ended', { conversationId: ended.id, turns: ended.messages.length });
+
+  let reportCard: ReportCard | null = null;
+
+  if (hasLearnerTurns) {
+    reportCard = await getPromptTopic(ended)
+      .then((topic) => createConversationReport(ended, topic))
+      .catch((error: unknown) => {
+        logger.warn('Failed to create conversation report card', {
+          conversationId: ended.id,
+          error: error instanceof Error ? error.message : error,
+        });
+        return null;
+      });
+  }
+
+  return { conversation: ended, reportCard };
+}
+
+/**
+ * Gets the report card of an ended conversation, generating it if it does not exist yet
+ * @throws {AppError} CONVERSATION_NOT_FOUND, or REPORT_NOT_AVAILABLE while the conversation
+ *   is ongoing or when the learner never replied
+ */
+export async function getConversationReport(
+  userId: string,
+  conversationId: string
+): Promise<ReportCard> {
+  const conversation = await findOwnedConversation(userId, conversationId);
+
+  if (!conversation.endedAt) {
+    throw new AppError(
+      ErrorCodes.REPORT_NOT_AVAILABLE,
+      'The report card is available once the conversation has ended',
+      HttpStatus.CONFLICT
+    );
+  }
+
+  return (
+    (await reportCardRepository.findByConversationId(conversation.id)) ??
+    createConversationReport(conversation, await getPromptTopic(conversation))
+  );
+}
+
+export default {
+  createConversation,
+  addMessage,
+  getConversation,
+  endConversation,
+  getConversationReport,
+};
@@ -0,0 +1,384 @@
+import { TranscriptionResponse } from '@services/openai';
+
+export type TimedWord = NonNullable<TranscriptionResponse['words']>[number];
+
+/**
+ * Gaps between words at or above this length count as long pauses (seconds)
+ */
+const LONG_PAUSE_SECONDS = 1.0;
+
+/**
+ * Gaps at or above this length are silence rather than articulation (seconds)
+ */
+const SILENT_PAUSE_SECONDS = 0.25;
+
+/**
+ * Speaking rate band considered natural for conversational English (words per minute)
+ */
+const NATURAL_RATE_WPM = { min: 110, max: 170 } as const;
+
+const SINGLE_WORD_FILLERS = new Set(['um', 'umm', 'uh', 'uhh', 'er', 'erm', 'ah', 'hmm', 'mm']);
+
+const MULTI_WORD_FILLERS: ReadonlyArray<readonly string[]> = [['you', 'know']];
+
+/**
+ * Checks whether a normalized token is a hesitation sound ("um", "uh"), which is never part
+ * of what the speaker meant to say
+ */
+export const isHesitationFiller = (token: string): boolean => SINGLE_WORD_FILLERS.has(token);
+
+/**
+ * Words after which "like" is a verb or preposition rather than a filler
+ */
+const LIKE_LICENSORS = new Set([
+  'i',
+  'you',
+  'we',
+  'they',
+  'he',
+  'she',
+  'it',
+  'people',
+  'would',
+  'id',
+  'youd',
+  'wed',
+  'theyd',
+  'do',
+  'dont',
+  'does',
+  'doesnt',
+  'did',
+  'didnt',
+  'really',
+  'also',
+  'to',
+  'not',
+  'feel',
+  'feels',
+  'look',
+  'looks',
+  'looked',
+  'sound',
+  'sounds',
+  'seem',
+  'seems',
+  'something',
+  'anything',
+  'nothing',
+  'more',
+  'much',
+  'just',
+]);
+
+/**
+ * Whisper drops disfluencies unless the prompt contains them, so this prompt is
+ * passed when transcribing recordings whose fluency will be measured
+ */
+export const FLUENCY_TRANSCRIPTION_PROMPT =
+  'Umm, let me think like, hmm... Okay, here is what I, uh, mean.';
+
+/**
+ * Phrases with which speakers interrupt themselves to correct what they just said
+ * Single words such as "sorry" or "rather" are left out, as they are mostly used in their
+ * ordinary sense ("I'd rather stay", "sorry to hear that")
+ */
+const CORRECTION_MARKERS: ReadonlyArray<readonly string[]> = [
+  ['i', 'mean'],
+  ['or', 'rather'],
+  ['no', 'wait'],
+];
+
+/**
+ * Words after which a marker is part of the sentence rather than an interruption
+ * ("what I mean is", "know what I mean")
+ */
+const NON_CORRECTION_PRECEDERS = new Set(['what', 'if', 'that']);
+
+/**
+ * Raw fluency metrics used to explain the score
+ */
+export interface FluencyMetrics {
+  wordCount: number;
+  durationSeconds: number;
+  speakingTimeSeconds: number;
+  speechRateWpm: number;
+  articulationRateWpm: number;
+  longPauses: {
+    count: number;
+    totalSeconds: number;
+    averageSeconds: number;
+    longestSeconds: number;
+    perMinute: number;
+  };
+  fillers: {
+    count: number;
+    per100Words: number;
+    perMinute: number;
+    breakdown: Record<string, number>;
+  };
+  repetitions: {
+    count: number;
+    per100Words: number;
+    examples: string[];
+  };
+  selfCorrections: {
+    count: number;
+    per100Words: number;
+    examples: string[];
+  };
+}
+
+/**
+ * Score deductions applied to the 0-100 fluency score
+ */
+export interface FluencyPenalties {
+  speechRate: number;
+  longPauses: number;
+  fillers: number;
+  repetitions: number;
+  selfCorrections: number;
+}
+
+/**
+ * Fluency analysis result
+ */
+export interface FluencyAnalysis {
+  score: number;
+  metrics: FluencyMetrics;
+  penalties: FluencyPenalties;
+}
+
+const round = (value: number, digits = 2): number => {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+};
+
+const normalizeToken = (word: string): string => word.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Returns word timings, estimating them from segments when word-level timestamps are missing
+ * Words in a segment are spread evenly across its duration
+ */
+export function getTimedWords(transcription: TranscriptionResponse): TimedWord[] {
+  if (transcription.words && transcription.words.length > 0) {
+    return transcription.words;
+  }
+
+  return (transcription.segments ?? []).flatMap((segment) => {
+    const tokens = segment.text.split(/\s+/).filter((token) => token.length > 0);
+    const step = tokens.length > 0 ? (segment.end - segment.start) / tokens.length : 0;
+
+    return tokens.map((word, index) => ({
+      word,
+      start: segment.start + index * step,
+      end: segment.start + (index + 1) * step,
+    }));
+  });
+}
+
+/**
+ * Checks whether the phrase starts at the given position
+ */
+function matchesAt(tokens: string[], index: number, phrase: readonly string[]): boolean {
+  return phrase.every((part, offset) => tokens[index + offset] === part);
+}
+
+/**
+ * Counts filler words and phrases, returning the indexes they cover
+ */
+function countFillers(tokens: string[]): {
+  breakdown: Record<string, number>;
+  count: number;
+  fillerIndexes: Set<number>;
+} {
+  const breakdown: Record<string, number> = {};
+  const fillerIndexes = new Set<number>();
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i] ?? '';
+    let filler: string | undefined;
+    let length = 1;
+
+    const phrase = MULTI_WORD_FILLERS.find((candidate) => matchesAt(tokens, i, candidate));
+
+    if (phrase) {
+      filler = phrase.join(' ');
+      length = phrase.length;
+    } else if (SINGLE_WORD_FILLERS.has(token)) {
+      filler = token;
+    } else if (token === 'like' && !LIKE_LICENSORS.has(tokens[i - 1] ?? '')) {
+      filler = token;
+    }
+
+    if (filler) {
+      breakdown[filler] = (breakdown[filler] ?? 0) + 1;
+      for (let offset = 0; offset < length; offset++) {
+        fillerIndexes.add(i + offset);
+      }
+      i += length - 1;
+    }
+  }
+
+  const count = Object.values(breakdown).reduce((sum, value) => sum + value, 0);
+  return { breakdown, count, fillerIndexes };
+}
+
+/**
+ * Counts immediate repetitions of a word or a two-word phrase ("I I", "I want I want")
+ */
+function countRepetitions(tokens: string[]): { count: number; examples: string[] } {
+  const examples: string[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    if (tokens[i] === tokens[i + 1]) {
+      examples.push(`${tokens[i]} ${tokens[i + 1]}`);
+      i += 1;
+    } else if (tokens[i] === tokens[i + 2] && tokens[i + 1] === tokens[i + 3]) {
+      examples.push(tokens.slice(i, i + 4).join(' '));
+      i += 3;
+    }
+  }
+
+  return { count: examples.length, examples };
+}
+
+/**
+ * Counts self-corrections marked explicitly ("I mean", "or rather")
+ * Unmarked restarts are not counted: a repeated word with a different continuation ("he
+ * go he went") cannot be told apart from fluent speech ("want to go to the park")
+ */
+function countSelfCorrections(tokens: string[]): { count: number; examples: string[] } {
+  const examples: string[] = [];
+
+  for (let i = 1; i < tokens.length; i++) {
+    const marker = CORRECTION_MARKERS.find((candidate) => matchesAt(tokens, i, candidate));
+
+    if (marker && !NON_CORRECTION_PRECEDERS.has(tokens[i - 1] ?? '')) {
+      examples.push(tokens.slice(Math.max(0, i - 2), i + marker.length + 2).join(' '));
+      i += marker.length - 1;
+    }
+  }
+
+  return { count: examples.length, examples };
+}
+
+/**
+ * Converts metrics into score deductions
+ */
+function computePenalties(metrics: FluencyMetrics): FluencyPenalties {
+  let speechRate = 0;
+  if (metrics.speechRateWpm < NATURAL_RATE_WPM.min) {
+    speechRate = Math.min(30, (NATURAL_RATE_WPM.min - metrics.speechRateWpm) * 0.4);
+  } else if (metrics.speechRateWpm > NATURAL_RATE_WPM.max) {
+    speechRate = Math.min(15, (metrics.speechRateWpm - NATURAL_RATE_WPM.max) * 0.3);
+  }
+
+  return {
+    speechRate: round(speechRate, 1),
+    longPauses: round(Math.min(25, metrics.longPauses.perMinute * 5), 1),
+    fillers: round(Math.min(20, metrics.fillers.per100Words * 2), 1),
+    repetitions: round(Math.min(15, metrics.repetitions.per100Words * 3), 1),
+    selfCorrections: round(Math.min(10, metrics.selfCorrections.per100Words * 2), 1),
+  };
+}
+
+/**
+ * Computes fluency metrics and a 0-100 fluency score from a verbose transcription
+ * Deterministic and local, so it is cheap enough to run on every recording
+ *
+ * @param transcription - Transcription with word-level (or at least segment-level) timestamps
+ * @returns Fluency score, raw metrics and the deductions that produced the score
+ *
+ * @example
+ * ```typescript
+ * const transcription = await transcribeAudioWithTimestamps(buffer);
+ * const { score, metrics } = analyzeFluency(transcription);
+ * console.log(score, metrics.speechRateWpm);
+ * ```
+ */
+export function analyzeFluency(transcription: TranscriptionResponse): FluencyAnalysis {
+  const words = getTimedWords(transcription);
+  const tokens = words.map((word) => normalizeToken(word.word)).filter((t) => t.length > 0);
+
+  const firstWord = words[0];
+  const lastWord = words[words.length - 1];
+  const durationSeconds = transcription.duration ?? lastWord?.end ?? 0;
+  const spokenSpan = firstWord && lastWord ? lastWord.end - firstWord.start : 0;
+
+  // Pauses are measured between words, so leading and trailing silence is ignored
+  const gaps = words.slice(1).map((word, index) => word.start - (words[index]?.end ?? word.start));
+  const longPauses = gaps.filter((gap) => gap >= LONG_PAUSE_SECONDS);
+  const silentTime = gaps
+    .filter((gap) => gap >= SILENT_PAUSE_SECONDS)
+    .reduce((sum, gap) => sum + gap, 0);
+  const longPauseTotal = longPauses.reduce((sum, gap) => sum + gap, 0);
+
+  const speakingTimeSeconds = Math.max(0, spokenSpan - silentTime);
+  const wordCount = tokens.length;
+  const minutes = durationSeconds / 60;
+  const per100Words = (count: number) => (wordCount > 0 ? round((count / wordCount) * 100) : 0);
+
+  const fillers = countFillers(tokens);
+  const contentTokens = tokens.filter((_token, index) => !fillers.fillerIndexes.has(index));
+  const repetitions = countRepetitions(contentTokens);
+  const selfCorrections = countSelfCorrections(contentTokens);
+
+  const metrics: FluencyMetrics = {
+    wordCount,
+    durationSeconds: round(durationSeconds),
+    speakingTimeSeconds: round(speakingTimeSeconds),
+    speechRateWpm: minutes > 0 ? round(wordCount / minutes, 1) : 0,
+    articulationRateWpm:
+      speakingTimeSeconds > 0 ? round(wordCount / (speakingTimeSeconds / 60), 1) : 0,
+    longPauses: {
+      count: longPauses.length,
+      totalSeconds: round(longPauseTotal),
+      averageSeconds: longPauses.length > 0 ? round(longPauseTotal / longPauses.length) : 0,
+      longestSeconds: round(Math.max(0, ...longPauses)),
+      perMinute: minutes > 0 ? round(longPauses.length / minutes) : 0,
+    },
+    fillers: {
+      count: fillers.count,
+      per100Words: per100Words(fillers.count),
+      perMinute: minutes > 0 ? round(fillers.count / minutes) : 0,
+      breakdown: fillers.breakdown,
+    },
+    repetitions: {
+      count: repetitions.count,
+      per100Words: per100Words(repetitions.count),
+      examples: repetitions.examples,
+    },
+    selfCorrections: {
+      count: selfCorrections.count,
+      per100Words: per100Words(selfCorrections.count),
+      examples: selfCorrections.examples,
+    },
+  };
+
+  if (wordCount === 0) {
+    return {
+      score: 0,
+      metrics,
+      penalties: { speechRate: 0, longPauses: 0, fillers: 0, repetitions: 0, selfCorrections: 0 },
+    };
+  }
+
+  const penalties = computePenalties(metrics);
+  const totalPenalty =
+    penalties.speechRate +
+    penalties.longPauses +
+    penalties.fillers +
+    penalties.repetitions +
+    penalties.selfCorrections;
+
+  return {
+    score: Math.round(Math.max(0, 100 - totalPenalty)),
+    metrics,
+    penalties,
+  };
+}
+
+export default {
+  analyzeFluency,
+};
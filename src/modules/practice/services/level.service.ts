@@ -0,0 +1,296 @@
+import { CefrLevel, Practice, Prisma, User } from '@prisma/client';
+import { UnauthorizedError } from '@shared/utils/errors';
+import { logger } from '@shared/utils/logger';
+import { practiceRepository } from '../repositories/practice.repository';
+import { userRepository } from '../repositories/user.repository';
+
+/**
+ * Number of recent practices the estimate is based on
+ */
+const RECENT_PRACTICE_COUNT = 20;
+
+/**
+ * Practices needed before a level is estimated
+ */
+const MIN_PRACTICES_FOR_ESTIMATE = 3;
+
+/**
+ * Window of the moving-average type-token ratio, so longer recordings are not penalized
+ */
+const MATTR_WINDOW = 50;
+
+/**
+ * Words of at least this many letters count towards the advanced word ratio
+ */
+const ADVANCED_WORD_LENGTH = 7;
+
+/**
+ * Weight of each dimension in the composite score
+ */
+const LEVEL_WEIGHTS = {
+  lexical: 0.4,
+  grammar: 0.35,
+  fluency: 0.25,
+} as const;
+
+/**
+ * Minimum composite score for each level, highest first; anything lower is A1
+ */
+const LEVEL_THRESHOLDS: ReadonlyArray<readonly [number, CefrLevel]> = [
+  [90, CefrLevel.C2],
+  [78, CefrLevel.C1],
+  [65, CefrLevel.B2],
+  [50, CefrLevel.B1],
+  [35, CefrLevel.A2],
+];
+
+/**
+ * Measurements behind a level estimate, stored in User.levelMetrics
+ */
+export interface LevelMetrics {
+  practiceCount: number;
+  wordCount: number;
+  lexicalDiversity: number; // moving-average type-token ratio, 0-1
+  advancedWordRatio: number; // share of long words, 0-1
+  lexicalScore: number; // 0-100
+  grammarAccuracy: number; // average grammar score, 0-100
+  fluency: number; // average fluency score, 0-100
+  compositeScore: number; // 0-100
+}
+
+/**
+ * A level estimated from practices
+ */
+export interface LevelEstimate {
+  level: CefrLevel;
+  metrics: LevelMetrics;
+}
+
+/**
+ * The learner's level as used for prompts, with where it came from
+ */
+export interface LearnerLevel {
+  level: CefrLevel | null;
+  source: 'override' | 'estimate' | null;
+  override: CefrLevel | null;
+  estimate: (LevelEstimate & { estimatedAt: Date }) | null;
+}
+
+const round = (value: number, digits = 2): number => {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * Maps a value within [low, high] onto 0-100, clamping outside the range
+ */
+const scale = (value: number, low: number, high: number): number =>
+  Math.min(100, Math.max(0, ((value - low) / (high - low)) * 100));
+
+const average = (values: number[]): number =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[a-z]+(?:'[a-z]+)?/g) ?? [];
+}
+
+/**
+ * Moving-average type-token ratio: the share of distinct words in each window, averaged
+ */
+function movingAverageTtr(tokens: string[]): number {
+  if (tokens.length === 0) {
+    return 0;
+  }
+
+  const window = Math.min(MATTR_WINDOW, tokens.length);
+  const counts = new Map<string, number>();
+  let total = 0;
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i] ?? '';
+    counts.set(token, (counts.get(token) ?? 0) + 1);
+
+    if (i >= window) {
+      const dropped = tokens[i - window] ?? '';
+      const remaining = (counts.get(dropped) ?? 0) - 1;
+      if (remaining > 0) {
+        counts.set(dropped, remaining);
+      } else {
+        counts.delete(dropped);
+      }
+    }
+
+    if (i >= window - 1) {
+      total += counts.size / window;
+    }
+  }
+
+  return total / (tokens.length - window + 1);
+}
+
+function toLevel(compositeScore: number): CefrLevel {
+  return LEVEL_THRESHOLDS.find(([minimum]) => compositeScore >= minimum)?.[1] ?? CefrLevel.A1;
+}
+
+/**
+ * Estimates a CEFR level from practices using lexical range, grammar accuracy and fluency
+ * Deterministic and local, so it can run after every practice
+ *
+ * @param practices - Recent practices of one learner
+ * @returns The estimate, or null if there are too few practices
+ */
+export function estimateLevel(
+  practices: Array<Pick<Practice, 'transcribedText' | 'grammarScore' | 'fluencyScore'>>
+): LevelEstimate | null {
+  if (practices.length < MIN_PRACTICES_FOR_ESTIMATE) {
+    return null;
+  }
+
+  const tokens = practices.flatMap((practice) => tokenize(practice.transcribedText));
+  const lexicalDiversity = movingAverageTtr(tokens);
+  const advancedWordRatio =
+    tokens.length > 0
+      ? tokens.filter((token) => token.length >= ADVANCED_WORD_LENGTH).length / tokens.length
+      : 0;
+
+  const lexicalScore =
+    0.7 * scale(lexicalDiversity, 0.45, 0.8) + 0.3 * scale(advancedWordRatio, 0.05, 0.25);
+  const grammarAccuracy = average(practices.map((practice) => practice.grammarScore));
+  const fluency = average(practices.map((practice) => practice.fluencyScore));
+  const compositeScore =
+    lexicalScore * LEVEL_WEIGHTS.lexical +
+    grammarAccuracy * LEVEL_WEIGHTS.grammar +
+    fluency * LEVEL_WEIGHTS.fluency;
+
+  return {
+    level: toLevel(compositeScore),
+    metrics: {
+      practiceCount: practices.length,
+      wordCount: tokens.length,
+      lexicalDiversity: round(lexicalDiversity, 3),
+      advancedWordRatio: round(advancedWordRatio, 3),
+      lexicalScore: round(lexicalScore, 1),
+      grammarAccuracy: round(grammarAccuracy, 1),
+      fluency: round(fluency, 1),
+      compositeScore: round(compositeScore, 1),
+    },
+  };
+}
+
+function toLearnerLevel(user: User): LearnerLevel {
+  const estimate =
+    user.estimatedLevel && user.levelEstimatedAt
+      ? {
+          level: user.estimatedLevel,
+          metrics: user.levelMetrics as unknown as LevelMetrics,
+          estimatedAt: user.levelEstimatedAt,
+        }
+      : null;
+
+  return {
+    level: user.levelOverride ?? estimate?.level ?? null,
+    source: user.levelOverride ? 'override' : estimate ? 'estimate' : null,
+    override: user.levelOverride,
+    estimate,
+  };
+}
+
+async function findUser(userId: string): Promise<User> {
+  const user = await userRepository.findById(userId);
+
+  if (!user) {
+    throw new UnauthorizedError('Unknown user');
+  }
+
+  return user;
+}
+
+/**
+ * Re-estimates the user's level from their recent practices and stores it
+ * A manual override keeps taking precedence; the estimate is still updated
+ *
+ * @param userId - The learner
+ * @returns The new estimate, or null if there are too few practices
+ */
+export async function refreshLevelEstimate(userId: string): Promise<LevelEstimate | null> {
+  const practices = await practiceRepository.findRecentByUser(userId, RECENT_PRACTICE_COUNT);
+  const estimate = estimateLevel(practices);
+
+  if (!estimate) {
+    return null;
+  }
+
+  await userRepository.update(userId, {
+    estimatedLevel: estimate.level,
+    levelMetrics: estimate.metrics as unknown as Prisma.InputJsonObject,
+    levelEstimatedAt: new Date(),
+  });
+
+  logger.info('Learner level estimated', {
+    userId,
+    level: estimate.level,
+    compositeScore: estimate.metrics.compositeScore,
+    practiceCount: estimate.metrics.practiceCount,
+  });
+
+  return estimate;
+}
+
+/**
+ * Gets the user's level, estimating it first if that has never been done
+ * @throws {UnauthorizedError} If the user does not exist
+ */
+export async function getLearnerLevel(userId: string): Promise<LearnerLevel> {
+  const user = await findUser(userId);
+
+  if (!user.levelEstimatedAt && (await refreshLevelEstimate(userId))) {
+    return toLearnerLevel(await findUser(userId));
+  }
+
+  return toLearnerLevel(user);
+}
+
+/**
+ * Sets or clears the learner's manual level override
+ *
+ * @param userId - The learner
+ * @param level - The level to use from now on, or null to go back to the estimate
+ */
+export async function setLevelOverride(
+  userId: string,
+  level: CefrLevel | null
+): Promise<LearnerLevel> {
+  const user = await userRepository.update(userId, { levelOverride: level });
+
+  logger.info('Learner level override updated', { userId, level });
+
+  return toLearnerLevel(user);
+}
+
+/**
+ * Resolves the level prompts should adapt to
+ * An explicitly requested level wins, then the user's override, then their estimate
+ *
+ * @param userId - The current user, if the request identified one
+ * @param requested - Level given with the request
+ * @returns The level, or undefined if none is known
+ */
+export async function resolveLevel(
+  userId: string | undefined,
+  requested?: CefrLevel
+): Promise<CefrLevel | undefined> {
+  if (requested || !userId) {
+    return requested;
+  }
+
+  const user = await userRepository.findById(userId);
+  return user?.levelOverride ?? user?.estimatedLevel ?? undefined;
+}
+
+export default {
+  estimateLevel,
+  refreshLevelEstimate,
+  getLearnerLevel,
+  setLevelOverride,
+  resolveLevel,
+};
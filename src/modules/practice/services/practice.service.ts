@@ -0,0 +1,347 @@
+import { Practice, Prisma } from '@prisma/client';
+import {
+  transcribeAudioWithTimestamps,
+  analyzeSpeech,
+  TranscriptionResponse,
+} from '@services/openai';
+import { AppError } from '@shared/utils/errors';
+import { ErrorCodes } from '@shared/constants/errorCodes';
+import { HttpStatus } from '@shared/constants/enums';
+import { logger } from '@shared/utils/logger';
+import { DateRangeParams, PaginationParams } from '@shared/types/api.types';
+import { practiceRepository } from '../repositories/practice.repository';
+import { assertSessionActive, recordSessionActivity } from './session.service';
+import { refreshLevelEstimate } from './level.service';
+import { analyzeFluency, FLUENCY_TRANSCRIPTION_PROMPT } from './fluency.service';
+import { assessReading, ReadAloudAssessment } from './readAloud.service';
+import { getRecordingUrl, storeRecording } from './recording.service';
+import { CaptionSource, toCaptionSource } from './transcriptExport.service';
+
+/**
+ * Weight of each dimension in the overall score
+ */
+const SCORE_WEIGHTS = {
+  grammar: 0.4,
+  pronunciation: 0.3,
+  fluency: 0.3,
+} as const;
+
+/**
+ * Input for analyzing a practice recording
+ */
+export interface AnalyzePracticeInput {
+  userId: string;
+  audio: {
+    buffer: Buffer;
+    size: number;
+  };
+  originalText?: string;
+  sessionId?: string;
+  language?: string;
+}
+
+/**
+ * Input for assessing a reading of a reference text
+ */
+export interface ReadAloudInput extends Omit<AnalyzePracticeInput, 'originalText'> {
+  referenceText: string;
+}
+
+/**
+ * Filters and ordering for the practice history
+ */
+export interface PracticeHistoryFilters extends DateRangeParams {
+  sessionId?: string;
+  minScore?: number;
+  maxScore?: number;
+  sortBy: 'date' | 'score';
+  order: 'asc' | 'desc';
+}
+
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Converts a DateRangeParams into a createdAt filter
+ * A date-only endDate covers that whole day
+ * @throws {AppError} INVALID_DATE_RANGE if the start is after the end
+ */
+function buildCreatedAtFilter({
+  startDate,
+  endDate,
+}: DateRangeParams): Prisma.DateTimeFilter | undefined {
+  if (!startDate && !endDate) {
+    return undefined;
+  }
+
+  const start = startDate ? new Date(startDate) : undefined;
+  let end = endDate ? new Date(endDate) : undefined;
+
+  if (end && endDate && DATE_ONLY_PATTERN.test(endDate)) {
+    end = new Date(end.getTime() + 24 * 60 * 60 * 1000 - 1);
+  }
+
+  if (start && end && start > end) {
+    throw new AppError(
+      ErrorCodes.INVALID_DATE_RANGE,
+      'startDate must be before endDate',
+      HttpStatus.BAD_REQUEST
+    );
+  }
+
+  return { gte: start, lte: end };
+}
+
+/**
+ * Combines the per-dimension scores into the weighted overall score
+ */
+export function computeOverallScore(scores: {
+  grammar: number;
+  pronunciation: number;
+  fluency: number;
+}): number {
+  const overall =
+    scores.grammar * SCORE_WEIGHTS.grammar +
+    scores.pronunciation * SCORE_WEIGHTS.pronunciation +
+    scores.fluency * SCORE_WEIGHTS.fluency;
+
+  return Math.round(overall * 10) / 10;
+}
+
+/**
+ * Checks the target session and transcribes the recording for scoring
+ * @throws {AppError} ANALYSIS_FAILED when no speech is detected
+ */
+async function transcribeForPractice(
+  input: Pick<AnalyzePracticeInput, 'userId' | 'audio' | 'sessionId' | 'language'>
+): Promise<TranscriptionResponse> {
+  const { userId, audio, sessionId, language } = input;
+
+  if (sessionId) {
+    await assertSessionActive(userId, sessionId);
+  }
+
+  const transcription = await transcribeAudioWithTimestamps(audio.buffer, {
+    language,
+    prompt: FLUENCY_TRANSCRIPTION_PROMPT,
+  });
+
+  if (!transcription.text.trim()) {
+    throw new AppError(
+      ErrorCodes.ANALYSIS_FAILED,
+      'No speech detected in the recording',
+      HttpStatus.BAD_REQUEST
+    );
+  }
+
+  return transcription;
+}
+
+/**
+ * Saves a scored practice, records it on its session and re-estimates the user's level
+ */
+async function savePractice(data: Prisma.PracticeUncheckedCreateInput): Promise<Practice> {
+  const practice = await practiceRepository.create(data);
+
+  if (practice.sessionId) {
+    await recordSessionActivity(practice.sessionId);
+  }
+
+  // The practice is already saved, so a failed estimate must not fail the request
+  await refreshLevelEstimate(practice.userId).catch((error: unknown) => {
+    logger.warn('Failed to re-estimate learner level', {
+      userId: practice.userId,
+      error: error instanceof Error ? error.message : error,
+    });
+  });
+
+  logger.info('Practice analyzed and saved', {
+    practiceId: practice.id,
+    userId: practice.userId,
+    sessionId: practice.sessionId,
+    overallScore: practice.overallScore,
+  });
+
+  return practice;
+}
+
+/**
+ * Transcribes and analyzes a recording, then persists it as a Practice record
+ *
+ * @param input - The recording and its context
+ * @returns The saved Practice record
+ * @throws {AppError} ANALYSIS_FAILED when no speech is detected or the analysis fails
+ * @throws {AppError} SESSION_NOT_FOUND or SESSION_ALREADY_ENDED for an unusable sessionId
+ */
+export async function analyzePractice(input: AnalyzePracticeInput): Promise<Practice> {
+  const { userId, audio, originalText, sessionId } = input;
+
+  const transcription = await transcribeForPractice(input);
+  const analysis = await analyzeSpeech(transcription, { originalText });
+  const audioFile = await storeRecording(audio.buffer);
+  const fluency = analyzeFluency(transcription);
+  const scores = { ...analysis.scores, fluency: fluency.score };
+
+  return savePractice({
+    userId,
+    sessionId,
+    audioFileId: audioFile.id,
+    audioUrl: getRecordingUrl(audioFile.id),
+    audioDuration: transcription.duration ?? 0,
+    audioSize: audio.size,
+    transcribedText: transcription.text,
+    transcriptionTimings: toCaptionSource(transcription) as unknown as Prisma.InputJsonObject,
+    originalText,
+    grammarScore: scores.grammar,
+    pronunciationScore: scores.pronunciation,
+    fluencyScore: scores.fluency,
+    overallScore: computeOverallScore(scores),
+    grammarErrors: analysis.grammarErrors as unknown as Prisma.InputJsonArray,
+    pronunciationIssues: analysis.pronunciationIssues as unknown as Prisma.InputJsonArray,
+    correctedText: analysis.correctedText,
+    suggestions: analysis.suggestions,
+  });
+}
+
+/**
+ * Builds study tips from the read-aloud error counts
+ */
+function buildReadingSuggestions(assessment: ReadAloudAssessment): string[] {
+  const suggestions: string[] = [];
+  const { omissions, insertions, substitutions } = assessment.counts;
+
+  if (omissions > 0) {
+    suggestions.push('Slow down and track each word with your eyes to avoid skipping words.');
+  }
+  if (substitutions > 0) {
+    suggestions.push('Practice the misread words on their own before reading the full text again.');
+  }
+  if (insertions > 0) {
+    suggestions.push('Stick to the text and avoid adding words that are not written.');
+  }
+  if (suggestions.length === 0) {
+    suggestions.push('Great accuracy! Try reading the passage again with more natural intonation.');
+  }
+
+  return suggestions;
+}
+
+/**
+ * Transcribes a reading of a reference text, aligns it word by word and
+ * persists the result as a Practice record
+ *
+ * Read-aloud has no free-form grammar to assess, so reading accuracy is used
+ * for both the grammar and pronunciation scores.
+ *
+ * @param input - The recording, the reference text and their context
+ * @returns The saved Practice record and the full alignment
+ * @throws {AppError} ANALYSIS_FAILED when no speech is detected
+ * @throws {AppError} SESSION_NOT_FOUND or SESSION_ALREADY_ENDED for an unusable sessionId
+ */
+export async function assessReadAloud(
+  input: ReadAloudInput
+): Promise<{ practice: Practice; assessment: ReadAloudAssessment }> {
+  const { userId, audio, referenceText, sessionId } = input;
+
+  const transcription = await transcribeForPractice(input);
+  const assessment = assessReading(referenceText, transcription);
+  const audioFile = await storeRecording(audio.buffer);
+  const fluency = analyzeFluency(transcription);
+  const scores = {
+    grammar: assessment.accuracyScore,
+    pronunciation: assessment.accuracyScore,
+    fluency: fluency.score,
+  };
+
+  const practice = await savePractice({
+    userId,
+    sessionId,
+    audioFileId: audioFile.id,
+    audioUrl: getRecordingUrl(audioFile.id),
+    audioDuration: transcription.duration ?? 0,
+    audioSize: audio.size,
+    transcribedText: transcription.text,
+    transcriptionTimings: toCaptionSource(transcription) as unknown as Prisma.InputJsonObject,
+    originalText: referenceText,
+    grammarScore: scores.grammar,
+    pronunciationScore: scores.pronunciation,
+    fluencyScore: scores.fluency,
+    overallScore: computeOverallScore(scores),
+    grammarErrors: [],
+    pronunciationIssues: assessment.issues as unknown as Prisma.InputJsonArray,
+    correctedText: referenceText,
+    suggestions: buildReadingSuggestions(assessment),
+  });
+
+  return { practice, assessment };
+}
+
+/**
+ * Gets the caption data of one of the user's practices
+ * Practices saved before timings were stored fall back to a single untimed cue
+ *
+ * @throws {AppError} PRACTICE_NOT_FOUND if it does not exist or belongs to another user
+ */
+export async function getPracticeTranscript(
+  userId: string,
+  practiceId: string
+): Promise<CaptionSource> {
+  const practice = await practiceRepository.findById(practiceId);
+
+  if (!practice || practice.userId !== userId) {
+    throw new AppError(ErrorCodes.PRACTICE_NOT_FOUND, 'Practice not found', HttpStatus.NOT_FOUND);
+  }
+
+  if (practice.transcriptionTimings) {
+    return practice.transcriptionTimings as unknown as CaptionSource;
+  }
+
+  return { text: practice.transcribedText, duration: practice.audioDuration };
+}
+
+/**
+ * Lists a user's practices, filtered and paginated
+ *
+ * @param userId - Owner of the practices
+ * @param pagination - Page number and page size
+ * @param filters - Session, date range, score range and sort order
+ * @returns The requested page and the total number of matches
+ * @throws {AppError} INVALID_DATE_RANGE if the start date is after the end date
+ */
+export async function getPracticeHistory(
+  userId: string,
+  pagination: Required<PaginationParams>,
+  filters: PracticeHistoryFilters
+): Promise<{ practices: Practice[]; total: number }> {
+  const { sessionId, minScore, maxScore, sortBy, order } = filters;
+
+  const where: Prisma.PracticeWhereInput = {
+    userId,
+    sessionId,
+    createdAt: buildCreatedAtFilter(filters),
+    overallScore:
+      minScore !== undefined || maxScore !== undefined
+        ? { gte: minScore, lte: maxScore }
+        : undefined,
+  };
+
+  // Ties on score fall back to the most recent practice first
+  const orderBy: Prisma.PracticeOrderByWithRelationInput[] =
+    sortBy === 'score' ? [{ overallScore: order }, { createdAt: 'desc' }] : [{ createdAt: order }];
+
+  const { items, total } = await practiceRepository.findManyWithCount({
+    where,
+    orderBy,
+    skip: (pagination.page - 1) * pagination.limit,
+    take: pagination.limit,
+  });
+
+  return { practices: items, total };
+}
+
+export default {
+  analyzePractice,
+  assessReadAloud,
+  getPracticeHistory,
+  getPracticeTranscript,
+  computeOverallScore,
+};
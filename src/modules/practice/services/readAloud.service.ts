@@ -0,0 +1,233 @@
+import { TranscriptionResponse } from '@services/openai';
+import { PronunciationIssue, ReadingErrorType } from '@shared/types/domain.types';
+import { getTimedWords, isHesitationFiller, TimedWord } from './fluency.service';
+
+/**
+ * One step of the word alignment between the reference and the transcript
+ */
+export interface AlignmentStep {
+  type: 'match' | ReadingErrorType;
+  expected?: string;
+  spoken?: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Result of aligning a reading against its reference text
+ */
+export interface ReadAloudAssessment {
+  referenceWordCount: number;
+  spokenWordCount: number;
+  wordErrorRate: number;
+  accuracyScore: number;
+  counts: {
+    matches: number;
+    substitutions: number;
+    omissions: number;
+    insertions: number;
+  };
+  alignment: AlignmentStep[];
+  issues: PronunciationIssue[];
+}
+
+interface ReferenceToken {
+  display: string;
+  normalized: string;
+}
+
+interface SpokenToken extends ReferenceToken {
+  start: number;
+  end: number;
+}
+
+/**
+ * Lower-cases a word and strips punctuation and accents, keeping apostrophes
+ * Curly apostrophes are straightened first, so "don’t" matches "don't"
+ */
+const normalize = (word: string): string =>
+  word
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[’‘]/g, "'")
+    .toLowerCase()
+    .replace(/[^a-z0-9']/g, '');
+
+function tokenizeReference(text: string): ReferenceToken[] {
+  return text
+    .split(/\s+/)
+    .map((word) => ({
+      display: word.replace(/^[^\w'’]+|[^\w'’]+$/g, ''),
+      normalized: normalize(word),
+    }))
+    .filter((token) => token.normalized.length > 0);
+}
+
+function tokenizeSpoken(words: TimedWord[]): SpokenToken[] {
+  return words
+    .map((word) => ({
+      display: word.word.trim(),
+      normalized: normalize(word.word),
+      start: word.start,
+      end: word.end,
+    }))
+    .filter((token) => token.normalized.length > 0);
+}
+
+/**
+ * Levenshtein alignment over words, returning the edit path from start to end
+ * Ties prefer match/substitution, then omission, then insertion
+ */
+function alignTokens(reference: ReferenceToken[], spoken: SpokenToken[]): AlignmentStep[] {
+  const rows = reference.length + 1;
+  const cols = spoken.length + 1;
+  const cost: number[][] = Array.from({ length: rows }, (_row, i) =>
+    Array.from({ length: cols }, (_col, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+  const at = (i: number, j: number): number => cost[i]?.[j] ?? Infinity;
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const same = reference[i - 1]?.normalized === spoken[j - 1]?.normalized;
+      const row = cost[i];
+      if (row) {
+        row[j] = Math.min(at(i - 1, j - 1) + (same ? 0 : 1), at(i - 1, j) + 1, at(i, j - 1) + 1);
+      }
+    }
+  }
+
+  const steps: AlignmentStep[] = [];
+  let i = reference.length;
+  let j = spoken.length;
+
+  while (i > 0 || j > 0) {
+    const expected = reference[i - 1];
+    const heard = spoken[j - 1];
+    const same = expected !== undefined && expected.normalized === heard?.normalized;
+
+    if (expected && heard && at(i, j) === at(i - 1, j - 1) + (same ? 0 : 1)) {
+      steps.push({
+        type: same ? 'match' : 'substitution',
+        expected: expected.display,
+        spoken: heard.display,
+        start: heard.start,
+        end: heard.end,
+      });
+      i--;
+      j--;
+    } else if (expected && at(i, j) === at(i - 1, j) + 1) {
+      // Omitted words have no audio; anchor them at the following spoken word
+      const anchor = spoken[j]?.start ?? heard?.end ?? 0;
+      steps.push({ type: 'omission', expected: expected.display, start: anchor, end: anchor });
+      i--;
+    } else if (heard) {
+      steps.push({ type: 'insertion', spoken: heard.display, start: heard.start, end: heard.end });
+      j--;
+    } else {
+      break;
+    }
+  }
+
+  return steps.reverse();
+}
+
+/**
+ * Describes an alignment error in the PronunciationIssue shape stored on Practice
+ */
+function toPronunciationIssue(
+  step: AlignmentStep & { type: ReadingErrorType }
+): PronunciationIssue {
+  const base = {
+    ipa: '',
+    type: step.type,
+    expected: step.expected,
+    spoken: step.spoken,
+    start: step.start,
+    end: step.end,
+  };
+
+  switch (step.type) {
+    case 'omission':
+      return {
+        ...base,
+        word: step.expected ?? '',
+        issue: `Skipped "${step.expected}"`,
+        suggestion: `Read every word, including "${step.expected}"`,
+      };
+    case 'insertion':
+      return {
+        ...base,
+        word: step.spoken ?? '',
+        issue: `Added "${step.spoken}", which is not in the text`,
+        suggestion: 'Follow the text closely and avoid adding words',
+      };
+    case 'substitution':
+      return {
+        ...base,
+        word: step.expected ?? '',
+        issue: `Read "${step.expected}" as "${step.spoken}"`,
+        suggestion: `Practice saying "${step.expected}" slowly, then at normal speed`,
+      };
+  }
+}
+
+/**
+ * Aligns a read-aloud transcription word by word against the reference text
+ *
+ * @param referenceText - The sentence or passage the learner was asked to read
+ * @param transcription - Verbose transcription of the learner's reading
+ * @returns Word error rate, per-type error counts and timestamped errors
+ *
+ * @example
+ * ```typescript
+ * const transcription = await transcribeAudioWithTimestamps(buffer);
+ * const assessment = assessReading('The quick brown fox.', transcription);
+ * console.log(assessment.wordErrorRate, assessment.counts.omissions);
+ * ```
+ */
+export function assessReading(
+  referenceText: string,
+  transcription: TranscriptionResponse
+): ReadAloudAssessment {
+  const reference = tokenizeReference(referenceText);
+  // Recordings are transcribed with fillers kept for the fluency score; hesitations are not
+  // misreadings, so they are dropped unless the text itself contains them
+  const referenceWords = new Set(reference.map((token) => token.normalized));
+  const spoken = tokenizeSpoken(getTimedWords(transcription)).filter(
+    (token) => !isHesitationFiller(token.normalized) || referenceWords.has(token.normalized)
+  );
+  const alignment = alignTokens(reference, spoken);
+
+  const counts = { matches: 0, substitutions: 0, omissions: 0, insertions: 0 };
+  const issues: PronunciationIssue[] = [];
+
+  for (const step of alignment) {
+    if (step.type === 'match') {
+      counts.matches++;
+      continue;
+    }
+
+    if (step.type === 'substitution') counts.substitutions++;
+    if (step.type === 'omission') counts.omissions++;
+    if (step.type === 'insertion') counts.insertions++;
+
+    issues.push(toPronunciationIssue({ ...step, type: step.type }));
+  }
+
+  const errors = counts.substitutions + counts.omissions + counts.insertions;
+  const wordErrorRate = reference.length > 0 ? errors / reference.length : 0;
+
+  return {
+    referenceWordCount: reference.length,
+    spokenWordCount: spoken.length,
+    wordErrorRate: Math.round(wordErrorRate * 1000) / 1000,
+    accuracyScore: Math.round(Math.max(0, 1 - wordErrorRate) * 1000) / 10,
+    counts,
+    alignment,
+    issues,
+  };
+}
+
+export default {
+  assessReading,
+};
@@ -0,0 +1,102 @@
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import { AudioFile, Prisma } from '@prisma/client';
+import { env } from '@config/environment';
+import { AudioFormat, detectAudioFormat, SUPPORTED_AUDIO_FORMATS } from '@services/openai';
+import { ByteRange, getStorage } from '@services/storage';
+import { AppError } from '@shared/utils/errors';
+import { ErrorCodes } from '@shared/constants/errorCodes';
+import { HttpStatus } from '@shared/constants/enums';
+import { logger } from '@shared/utils/logger';
+import { audioFileRepository } from '../repositories/audioFile.repository';
+
+/**
+ * Builds the storage key of a file from its hash, sharded by the first two hex digits
+ */
+function buildStorageKey(hash: string, format: AudioFormat): string {
+  return `audio/${hash.slice(0, 2)}/${hash}.${format.extension}`;
+}
+
+/**
+ * Stores a recording, reusing the existing file when identical content was uploaded before
+ *
+ * @param data - The uploaded audio; its format is detected from the contents
+ * @returns The AudioFile record describing the stored content
+ * @throws {AppError} INVALID_AUDIO_FORMAT if the contents match no supported container
+ */
+export async function storeRecording(data: Buffer): Promise<AudioFile> {
+  const format = detectAudioFormat(data);
+
+  if (!format) {
+    throw new AppError(
+      ErrorCodes.INVALID_AUDIO_FORMAT,
+      `Unsupported audio format. Supported formats: ${SUPPORTED_AUDIO_FORMATS.join(', ')}`,
+      HttpStatus.BAD_REQUEST
+    );
+  }
+
+  const hash = crypto.createHash('sha256').update(data).digest('hex');
+
+  const existing = await audioFileRepository.findByHash(hash);
+  if (existing) {
+    logger.info('Reusing stored recording', { audioFileId: existing.id, hash });
+    return existing;
+  }
+
+  const storage = getStorage();
+  const storageKey = buildStorageKey(hash, format);
+  await storage.put(storageKey, data, format.mimeType);
+
+  try {
+    return await audioFileRepository.create({
+      hash,
+      storageKey,
+      contentType: format.mimeType,
+      size: data.length,
+    });
+  } catch (error) {
+    // A concurrent upload of the same content created the record first
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      const created = await audioFileRepository.findByHash(hash);
+      if (created) {
+        return created;
+      }
+    }
+    throw error;
+  }
+}
+
+/**
+ * Gets a stored recording linked to one of the user's practices
+ * @throws {AppError} RECORDING_NOT_FOUND if it does not exist or belongs to another user
+ */
+export async function getRecording(userId: string, audioFileId: string): Promise<AudioFile> {
+  const audioFile = await audioFileRepository.findOwnedById(audioFileId, userId);
+
+  if (!audioFile || !(await getStorage().stat(audioFile.storageKey))) {
+    throw new AppError(ErrorCodes.RECORDING_NOT_FOUND, 'Recording not found', HttpStatus.NOT_FOUND);
+  }
+
+  return audioFile;
+}
+
+/**
+ * Opens a stored recording, or a byte range of it, for reading
+ */
+export function openRecording(audioFile: AudioFile, range?: ByteRange): Promise<Readable> {
+  return getStorage().createReadStream(audioFile.storageKey, range);
+}
+
+/**
+ * Path under which a stored recording can be replayed
+ */
+export function getRecordingUrl(audioFileId: string): string {
+  return `${env.apiPrefix}/practice/recordings/${audioFileId}`;
+}
+
+export default {
+  storeRecording,
+  getRecording,
+  openRecording,
+  getRecordingUrl,
+};
@@ -0,0 +1,290 @@
+import { MessageRole, Practice, PracticeSession, Prisma, ReportCard } from '@prisma/client';
+import { generateConversationFeedback, generateSessionFeedback } from '@services/openai';
+import { AppError } from '@shared/utils/errors';
+import { ErrorCodes } from '@shared/constants/errorCodes';
+import { HttpStatus } from '@shared/constants/enums';
+import { logger } from '@shared/utils/logger';
+import {
+  GrammarError,
+  PracticeScores,
+  ReportCardContent,
+  ReportCorrection,
+  ReportTurn,
+} from '@shared/types/domain.types';
+import { ConversationWithMessages } from '../repositories/conversation.repository';
+import { practiceRepository } from '../repositories/practice.repository';
+import { reportCardRepository } from '../repositories/reportCard.repository';
+import { resolveLevel } from './level.service';
+
+/**
+ * An error category counts as recurring once it appears this many times
+ */
+const RECURRING_ERROR_MIN_COUNT = 2;
+
+/**
+ * Example utterances listed per recurring error category
+ */
+const MAX_ERROR_EXAMPLES = 3;
+
+type ScoreDimension = Exclude<keyof PracticeScores, 'overall'>;
+
+const SCORE_DIMENSIONS: ScoreDimension[] = ['grammar', 'pronunciation', 'fluency'];
+
+const round = (value: number): number => Math.round(value * 10) / 10;
+
+function toScores(practice: Practice): PracticeScores {
+  return {
+    grammar: practice.grammarScore,
+    pronunciation: practice.pronunciationScore,
+    fluency: practice.fluencyScore,
+    overall: practice.overallScore,
+  };
+}
+
+/**
+ * Averages the stored Practice scores, rounded like PracticeSession.avgScore
+ */
+function averageScores(practices: Practice[]): PracticeScores {
+  const average = (select: (practice: Practice) => number) =>
+    round(practices.reduce((sum, practice) => sum + select(practice), 0) / practices.length);
+
+  return {
+    grammar: average((practice) => practice.grammarScore),
+    pronunciation: average((practice) => practice.pronunciationScore),
+    fluency: average((practice) => practice.fluencyScore),
+    overall: average((practice) => practice.overallScore),
+  };
+}
+
+/**
+ * Describes a practice picked as the strongest or weakest by its scores
+ */
+function toScoredTurn(practice: Practice, strongest: boolean): ReportTurn {
+  const scores = toScores(practice);
+  const ranked = [...SCORE_DIMENSIONS].sort((a, b) => scores[a] - scores[b]);
+  const dimension = (strongest ? ranked[ranked.length - 1] : ranked[0]) ?? 'grammar';
+
+  return {
+    ref: practice.id,
+    text: practice.transcribedText,
+    reason: strongest
+      ? `Highest overall score of the session, led by ${dimension} (${scores[dimension]})`
+      : `Lowest overall score of the session, held back by ${dimension} (${scores[dimension]})`,
+    scores,
+  };
+}
+
+/**
+ * Counts error categories across corrections, keeping those that recur
+ */
+function findRecurringErrors(
+  corrections: ReportCorrection[]
+): ReportCardContent['recurringErrors'] {
+  const byCategory = new Map<string, { count: number; examples: string[] }>();
+
+  for (const correction of corrections) {
+    for (const category of correction.categories) {
+      const entry = byCategory.get(category) ?? { count: 0, examples: [] };
+      entry.count++;
+      if (entry.examples.length < MAX_ERROR_EXAMPLES) {
+        entry.examples.push(correction.original);
+      }
+      byCategory.set(category, entry);
+    }
+  }
+
+  return [...byCategory]
+    .filter(([, entry]) => entry.count >= RECURRING_ERROR_MIN_COUNT)
+    .map(([category, entry]) => ({ category, ...entry }))
+    .sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Stores a report card, returning the existing one if another request stored it first
+ */
+async function saveReportCard(
+  data: Prisma.ReportCardUncheckedCreateInput,
+  findExisting: () => Promise<ReportCard | null>
+): Promise<ReportCard> {
+  try {
+    return await reportCardRepository.create(data);
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      const existing = await findExisting();
+      if (existing) return existing;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Generates and stores the report card for an ended practice session
+ * Scores, the strongest and weakest practices and the corrections come from the stored
+ * Practice records, so the numbers match the practice history
+ *
+ * @param session - The ended session
+ * @returns The stored report card
+ * @throws {AppError} REPORT_NOT_AVAILABLE if the session has no practices
+ */
+export async function createSessionReport(session: PracticeSession): Promise<ReportCard> {
+  const practices = await practiceRepository.findBySession(session.id);
+
+  if (practices.length === 0) {
+    throw new AppError(
+      ErrorCodes.REPORT_NOT_AVAILABLE,
+      'A report card needs at least one practice in the session',
+      HttpStatus.BAD_REQUEST
+    );
+  }
+
+  const byScore = [...practices].sort((a, b) => b.overallScore - a.overallScore);
+  const strongest = byScore[0];
+  const weakest = byScore.length > 1 ? byScore[byScore.length - 1] : undefined;
+
+  const corrections: ReportCorrection[] = practices.flatMap((practice) => {
+    const errors = practice.grammarErrors as unknown as GrammarError[];
+
+    return errors.length > 0
+      ? [
+          {
+            ref: practice.id,
+            original: practice.transcribedText,
+            corrected: practice.correctedText,
+            categories: [...new Set(errors.map((error) => error.type))],
+            explanation: errors.map((error) => error.explanation).join(' '),
+          },
+        ]
+      : [];
+  });
+
+  const feedback = await generateSessionFeedback(
+    practices.map((practice) => ({
+      text: practice.transcribedText,
+      corrections: (practice.grammarErrors as unknown as GrammarError[]).map((error) => ({
+        original: error.original,
+        corrected: error.corrected,
+        category: error.type,
+      })),
+    })),
+    await resolveLevel(session.userId)
+  );
+
+  const content: ReportCardContent = {
+    scope: 'session',
+    turnCount: practices.length,
+    scores: averageScores(practices),
+    strongestTurn: strongest ? toScoredTurn(strongest, true) : null,
+    weakestTurn: weakest ? toScoredTurn(weakest, false) : null,
+    corrections,
+    vocabulary: feedback.vocabulary,
+    recurringErrors: findRecurringErrors(corrections),
+    goals: feedback.goals,
+  };
+
+  const report = await saveReportCard(
+    {
+      userId: session.userId,
+      sessionId: session.id,
+      content: content as unknown as Prisma.InputJsonObject,
+      model: feedback.model,
+      totalTokens: feedback.usage.totalTokens,
+    },
+    () => reportCardRepository.findBySessionId(session.id)
+  );
+
+  logger.info('Session report card created', {
+    sessionId: session.id,
+    practices: practices.length,
+    corrections: corrections.length,
+  });
+
+  return report;
+}
+
+/**
+ * Generates and stores the report card for an ended conversation
+ * Conversation turns are not scored, so the model assesses them
+ *
+ * @param conversation - The ended conversation with its messages
+ * @param topic - Topic text the conversation was generated with
+ * @returns The stored report card
+ * @throws {AppError} REPORT_NOT_AVAILABLE if the learner never replied
+ */
+export async function createConversationReport(
+  conversation: ConversationWithMessages,
+  topic: string
+): Promise<ReportCard> {
+  const learnerTurns = new Map(
+    conversation.messages
+      .filter((message) => message.role === MessageRole.USER)
+      .map((message) => [String(message.position), message.content])
+  );
+
+  if (learnerTurns.size === 0) {
+    throw new AppError(
+      ErrorCodes.REPORT_NOT_AVAILABLE,
+      'A report card needs at least one learner turn in the conversation',
+      HttpStatus.BAD_REQUEST
+    );
+  }
+
+  const feedback = await generateConversationFeedback(
+    topic,
+    conversation.messages.map((message) =>
+      message.role === MessageRole.USER
+        ? { ref: String(message.position), role: 'user' as const, text: message.content }
+        : { role: 'assistant' as const, text: message.content }
+    ),
+    await resolveLevel(conversation.userId)
+  );
+
+  const toTurn = (pick: { ref: string; reason: string }): ReportTurn => ({
+    ...pick,
+    text: learnerTurns.get(pick.ref) ?? '',
+  });
+
+  // The original text is taken from the stored turn rather than trusted from the model
+  const corrections: ReportCorrection[] = feedback.corrections
+    .map((correction) => ({
+      ...correction,
+      original: learnerTurns.get(correction.ref) ?? '',
+    }))
+    .filter((correction) => correction.corrected.trim() !== correction.original.trim());
+
+  const content: ReportCardContent = {
+    scope: 'conversation',
+    turnCount: learnerTurns.size,
+    scores: null,
+    strongestTurn: toTurn(feedback.strongestTurn),
+    weakestTurn:
+      feedback.weakestTurn.ref === feedback.strongestTurn.ref ? null : toTurn(feedback.weakestTurn),
+    corrections,
+    vocabulary: feedback.vocabulary,
+    recurringErrors: findRecurringErrors(corrections),
+    goals: feedback.goals,
+  };
+
+  const report = await saveReportCard(
+    {
+      userId: conversation.userId,
+      conversationId: conversation.id,
+      content: content as unknown as Prisma.InputJsonObject,
+      model: feedback.model,
+      totalTokens: feedback.usage.totalTokens,
+    },
+    () => reportCardRepository.findByConversationId(conversation.id)
+  );
+
+  logger.info('Conversation report card created', {
+    conversationId: conversation.id,
+    learnerTurns: learnerTurns.size,
+    corrections: corrections.length,
+  });
+
+  return report;
+}
+
+export default {
+  createSessionReport,
+  createConversationReport,
+};
@@ -0,0 +1,159 @@
+import { CefrLevel, Prisma, Scenario } from '@prisma/client';
+import { AppError, ConflictError } from '@shared/utils/errors';
+import { ErrorCodes } from '@shared/constants/errorCodes';
+import { HttpStatus } from '@shared/constants/enums';
+import { PaginationParams } from '@shared/types/api.types';
+import { logger } from '@shared/utils/logger';
+import { scenarioRepository } from '../repositories/scenario.repository';
+import { CreateScenarioBody } from '../validators/scenario.validator';
+
+/**
+ * Filters for listing the scenario catalog
+ */
+export interface ScenarioListFilters {
+  q?: string;
+  difficulty?: CefrLevel;
+  tag?: string;
+}
+
+const notFound = () =>
+  new AppError(ErrorCodes.SCENARIO_NOT_FOUND, 'Scenario not found', HttpStatus.NOT_FOUND);
+
+/**
+ * Maps unique-slug and missing-record failures to API errors
+ */
+function mapWriteError(error: unknown): unknown {
+  if (error instanceof Prisma.PrismaClientKnownRequestError) {
+    if (error.code === 'P2002') {
+      return new ConflictError('A scenario with this slug already exists');
+    }
+    if (error.code === 'P2025') {
+      return notFound();
+    }
+  }
+  return error;
+}
+
+/**
+ * Describes a scenario as the topic text given to the conversation and suggestion prompts
+ * The difficulty is context only; the learner's level guidance controls the language used
+ *
+ * @example
+ * ```typescript
+ * const scenario = await getScenario(scenarioId);
+ * const reply = await generateConversationReply(describeScenario(scenario), turns);
+ * ```
+ */
+export function describeScenario(scenario: Scenario): string {
+  const lines = [
+    `${scenario.title}. ${scenario.description}`,
+    `The AI plays: ${scenario.aiRole}. The learner plays: ${scenario.learnerRole}.`,
+    `The scenario is designed for CEFR ${scenario.difficulty} learners.`,
+  ];
+
+  if (scenario.objectives.length > 0) {
+    lines.push(`Help the learner practice: ${scenario.objectives.join('; ')}.`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Lists scenarios, most accessible first
+ * `q` matches the title or description case-insensitively, or a tag exactly
+ */
+export async function listScenarios(
+  pagination: Required<PaginationParams>,
+  filters: ScenarioListFilters
+): Promise<{ scenarios: Scenario[]; total: number }> {
+  const { q, difficulty, tag } = filters;
+
+  const where: Prisma.ScenarioWhereInput = {
+    difficulty,
+    tags: tag ? { has: tag } : undefined,
+    OR: q
+      ? [
+          { title: { contains: q, mode: 'insensitive' } },
+          { description: { contains: q, mode: 'insensitive' } },
+          { tags: { has: q.toLowerCase() } },
+        ]
+      : undefined,
+  };
+
+  const { items, total } = await scenarioRepository.findManyWithCount({
+    where,
+    orderBy: [{ difficulty: 'asc' }, { title: 'asc' }],
+    skip: (pagination.page - 1) * pagination.limit,
+    take: pagination.limit,
+  });
+
+  return { scenarios: items, total };
+}
+
+/**
+ * Gets a scenario by id
+ * @throws {AppError} SCENARIO_NOT_FOUND
+ */
+export async function getScenario(id: string): Promise<Scenario> {
+  const scenario = await scenarioRepository.findById(id);
+
+  if (!scenario) {
+    throw notFound();
+  }
+
+  return scenario;
+}
+
+/**
+ * Adds a scenario to the catalog
+ * @throws {ConflictError} If the slug is already taken
+ */
+export async function createScenario(data: CreateScenarioBody): Promise<Scenario> {
+  try {
+    const scenario = await scenarioRepository.create(data);
+    logger.info('Scenario created', { scenarioId: scenario.id, slug: scenario.slug });
+    return scenario;
+  } catch (error) {
+    throw mapWriteError(error);
+  }
+}
+
+/**
+ * Updates the given fields of a scenario
+ * @throws {AppError} SCENARIO_NOT_FOUND, or a conflict if the new slug is taken
+ */
+export async function updateScenario(
+  id: string,
+  data: Partial<CreateScenarioBody>
+): Promise<Scenario> {
+  try {
+    const scenario = await scenarioRepository.update(id, data);
+    logger.info('Scenario updated', { scenarioId: id, fields: Object.keys(data) });
+    return scenario;
+  } catch (error) {
+    throw mapWriteError(error);
+  }
+}
+
+/**
+ * Removes a scenario from the catalog
+ * @throws {AppError} SCENARIO_NOT_FOUND
+ */
+export async function deleteScenario(id: string): Promise<Scenario> {
+  try {
+    const scenario = await scenarioRepository.delete(id);
+    logger.info('Scenario deleted', { scenarioId: id, slug: scenario.slug });
+    return scenario;
+  } catch (error) {
+    throw mapWriteError(error);
+  }
+}
+
+export default {
+  describeScenario,
+  listScenarios,
+  getScenario,
+  createScenario,
+  updateScenario,
+  deleteScenario,
+};
@@ -0,0 +1,217 @@
+import { PracticeSession, ReportCard, SessionStatus } from '@prisma/client';
+import { env } from '@config/environment';
+import { AppError } from '@shared/utils/errors';
+import { ErrorCodes } from '@shared/constants/errorCodes';
+import { HttpStatus } from '@shared/constants/enums';
+import { logger } from '@shared/utils/logger';
+import { sessionRepository } from '../repositories/session.repository';
+import { practiceRepository } from '../repositories/practice.repository';
+import { reportCardRepository } from '../repositories/reportCard.repository';
+import { createSessionReport } from './report.service';
+
+/**
+ * Returns whether an ACTIVE session has been idle longer than the configured timeout
+ */
+function isIdle(session: PracticeSession, now: Date = new Date()): boolean {
+  return (
+    session.status === SessionStatus.ACTIVE &&
+    now.getTime() - session.updatedAt.getTime() > env.session.practiceIdleTimeout
+  );
+}
+
+/**
+ * Closes a session, computing its statistics from the linked practices
+ * @returns The closed session, or null if another request closed it first
+ */
+async function finalizeSession(
+  session: PracticeSession,
+  status: SessionStatus,
+  endTime: Date
+): Promise<PracticeSession | null> {
+  const stats = await practiceRepository.getSessionStats(session.id);
+
+  return sessionRepository.endIfActive(session.id, {
+    status,
+    endTime,
+    practiceCount: stats.count,
+    avgScore: stats.avgScore === null ? null : Math.round(stats.avgScore * 10) / 10,
+  });
+}
+
+/**
+ * Marks a session ABANDONED if it has been idle too long
+ * The session ends at its last recorded activity
+ */
+async function expireIfIdle(session: PracticeSession): Promise<PracticeSession> {
+  if (!isIdle(session)) {
+    return session;
+  }
+
+  logger.info('Abandoning idle practice session', { sessionId: session.id });
+  const abandoned = await finalizeSession(session, SessionStatus.ABANDONED, session.updatedAt);
+
+  // Another request may have ended or abandoned it in the meantime
+  return abandoned ?? (await sessionRepository.findById(session.id)) ?? session;
+}
+
+/**
+ * Loads a session owned by the user
+ * @throws {AppError} SESSION_NOT_FOUND if the session does not exist or belongs to another user
+ */
+async function findOwnedSession(userId: string, sessionId: string): Promise<PracticeSession> {
+  const session = await sessionRepository.findById(sessionId);
+
+  if (!session || session.userId !== userId) {
+    throw new AppError(
+      ErrorCodes.SESSION_NOT_FOUND,
+      'Practice session not found',
+      HttpStatus.NOT_FOUND
+    );
+  }
+
+  return expireIfIdle(session);
+}
+
+/**
+ * Loads a session owned by the user that is still ACTIVE
+ * @throws {AppError} SESSION_NOT_FOUND or SESSION_ALREADY_ENDED
+ */
+async function findActiveSession(userId: string, sessionId: string): Promise<PracticeSession> {
+  const session = await findOwnedSession(userId, sessionId);
+
+  if (session.status !== SessionStatus.ACTIVE) {
+    throw new AppError(
+      ErrorCodes.SESSION_ALREADY_ENDED,
+      `Practice session already ended with status ${session.status}`,
+      HttpStatus.CONFLICT
+    );
+  }
+
+  return session;
+}
+
+/**
+ * Starts a new practice session for the user
+ */
+export async function startSession(userId: string): Promise<PracticeSession> {
+  const session = await sessionRepository.create({
+    userId,
+    startTime: new Date(),
+  });
+
+  logger.info('Practice session started', { sessionId: session.id, userId });
+
+  return session;
+}
+
+/**
+ * Ends an active session, records its practice count and average score and
+ * generates its report card
+ * A failed report card does not fail the request; it is generated on first request instead
+ * @throws {AppError} SESSION_NOT_FOUND or SESSION_ALREADY_ENDED
+ */
+export async function endSession(userId: string, sessionId: string): Promise<PracticeSession> {
+  const session = await findActiveSession(userId, sessionId);
+  const ended = await finalizeSession(session, SessionStatus.COMPLETED, new Date());
+
+  if (!ended) {
+    throw new AppError(
+      ErrorCodes.SESSION_ALREADY_ENDED,
+      'Practice session was ended by another request',
+      HttpStatus.CONFLICT
+    );
+  }
+
+  logger.info('Practice session ended', {
+    sessionId: ended.id,
+    practiceCount: ended.practiceCount,
+    avgScore: ended.avgScore,
+  });
+
+  if (ended.practiceCount > 0) {
+    await createSessionReport(ended).catch((error: unknown) => {
+      logger.warn('Failed to create session report card', {
+        sessionId: ended.id,
+        error: error instanceof Error ? error.message : error,
+      });
+    });
+  }
+
+  return ended;
+}
+
+/**
+ * Gets a session owned by the user
+ * @throws {AppError} SESSION_NOT_FOUND
+ */
+export async function getSession(userId: string, sessionId: string): Promise<PracticeSession> {
+  return findOwnedSession(userId, sessionId);
+}
+
+/**
+ * Gets the report card of an ended session, generating it if it does not exist yet
+ * Abandoned sessions get theirs on first request
+ * @throws {AppError} SESSION_NOT_FOUND, or REPORT_NOT_AVAILABLE while the session is
+ *   active or when it has no practices
+ */
+export async function getSessionReport(userId: string, sessionId: string): Promise<ReportCard> {
+  const session = await findOwnedSession(userId, sessionId);
+
+  if (session.status === SessionStatus.ACTIVE) {
+    throw new AppError(
+      ErrorCodes.REPORT_NOT_AVAILABLE,
+      'The report card is available once the session has ended',
+      HttpStatus.CONFLICT
+    );
+  }
+
+  return (await reportCardRepository.findBySessionId(session.id)) ?? createSessionReport(session);
+}
+
+/**
+ * Ensures practices can still be added to the session
+ * @throws {AppError} SESSION_NOT_FOUND or SESSION_ALREADY_ENDED
+ */
+export async function assertSessionActive(userId: string, sessionId: string): Promise<void> {
+  await findActiveSession(userId, sessionId);
+}
+
+/**
+ * Records a new practice on the session, keeping it from going idle
+ */
+export async function recordSessionActivity(sessionId: string): Promise<void> {
+  await sessionRepository.incrementPracticeCount(sessionId);
+}
+
+/**
+ * Moves every session idle past the timeout to ABANDONED
+ * @returns Number of sessions abandoned
+ */
+export async function abandonIdleSessions(now: Date = new Date()): Promise<number> {
+  const cutoff = new Date(now.getTime() - env.session.practiceIdleTimeout);
+  const idleSessions = await sessionRepository.findIdleActive(cutoff);
+
+  let abandoned = 0;
+
+  for (const session of idleSessions) {
+    if (await finalizeSession(session, SessionStatus.ABANDONED, session.updatedAt)) {
+      abandoned++;
+    }
+  }
+
+  if (abandoned > 0) {
+    logger.info('Abandoned idle practice sessions', { count: abandoned });
+  }
+
+  return abandoned;
+}
+
+export default {
+  startSession,
+  endSession,
+  getSession,
+  getSessionReport,
+  assertSessionActive,
+  recordSessionActivity,
+  abandonIdleSessions,
+};
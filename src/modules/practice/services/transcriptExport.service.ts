@@ -0,0 +1,225 @@
+import { TranscriptionResponse } from '@services/openai';
+
+/**
+ * Formats a transcription can be exported to
+ */
+export const TRANSCRIPT_EXPORT_FORMATS = ['srt', 'vtt', 'txt', 'captions'] as const;
+
+export type TranscriptExportFormat = (typeof TRANSCRIPT_EXPORT_FORMATS)[number];
+
+/**
+ * Timing data needed to render captions
+ * A trimmed-down verbose transcription, small enough to store with each practice
+ */
+export interface CaptionSource {
+  text: string;
+  language?: string;
+  duration?: number;
+  words?: Array<{ word: string; start: number; end: number }>;
+  segments?: Array<{ start: number; end: number; text: string }>;
+}
+
+/**
+ * One timed caption with the words spoken during it
+ */
+export interface CaptionCue {
+  start: number;
+  end: number;
+  text: string;
+  words: Array<{ word: string; start: number; end: number }>;
+}
+
+/**
+ * A rendered export ready to be sent to the client
+ */
+export interface TranscriptExport {
+  content: string;
+  contentType: string;
+  extension: string;
+}
+
+/**
+ * Limits used to group words into cues when there are no segments
+ */
+const MAX_WORDS_PER_CUE = 8;
+const MAX_CUE_SECONDS = 4;
+
+const CONTENT_TYPES: Record<TranscriptExportFormat, { contentType: string; extension: string }> = {
+  srt: { contentType: 'application/x-subrip', extension: 'srt' },
+  vtt: { contentType: 'text/vtt', extension: 'vtt' },
+  txt: { contentType: 'text/plain', extension: 'txt' },
+  captions: { contentType: 'application/json', extension: 'json' },
+};
+
+/**
+ * Formats seconds as HH:MM:SS followed by the millisecond separator and milliseconds
+ */
+function formatTimestamp(seconds: number, separator: ',' | '.'): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3_600_000);
+  const minutes = Math.floor((totalMs % 3_600_000) / 60_000);
+  const secs = Math.floor((totalMs % 60_000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (value: number, length = 2) => value.toString().padStart(length, '0');
+
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+}
+
+/**
+ * Reduces a verbose transcription to the fields needed for caption export
+ */
+export function toCaptionSource(transcription: TranscriptionResponse): CaptionSource {
+  return {
+    text: transcription.text,
+    language: transcription.language,
+    duration: transcription.duration,
+    words: transcription.words?.map(({ word, start, end }) => ({ word, start, end })),
+    segments: transcription.segments?.map(({ start, end, text }) => ({ start, end, text })),
+  };
+}
+
+/**
+ * Splits a transcription into timed cues
+ * Segments become cues; without segments words are grouped, and without any
+ * timing the whole text becomes a single cue
+ */
+export function buildCaptionCues(source: CaptionSource): CaptionCue[] {
+  const words = source.words ?? [];
+  const segments = (source.segments ?? []).filter((segment) => segment.text.trim().length > 0);
+
+  if (segments.length > 0) {
+    return segments.map((segment, index) => {
+      // Words belong to the segment they start in; the last segment takes any stragglers
+      const nextStart = segments[index + 1]?.start ?? Infinity;
+      return {
+        start: segment.start,
+        end: segment.end,
+        text: segment.text.trim(),
+        words: words.filter((word) => word.start >= segment.start && word.start < nextStart),
+      };
+    });
+  }
+
+  if (words.length > 0) {
+    const cues: CaptionCue[] = [];
+    let current: CaptionCue['words'] = [];
+
+    const flush = () => {
+      const first = current[0];
+      const last = current[current.length - 1];
+      if (first && last) {
+        cues.push({
+          start: first.start,
+          end: last.end,
+          text: current.map((word) => word.word.trim()).join(' '),
+          words: current,
+        });
+      }
+      current = [];
+    };
+
+    for (const word of words) {
+      const first = current[0];
+      if (
+        first &&
+        (current.length >= MAX_WORDS_PER_CUE || word.end - first.start > MAX_CUE_SECONDS)
+      ) {
+        flush();
+      }
+      current.push(word);
+    }
+    flush();
+
+    return cues;
+  }
+
+  const text = source.text.trim();
+  return text ? [{ start: 0, end: source.duration ?? 0, text, words: [] }] : [];
+}
+
+function renderSrt(cues: CaptionCue[]): string {
+  return cues
+    .map(
+      (cue, index) =>
+        `${index + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${cue.text}\n`
+    )
+    .join('\n');
+}
+
+function renderVtt(cues: CaptionCue[]): string {
+  const body = cues
+    .map(
+      (cue) =>
+        // "-->" would end the cue timing line early, so it cannot appear in cue text
+        `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${cue.text.replace(/-->/g, '->')}\n`
+    )
+    .join('\n');
+
+  return `WEBVTT\n\n${body}`;
+}
+
+function renderText(cues: CaptionCue[]): string {
+  return cues
+    .map(
+      (cue) => `[${formatTimestamp(cue.start, '.')} - ${formatTimestamp(cue.end, '.')}] ${cue.text}`
+    )
+    .join('\n');
+}
+
+function renderCaptionsJson(source: CaptionSource, cues: CaptionCue[]): string {
+  return JSON.stringify(
+    {
+      language: source.language ?? null,
+      duration: source.duration ?? null,
+      cues,
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Renders a transcription as subtitles or a timestamped transcript
+ * Rendering is local, so one verbose_json transcription serves every format
+ *
+ * @param source - Verbose transcription, or the caption data stored with a practice
+ * @param format - srt, vtt, txt (timestamped plain text) or captions (word-level JSON)
+ * @returns The rendered document with its MIME type and file extension
+ *
+ * @example
+ * ```typescript
+ * const transcription = await transcribeAudioWithTimestamps(buffer);
+ * const { content, contentType } = renderTranscript(transcription, 'vtt');
+ * ```
+ */
+export function renderTranscript(
+  source: CaptionSource,
+  format: TranscriptExportFormat
+): TranscriptExport {
+  const cues = buildCaptionCues(source);
+
+  let content: string;
+
+  switch (format) {
+    case 'srt':
+      content = renderSrt(cues);
+      break;
+    case 'vtt':
+      content = renderVtt(cues);
+      break;
+    case 'txt':
+      content = renderText(cues);
+      break;
+    case 'captions':
+      content = renderCaptionsJson(source, cues);
+      break;
+  }
+
+  return { content, ...CONTENT_TYPES[format] };
+}
+
+export default {
+  renderTranscript,
+  buildCaptionCues,
+  toCaptionSource,
+};
@@ -0,0 +1,30 @@
+import { z } from 'zod';
+
+/**
+ * Body of POST /api/practice/conversations
+ */
+export const createConversationSchema = z
+  .object({
+    topic: z.string().trim().min(1).max(1000).optional(),
+    scenarioId: z.string().uuid('Scenario id must be a valid UUID').optional(),
+    initialMessage: z.string().trim().min(1).max(2000).optional(),
+  })
+  .refine((body) => (body.topic === undefined) !== (body.scenarioId === undefined), {
+    message: 'Provide either a topic or a scenarioId',
+    path: ['topic'],
+  });
+
+/**
+ * Body of POST /api/practice/conversations/:id/messages
+ */
+export const conversationMessageSchema = z.object({
+  text: z.string().trim().min(1, 'Message text is required').max(2000),
+  correct: z.boolean().optional(),
+});
+
+/**
+ * Route params for /api/practice/conversations/:id
+ */
+export const conversationParamsSchema = z.object({
+  id: z.string().uuid('Conversation id must be a valid UUID'),
+});
@@ -0,0 +1,16 @@
+import { z } from 'zod';
+import { translationLanguageSchema } from './language.validator';
+
+/**
+ * Body of POST /api/practice/lookup
+ */
+export const lookupSchema = z
+  .object({
+    term: z.string().trim().min(1, 'Term is required').max(100),
+    context: z.string().trim().min(1, 'Context is required').max(1000),
+    language: translationLanguageSchema.optional(),
+  })
+  .refine((body) => body.context.toLowerCase().includes(body.term.toLowerCase()), {
+    message: 'Term must appear in the context sentence',
+    path: ['term'],
+  });
@@ -0,0 +1,15 @@
+import { z } from 'zod';
+import { requestedLevelSchema } from './level.validator';
+
+/**
+ * Body of POST /api/practice/grammar/check
+ */
+export const grammarCheckSchema = z.object({
+  text: z.string().trim().min(1, 'Text is required').max(5000),
+  level: requestedLevelSchema,
+  options: z
+    .object({
+      store: z.boolean().optional(),
+    })
+    .optional(),
+});
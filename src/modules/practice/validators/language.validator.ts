@@ -0,0 +1,21 @@
+import { z } from 'zod';
+import { ENGLISH_LANGUAGE, SUPPORTED_LANGUAGES } from '@services/openai';
+import { normalizeLanguageTag } from '@services/language';
+
+/**
+ * A language tag to translate into besides English, normalized to its registry code
+ * e.g. pt-BR becomes pt and zh-Hant-HK becomes zh-TW
+ */
+export const translationLanguageSchema = z.string().transform((tag, ctx) => {
+  const code = normalizeLanguageTag(tag);
+
+  if (!code || code === ENGLISH_LANGUAGE) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `Unsupported language: ${tag}. Supported languages are: ${SUPPORTED_LANGUAGES.join(', ')}`,
+    });
+    return z.NEVER;
+  }
+
+  return code;
+});
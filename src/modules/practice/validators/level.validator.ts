@@ -0,0 +1,14 @@
+import { CefrLevel } from '@prisma/client';
+import { z } from 'zod';
+
+/**
+ * Optional level sent with generation and translation requests
+ */
+export const requestedLevelSchema = z.nativeEnum(CefrLevel).optional();
+
+/**
+ * Body of PUT /api/practice/level; null clears the override
+ */
+export const levelOverrideSchema = z.object({
+  level: z.nativeEnum(CefrLevel).nullable(),
+});
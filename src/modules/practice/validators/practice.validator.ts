@@ -0,0 +1,60 @@
+import { z } from 'zod';
+import { TRANSCRIPT_EXPORT_FORMATS } from '../services/transcriptExport.service';
+
+/**
+ * Multipart fields accompanying the audio upload on POST /api/practice/analyze
+ */
+export const analyzePracticeSchema = z.object({
+  originalText: z.string().trim().min(1).max(2000).optional(),
+  sessionId: z.string().uuid().optional(),
+  language: z.string().min(2).max(10).optional(),
+});
+
+export type AnalyzePracticeBody = z.infer<typeof analyzePracticeSchema>;
+
+/**
+ * Query parameters for GET /api/practice/history
+ * Dates are validated as ISO 8601 strings; the date range check happens in the service,
+ * which knows how a date-only endDate extends to the end of that day
+ */
+export const practiceHistoryQuerySchema = z
+  .object({
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+    sessionId: z.string().uuid().optional(),
+    startDate: z.string().datetime({ offset: true }).or(z.string().date()).optional(),
+    endDate: z.string().datetime({ offset: true }).or(z.string().date()).optional(),
+    minScore: z.coerce.number().min(0).max(100).optional(),
+    maxScore: z.coerce.number().min(0).max(100).optional(),
+    sortBy: z.enum(['date', 'score']).default('date'),
+    order: z.enum(['asc', 'desc']).default('desc'),
+  })
+  .refine(
+    ({ minScore, maxScore }) =>
+      minScore === undefined || maxScore === undefined || minScore <= maxScore,
+    { message: 'minScore must not be greater than maxScore', path: ['minScore'] }
+  );
+
+/**
+ * Multipart fields accompanying the audio upload on POST /api/practice/read-aloud
+ */
+export const readAloudSchema = z.object({
+  referenceText: z.string().trim().min(1, 'Reference text is required').max(5000),
+  sessionId: z.string().uuid().optional(),
+  language: z.string().min(2).max(10).optional(),
+});
+
+/**
+ * Route params for /api/practice/history/:id
+ */
+export const practiceParamsSchema = z.object({
+  id: z.string().uuid('Practice id must be a valid UUID'),
+});
+
+/**
+ * Query parameters selecting a transcript export format
+ * Without a format, detailed transcriptions are returned as JSON
+ */
+export const transcriptExportQuerySchema = z.object({
+  format: z.enum(TRANSCRIPT_EXPORT_FORMATS).optional(),
+});
@@ -0,0 +1,8 @@
+import { z } from 'zod';
+
+/**
+ * Route params for /api/practice/recordings/:id
+ */
+export const recordingParamsSchema = z.object({
+  id: z.string().uuid('Recording id must be a valid UUID'),
+});
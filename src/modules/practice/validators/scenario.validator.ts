@@ -0,0 +1,53 @@
+import { CefrLevel } from '@prisma/client';
+import { z } from 'zod';
+
+const listOf = (maxItems: number, maxLength: number) =>
+  z.array(z.string().trim().min(1).max(maxLength)).max(maxItems);
+
+/**
+ * Body of POST /api/practice/scenarios
+ */
+export const createScenarioSchema = z.object({
+  slug: z
+    .string()
+    .trim()
+    .max(100)
+    .regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, 'Slug must be lowercase words separated by hyphens'),
+  title: z.string().trim().min(1, 'Title is required').max(200),
+  description: z.string().trim().min(1, 'Description is required').max(2000),
+  aiRole: z.string().trim().min(1, 'AI role is required').max(200),
+  learnerRole: z.string().trim().min(1, 'Learner role is required').max(200),
+  difficulty: z.nativeEnum(CefrLevel),
+  tags: listOf(20, 50)
+    .transform((tags) => [...new Set(tags.map((tag) => tag.toLowerCase()))])
+    .default([]),
+  openingLine: z.string().trim().min(1, 'Opening line is required').max(1000),
+  objectives: listOf(10, 300).default([]),
+});
+
+export type CreateScenarioBody = z.infer<typeof createScenarioSchema>;
+
+/**
+ * Body of PATCH /api/practice/scenarios/:id
+ */
+export const updateScenarioSchema = createScenarioSchema
+  .partial()
+  .refine((body) => Object.keys(body).length > 0, 'At least one field must be provided');
+
+/**
+ * Query parameters for GET /api/practice/scenarios
+ */
+export const scenarioListQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  q: z.string().trim().min(1).max(100).optional(),
+  difficulty: z.nativeEnum(CefrLevel).optional(),
+  tag: z.string().trim().toLowerCase().min(1).max(50).optional(),
+});
+
+/**
+ * Route params for /api/practice/scenarios/:id
+ */
+export const scenarioParamsSchema = z.object({
+  id: z.string().uuid('Scenario id must be a valid UUID'),
+});
@@ -0,0 +1,8 @@
+import { z } from 'zod';
+
+/**
+ * Route params for /api/practice/session/:id
+ */
+export const sessionParamsSchema = z.object({
+  id: z.string().uuid('Session id must be a valid UUID'),
+});
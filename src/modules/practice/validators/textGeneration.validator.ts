@@ -0,0 +1,120 @@
+import { z } from 'zod';
+import { MAX_SUGGESTIONS, MIN_SUGGESTIONS } from '@services/openai';
+import { translationLanguageSchema } from './language.validator';
+import { requestedLevelSchema } from './level.validator';
+
+/**
+ * Maximum combined length of the turns sent for suggestions
+ */
+const MAX_CONVERSATION_HISTORY_LENGTH = 10000;
+
+/**
+ * Extra output the Responses API can be asked to include
+ */
+const responseIncludableSchema = z.enum([
+  'file_search_call.results',
+  'message.input_image.image_url',
+  'computer_call_output.output.image_url',
+  'reasoning.encrypted_content',
+]);
+
+/**
+ * Responses API settings a client may pass with a generation
+ */
+const generationOptionsSchema = z
+  .object({
+    store: z.boolean().optional(),
+    include: z.array(responseIncludableSchema).optional(),
+  })
+  .optional();
+
+/**
+ * Maximum length of a prompt sent to POST /api/practice/generate/text
+ */
+const MAX_PROMPT_LENGTH = 5000;
+
+/**
+ * Body of POST /api/practice/generate/text
+ */
+export const generateTextSchema = z.object({
+  prompt: z
+    .string({ required_error: 'Prompt is required' })
+    .min(1, 'Prompt is required')
+    .max(MAX_PROMPT_LENGTH, `Prompt is too long. Maximum ${MAX_PROMPT_LENGTH} characters allowed.`),
+  options: generationOptionsSchema,
+});
+
+/**
+ * Maximum lengths of the topic and opening message of a generated conversation
+ */
+const MAX_TOPIC_LENGTH = 1000;
+const MAX_INITIAL_MESSAGE_LENGTH = 2000;
+
+/**
+ * A free-form topic or a catalog scenario; exactly one is required, see hasOneTopic
+ */
+const topicFields = {
+  topic: z
+    .string()
+    .trim()
+    .min(1, 'Topic is required')
+    .max(MAX_TOPIC_LENGTH, `Topic is too long. Maximum ${MAX_TOPIC_LENGTH} characters allowed.`)
+    .optional(),
+  scenarioId: z.string().uuid('Scenario id must be a valid UUID').optional(),
+};
+
+const hasOneTopic = (body: { topic?: string; scenarioId?: string }): boolean =>
+  (body.topic === undefined) !== (body.scenarioId === undefined);
+
+const ONE_TOPIC_ISSUE = { message: 'Provide either a topic or a scenarioId', path: ['topic'] };
+
+/**
+ * Body of POST /api/practice/generate/talk-with-topic
+ * initial_message may be omitted for scenarios, which have an opening line
+ */
+export const talkWithTopicSchema = z
+  .object({
+    ...topicFields,
+    initial_message: z
+      .string()
+      .trim()
+      .min(1, 'Initial message is required')
+      .max(
+        MAX_INITIAL_MESSAGE_LENGTH,
+        `Initial message is too long. Maximum ${MAX_INITIAL_MESSAGE_LENGTH} characters allowed.`
+      )
+      .optional(),
+    level: requestedLevelSchema,
+    options: generationOptionsSchema,
+  })
+  .refine(hasOneTopic, ONE_TOPIC_ISSUE);
+
+/**
+ * One conversation turn as sent by the client
+ */
+export const conversationTurnSchema = z.object({
+  role: z.enum(['user', 'assistant']),
+  text: z.string().trim().min(1, 'Turn text is required').max(2000),
+});
+
+/**
+ * Body of POST /api/practice/generate/suggestions
+ */
+export const suggestionsSchema = z
+  .object({
+    ...topicFields,
+    conversationHistory: z
+      .array(conversationTurnSchema)
+      .min(1, 'Conversation history must contain at least one turn')
+      .max(50)
+      .refine(
+        (turns) =>
+          turns.reduce((sum, turn) => sum + turn.text.length, 0) <= MAX_CONVERSATION_HISTORY_LENGTH,
+        `Conversation history is too long. Maximum ${MAX_CONVERSATION_HISTORY_LENGTH} characters allowed.`
+      ),
+    count: z.number().int().min(MIN_SUGGESTIONS).max(MAX_SUGGESTIONS).optional(),
+    nativeLanguage: translationLanguageSchema.optional(),
+    level: requestedLevelSchema,
+    options: generationOptionsSchema,
+  })
+  .refine(hasOneTopic, ONE_TOPIC_ISSUE);
@@ -0,0 +1,48 @@
+import { z } from 'zod';
+import { MAX_BATCH_TRANSLATION_ITEMS } from '@services/openai';
+import { requestedLevelSchema } from './level.validator';
+
+/**
+ * Maximum length of a text sent to POST /api/practice/translate
+ */
+const MAX_TRANSLATION_TEXT_LENGTH = 5000;
+
+/**
+ * Body of POST /api/practice/translate
+ * Languages are any tags; the controller normalizes them to registry codes, English included
+ */
+export const translateSchema = z.object({
+  text: z
+    .string({ required_error: 'Text is required' })
+    .refine((text) => text.trim().length > 0, 'Text must be a non-empty string')
+    .refine(
+      (text) => text.length <= MAX_TRANSLATION_TEXT_LENGTH,
+      `Text is too long. Maximum ${MAX_TRANSLATION_TEXT_LENGTH} characters allowed.`
+    ),
+  sourceLanguage: z.string().optional(),
+  targetLanguage: z.string().optional(),
+  level: requestedLevelSchema,
+  alternatives: z.boolean().optional(),
+});
+
+/**
+ * Body of POST /api/practice/translate/batch
+ * Only the shape is checked here; text length and languages are checked per item, so one
+ * bad item does not fail the batch
+ */
+export const batchTranslationSchema = z.object({
+  items: z
+    .array(
+      z.object({
+        text: z.string(),
+        targetLanguage: z.string(),
+        sourceLanguage: z.string().optional(),
+      })
+    )
+    .min(1, 'At least one item is required')
+    .max(
+      MAX_BATCH_TRANSLATION_ITEMS,
+      `Too many items. Maximum ${MAX_BATCH_TRANSLATION_ITEMS} items allowed.`
+    ),
+  level: requestedLevelSchema,
+});
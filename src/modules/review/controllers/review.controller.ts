@@ -0,0 +1,24 @@
+import { Request, Response, NextFunction } from 'express';
+import { ResponseHandler } from '@shared/utils/response';
+import { SuccessMessages } from '@shared/constants/messages';
+import { getUserId } from '@shared/middleware/userContext';
+import { getTodayReview } from '../services/review.service';
+
+/**
+ * Controller for daily reviews
+ */
+export class ReviewController {
+  /**
+   * Get today's review, generating it on the first request of the day
+   * GET /api/review/today
+   */
+  public static async today(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const review = await getTodayReview(getUserId(req));
+
+      ResponseHandler.success(res, review, SuccessMessages.REVIEW_RETRIEVED);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,20 @@
+import { ErrorPattern } from '@prisma/client';
+import { prisma } from '@database/client';
+
+/**
+ * Data access for ErrorPattern records
+ */
+export const errorPatternRepository = {
+  /**
+   * The user's most frequent error patterns, most recent first among equals
+   */
+  findTopByUser(userId: string, take: number): Promise<ErrorPattern[]> {
+    return prisma.errorPattern.findMany({
+      where: { userId },
+      orderBy: [{ frequency: 'desc' }, { lastOccurred: 'desc' }],
+      take,
+    });
+  },
+};
+
+export default errorPatternRepository;
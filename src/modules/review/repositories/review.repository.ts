@@ -0,0 +1,17 @@
+import { Prisma, Review } from '@prisma/client';
+import { prisma } from '@database/client';
+
+/**
+ * Data access for Review records
+ */
+export const reviewRepository = {
+  create(data: Prisma.ReviewUncheckedCreateInput): Promise<Review> {
+    return prisma.review.create({ data });
+  },
+
+  findByUserAndDate(userId: string, date: Date): Promise<Review | null> {
+    return prisma.review.findUnique({ where: { userId_date: { userId, date } } });
+  },
+};
+
+export default reviewRepository;
@@ -0,0 +1,17 @@
+import { Router } from 'express';
+import { ReviewController } from './controllers/review.controller';
+import { requireUser } from '@shared/middleware/userContext';
+import { aiAnalysisRateLimiter } from '@shared/middleware/rateLimiter';
+
+const router = Router();
+
+// ============ Daily Review Routes ============
+
+/**
+ * @route   GET /api/review/today
+ * @desc    Get today's review: fill-in-the-blank, multiple choice, rewrite and speaking exercises aimed at the learner's most frequent mistakes, created on the first request of the day
+ * @access  Private (X-User-Id header)
+ */
+router.get('/today', aiAnalysisRateLimiter, requireUser, ReviewController.today);
+
+export default router;
@@ -0,0 +1,214 @@
+import { Prisma, Review, ReviewStatus } from '@prisma/client';
+import { generateReviewExercises, ReviewTarget } from '@services/openai';
+import { AppError } from '@shared/utils/errors';
+import { ErrorCodes } from '@shared/constants/errorCodes';
+import { HttpStatus } from '@shared/constants/enums';
+import { logger } from '@shared/utils/logger';
+import { GrammarError, ReviewExercise, ReviewExercisePrompt } from '@shared/types/domain.types';
+import { practiceRepository } from '@modules/practice/repositories/practice.repository';
+import { resolveLevel } from '@modules/practice/services/level.service';
+import { errorPatternRepository } from '../repositories/errorPattern.repository';
+import { reviewRepository } from '../repositories/review.repository';
+
+/**
+ * Error patterns and practice error categories a review targets
+ */
+const MAX_REVIEW_TARGETS = 5;
+
+/**
+ * Example utterances shown to the model per target
+ */
+const MAX_TARGET_EXAMPLES = 3;
+
+/**
+ * Recent practices whose grammar errors are considered, within RECENT_PRACTICE_DAYS
+ */
+const RECENT_PRACTICE_COUNT = 30;
+const RECENT_PRACTICE_DAYS = 7;
+
+/**
+ * Mistakes needed before a review is generated
+ */
+const MIN_REVIEW_MISTAKES = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A daily review as sent to the learner, without the answers
+ */
+export interface DailyReview {
+  reviewId: string;
+  date: string; // YYYY-MM-DD
+  status: ReviewStatus;
+  exercises: ReviewExercisePrompt[];
+  progress: {
+    total: number;
+    completed: number;
+    correct: number;
+  };
+}
+
+/**
+ * Today's date (UTC) as stored in Review.date
+ */
+function today(now: Date = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+function toDailyReview(review: Review): DailyReview {
+  const exercises = review.exercises as unknown as ReviewExercise[];
+
+  return {
+    reviewId: review.id,
+    date: review.date.toISOString().slice(0, 10),
+    status: review.status,
+    exercises: exercises.map(
+      ({
+        category: _category,
+        correctAnswer: _correctAnswer,
+        explanation: _explanation,
+        ...exercise
+      }) => exercise
+    ),
+    progress: {
+      total: review.totalExercises,
+      completed: review.completedCount,
+      correct: review.correctCount,
+    },
+  };
+}
+
+/**
+ * Collects the learner's most frequent mistakes from their error patterns and the grammar
+ * errors of their recent practices, most frequent first
+ */
+async function collectTargets(userId: string): Promise<ReviewTarget[]> {
+  const since = new Date(Date.now() - RECENT_PRACTICE_DAYS * DAY_MS);
+  const [patterns, practices] = await Promise.all([
+    errorPatternRepository.findTopByUser(userId, MAX_REVIEW_TARGETS),
+    practiceRepository.findRecentByUser(userId, RECENT_PRACTICE_COUNT),
+  ]);
+
+  const targets = new Map<string, ReviewTarget>();
+
+  for (const pattern of patterns) {
+    const target = targets.get(pattern.errorCategory);
+    if (target) {
+      target.frequency += pattern.frequency;
+      target.examples.push(pattern.example);
+    } else {
+      targets.set(pattern.errorCategory, {
+        category: pattern.errorCategory,
+        description: pattern.description,
+        frequency: pattern.frequency,
+        examples: [pattern.example],
+      });
+    }
+  }
+
+  const recent = new Map<string, ReviewTarget>();
+
+  for (const practice of practices.filter((item) => item.createdAt >= since)) {
+    for (const error of practice.grammarErrors as unknown as GrammarError[]) {
+      const target = recent.get(error.type) ?? {
+        category: error.type,
+        description: error.explanation,
+        frequency: 0,
+        examples: [],
+      };
+      target.frequency++;
+      target.examples.push(`"${error.original}" -> "${error.corrected}"`);
+      recent.set(error.type, target);
+    }
+  }
+
+  // Error patterns may already count the recent practices, so the larger count is kept
+  for (const [category, target] of recent) {
+    const pattern = targets.get(category);
+    if (pattern) {
+      pattern.frequency = Math.max(pattern.frequency, target.frequency);
+      pattern.examples.push(...target.examples);
+    } else {
+      targets.set(category, target);
+    }
+  }
+
+  return [...targets.values()]
+    .sort((a, b) => b.frequency - a.frequency)
+    .slice(0, MAX_REVIEW_TARGETS)
+    .map((target) => ({ ...target, examples: target.examples.slice(0, MAX_TARGET_EXAMPLES) }));
+}
+
+/**
+ * Stores a review, returning the existing one if another request stored it first
+ */
+async function saveReview(
+  data: Prisma.ReviewUncheckedCreateInput & { date: Date }
+): Promise<Review> {
+  try {
+    return await reviewRepository.create(data);
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      const existing = await reviewRepository.findByUserAndDate(data.userId, data.date);
+      if (existing) return existing;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Gets the learner's review for today, generating it on the first request of the day
+ * Exercises target the learner's most frequent mistakes; one review is stored per user and
+ * day, so repeated and concurrent requests return the same review
+ *
+ * @param userId - The learner
+ * @returns Today's review without the answers
+ * @throws {AppError} NO_REVIEW_AVAILABLE if the learner has not made enough mistakes yet
+ */
+export async function getTodayReview(userId: string): Promise<DailyReview> {
+  const date = today();
+  const existing = await reviewRepository.findByUserAndDate(userId, date);
+
+  if (existing) {
+    return toDailyReview(existing);
+  }
+
+  const targets = await collectTargets(userId);
+  const mistakes = targets.reduce((sum, target) => sum + target.frequency, 0);
+
+  if (mistakes < MIN_REVIEW_MISTAKES) {
+    throw new AppError(
+      ErrorCodes.NO_REVIEW_AVAILABLE,
+      'No review available for today. Complete more practices first.',
+      HttpStatus.NOT_FOUND
+    );
+  }
+
+  const generated = await generateReviewExercises(targets, await resolveLevel(userId));
+  const exercises: ReviewExercise[] = generated.exercises.map((exercise, index) => ({
+    id: `ex-${index + 1}`,
+    ...exercise,
+  }));
+
+  const review = await saveReview({
+    userId,
+    date,
+    exercises: exercises as unknown as Prisma.InputJsonArray,
+    totalExercises: exercises.length,
+  });
+
+  logger.info('Daily review created', {
+    userId,
+    reviewId: review.id,
+    targets: targets.map((target) => target.category),
+    exercises: exercises.length,
+    model: generated.model,
+    totalTokens: generated.usage.totalTokens,
+  });
+
+  return toDailyReview(review);
+}
+
+export default {
+  getTodayReview,
+};
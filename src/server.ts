@@ -3,6 +3,7 @@ import { env } from '@config/environment';
 import { logger } from '@shared/utils/logger';
 import { prisma } from '@database/client';
 import { createRedisClient, closeRedisClient } from '@config/redis';
+import { startScheduler, stopScheduler } from './jobs/scheduler';
 
 const app = createApp();
 
@@ -32,6 +33,9 @@ const gracefulShutdown = async (signal: string): Promise<void> => {
   logger.info(`${signal} received, starting graceful shutdown...`);
 
   try {
+    // Stop background jobs
+    stopScheduler();
+
     // Close database connection
     await prisma.$disconnect();
     logger.info('Database disconnected');
@@ -53,6 +57,9 @@ const startServer = async (): Promise<void> => {
     // Connect to services
     await connectServices();
 
+    // Start background jobs
+    startScheduler();
+
     // Start listening
     const server = app.listen(env.port, () => {
       logger.info(`
@@ -0,0 +1,2 @@
+export * from './responseCache';
+export { default as responseCache } from './responseCache';
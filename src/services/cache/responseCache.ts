@@ -0,0 +1,273 @@
+import { createHash } from 'crypto';
+import { getRedisClient, redisConfig } from '../../config/redis';
+import { openaiConfig } from '../../config/openai';
+import { logger } from '../../shared/utils/logger';
+import { getPromptVersion, PromptName } from '../openai/promptRegistry';
+
+export type CacheOperation = keyof typeof redisConfig.responseCache.operations;
+
+/**
+ * How a response was served
+ * - hit: from the cache
+ * - miss: generated, then cached
+ * - bypass: generated on request despite the cache, then cached
+ * - unavailable: generated without caching because Redis is down
+ */
+export type CacheStatus = 'hit' | 'miss' | 'bypass' | 'unavailable';
+
+/**
+ * Cache metadata returned with a response
+ */
+export interface CacheMetadata {
+  status: CacheStatus;
+  cachedAt?: string; // ISO time the cached response was generated, for hits
+}
+
+/**
+ * What a cached response depends on
+ */
+export interface CacheKeyParts {
+  operation: CacheOperation;
+  /** Templates used to generate the response; their active versions become part of the key */
+  prompts: readonly PromptName[];
+  /** Request values that affect the response */
+  input: Record<string, unknown>;
+  /** Defaults to the configured GPT model */
+  model?: string;
+}
+
+export interface CachedResponse<T> {
+  value: T;
+  cache: CacheMetadata;
+}
+
+interface CacheEntry<T> {
+  value: T;
+  cachedAt: string;
+}
+
+/**
+ * Normalizes input so equivalent requests share a key: object keys are sorted, undefined
+ * values dropped, and strings trimmed with runs of spaces and tabs collapsed
+ */
+function normalize(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return value
+      .normalize('NFC')
+      .trim()
+      .replace(/[ \t]+/g, ' ');
+  }
+  if (Array.isArray(value)) {
+    return value.map(normalize);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, entry]) => entry !== undefined)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([key, entry]) => [key, normalize(entry)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Builds the cache key: a hash of the operation, model, template versions and normalized input
+ */
+export function buildCacheKey(parts: CacheKeyParts): string {
+  const digest = createHash('sha256')
+    .update(
+      JSON.stringify({
+        operation: parts.operation,
+        model: parts.model ?? openaiConfig.gpt.model,
+        prompts: parts.prompts.map((name) => [name, getPromptVersion(name)]),
+        input: normalize(parts.input),
+      })
+    )
+    .digest('hex');
+
+  return `${redisConfig.responseCache.keyPrefix}${parts.operation}:${digest}`;
+}
+
+/**
+ * Seconds a response of the operation is kept, from its tier in redisConfig.ttl
+ */
+const ttlOf = (operation: CacheOperation): number =>
+  redisConfig.ttl[redisConfig.responseCache.operations[operation]];
+
+/**
+ * Rejects if a Redis call takes longer than the configured timeout
+ */
+function withTimeout<T>(promise: Promise<T>): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+
+  return Promise.race([
+    promise,
+    new Promise<never>((_resolve, reject) => {
+      timer = setTimeout(
+        () => reject(new Error('Redis call timed out')),
+        redisConfig.responseCache.timeout
+      );
+    }),
+  ]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Serves a response from the cache, or generates and caches it
+ *
+ * Failed generations are not cached. Redis errors and timeouts never fail the request: the
+ * response is generated as if there were no cache, with status 'unavailable'.
+ *
+ * @param parts - What the response depends on, see buildCacheKey
+ * @param generate - Produces the response on a miss
+ * @param options - bypass skips the lookup; the fresh response still replaces the cached one
+ * @returns The response with its cache metadata
+ *
+ * @example
+ * ```typescript
+ * const { value, cache } = await withResponseCache(
+ *   { operation: 'translation', prompts: TRANSLATION_PROMPTS, input: { text, targetLanguage } },
+ *   () => translateText(text, targetLanguage)
+ * );
+ * ```
+ */
+export async function withResponseCache<T>(
+  parts: CacheKeyParts,
+  generate: () => Promise<T>,
+  options: { bypass?: boolean } = {}
+): Promise<CachedResponse<T>> {
+  const redis = getRedisClient();
+
+  if (!redis || redis.status !== 'ready') {
+    return { value: await generate(), cache: { status: 'unavailable' } };
+  }
+
+  const key = buildCacheKey(parts);
+  let available = true;
+
+  if (!options.bypass) {
+    try {
+      const cached = await withTimeout(redis.get(key));
+
+      if (cached) {
+        const entry = JSON.parse(cached) as CacheEntry<T>;
+        logger.debug('Response cache hit', { operation: parts.operation, key });
+        return { value: entry.value, cache: { status: 'hit', cachedAt: entry.cachedAt } };
+      }
+    } catch (error) {
+      available = false;
+      logger.warn('Response cache lookup failed', {
+        operation: parts.operation,
+        error: error instanceof Error ? error.message : error,
+      });
+    }
+  }
+
+  const value = await generate();
+
+  if (available) {
+    try {
+      const entry: CacheEntry<T> = { value, cachedAt: new Date().toISOString() };
+      await withTimeout(redis.set(key, JSON.stringify(entry), 'EX', ttlOf(parts.operation)));
+    } catch (error) {
+      available = false;
+      logger.warn('Response cache write failed', {
+        operation: parts.operation,
+        error: error instanceof Error ? error.message : error,
+      });
+    }
+  }
+
+  return {
+    value,
+    cache: { status: !available ? 'unavailable' : options.bypass ? 'bypass' : 'miss' },
+  };
+}
+
+/**
+ * Looks up several responses in one Redis call, for callers that generate their misses together
+ * Redis errors and timeouts are logged and reported as an unavailable cache.
+ *
+ * @param partsList - What each response depends on, see buildCacheKey
+ * @returns The cached responses in order with null for misses, or null if Redis is unavailable
+ */
+export async function getCachedResponses<T>(
+  partsList: CacheKeyParts[]
+): Promise<Array<CachedResponse<T> | null> | null> {
+  const redis = getRedisClient();
+
+  if (!redis || redis.status !== 'ready') {
+    return null;
+  }
+  if (partsList.length === 0) {
+    return [];
+  }
+
+  try {
+    const cached = await withTimeout(redis.mget(partsList.map(buildCacheKey)));
+
+    return cached.map((entry) => {
+      if (!entry) {
+        return null;
+      }
+      const { value, cachedAt } = JSON.parse(entry) as CacheEntry<T>;
+      return { value, cache: { status: 'hit', cachedAt } };
+    });
+  } catch (error) {
+    logger.warn('Response cache lookup failed', {
+      operation: partsList[0]?.operation,
+      error: error instanceof Error ? error.message : error,
+    });
+    return null;
+  }
+}
+
+/**
+ * Caches several generated responses in one Redis call
+ * Redis errors and timeouts are logged, never thrown.
+ *
+ * @param entries - Each response with what it depends on, see buildCacheKey
+ * @returns Whether the responses were cached
+ */
+export async function setCachedResponses<T>(
+  entries: Array<{ parts: CacheKeyParts; value: T }>
+): Promise<boolean> {
+  const redis = getRedisClient();
+
+  if (!redis || redis.status !== 'ready') {
+    return false;
+  }
+  if (entries.length === 0) {
+    return true;
+  }
+
+  const cachedAt = new Date().toISOString();
+  const pipeline = redis.pipeline();
+
+  for (const { parts, value } of entries) {
+    const entry: CacheEntry<T> = { value, cachedAt };
+    pipeline.set(buildCacheKey(parts), JSON.stringify(entry), 'EX', ttlOf(parts.operation));
+  }
+
+  try {
+    const results = await withTimeout(pipeline.exec());
+    const failed = results?.find(([error]) => error)?.[0];
+    if (failed) {
+      throw failed;
+    }
+    return true;
+  } catch (error) {
+    logger.warn('Response cache write failed', {
+      operation: entries[0]?.parts.operation,
+      error: error instanceof Error ? error.message : error,
+    });
+    return false;
+  }
+}
+
+export default {
+  buildCacheKey,
+  withResponseCache,
+  getCachedResponses,
+  setCachedResponses,
+};
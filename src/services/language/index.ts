@@ -0,0 +1,2 @@
+export * from './languageRegistry';
+export { default as languageRegistry } from './languageRegistry';
@@ -0,0 +1,117 @@
+import { languageConfig, LanguageDefinition } from '../../config/languages';
+import { logger } from '../../shared/utils/logger';
+
+/**
+ * An enabled language as returned to clients
+ */
+export type Language = Omit<LanguageDefinition, 'enabled'>;
+
+interface RegistryEntry {
+  language: Language;
+  subtags: { language: string; script: string; region?: string };
+}
+
+/**
+ * Expands a tag to its likely language, script and region, e.g. zh-HK to zh-Hant-HK
+ * @returns The subtags, or undefined if the tag is not well-formed BCP-47
+ */
+function expandTag(tag: string): RegistryEntry['subtags'] | undefined {
+  try {
+    const locale = new Intl.Locale(tag).maximize();
+    return { language: locale.language, script: locale.script ?? '', region: locale.region };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Builds the registry from config, failing at startup when it could not serve requests
+ */
+function loadRegistry(): RegistryEntry[] {
+  const entries = languageConfig.languages
+    .filter((definition) => definition.enabled)
+    .map(({ enabled: _enabled, ...language }) => {
+      const subtags = expandTag(language.code);
+      if (!subtags) {
+        throw new Error(`Invalid language code in the language registry: ${language.code}`);
+      }
+      return { language, subtags: { ...subtags, script: language.script } };
+    });
+
+  for (const code of [languageConfig.english, languageConfig.defaultTargetLanguage]) {
+    if (!entries.some((entry) => entry.language.code === code)) {
+      throw new Error(`Language ${code} must be enabled in the language registry`);
+    }
+  }
+
+  logger.info('Language registry loaded', {
+    languages: entries.map((entry) => entry.language.code),
+  });
+
+  return entries;
+}
+
+const registry = loadRegistry();
+
+/**
+ * Lists the enabled languages, English first, in the configured order
+ */
+export function listLanguages(): Language[] {
+  return registry.map((entry) => entry.language);
+}
+
+/**
+ * Finds the enabled language a BCP-47 tag refers to
+ *
+ * Tags are matched case-insensitively against the registry codes. Otherwise the tag is
+ * expanded to its likely script and region, and matched to a language with the same
+ * language and script, preferring the same region: zh-Hant-HK and zh-HK resolve to zh-TW,
+ * zh-SG to zh-CN, pt-BR to pt and en-GB to en.
+ *
+ * @param tag - A BCP-47 language tag
+ * @returns The language, or undefined for malformed tags and unsupported or disabled languages
+ */
+export function findLanguage(tag: string): Language | undefined {
+  const exact = registry.find(
+    (entry) => entry.language.code.toLowerCase() === tag.trim().toLowerCase()
+  );
+  if (exact) {
+    return exact.language;
+  }
+
+  const subtags = expandTag(tag.trim());
+  if (!subtags) {
+    return undefined;
+  }
+
+  const candidates = registry.filter(
+    (entry) =>
+      entry.subtags.language === subtags.language && entry.subtags.script === subtags.script
+  );
+
+  return (candidates.find((entry) => entry.subtags.region === subtags.region) ?? candidates[0])
+    ?.language;
+}
+
+/**
+ * Normalizes a BCP-47 tag to the code of the enabled language it refers to, see findLanguage
+ * @returns The registry code, or undefined if no enabled language matches
+ */
+export function normalizeLanguageTag(tag: string): string | undefined {
+  return findLanguage(tag)?.code;
+}
+
+/**
+ * Returns the English name of the language a tag refers to, e.g. for prompts
+ * @returns The name, or undefined if no enabled language matches
+ */
+export function getLanguageName(tag: string): string | undefined {
+  return findLanguage(tag)?.name;
+}
+
+export default {
+  listLanguages,
+  findLanguage,
+  normalizeLanguageTag,
+  getLanguageName,
+};
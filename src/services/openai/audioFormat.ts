@@ -0,0 +1,150 @@
+/**
+ * Audio containers recognized from their leading bytes
+ */
+export type AudioContainer = 'wav' | 'mp3' | 'm4a' | 'mp4' | 'webm' | 'ogg' | 'flac';
+
+/**
+ * Detected audio format, used to label uploads for the transcription API
+ */
+export interface AudioFormat {
+  container: AudioContainer;
+  extension: string;
+  mimeType: string;
+}
+
+const FORMATS: Record<AudioContainer, AudioFormat> = {
+  wav: { container: 'wav', extension: 'wav', mimeType: 'audio/wav' },
+  mp3: { container: 'mp3', extension: 'mp3', mimeType: 'audio/mpeg' },
+  m4a: { container: 'm4a', extension: 'm4a', mimeType: 'audio/mp4' },
+  mp4: { container: 'mp4', extension: 'mp4', mimeType: 'audio/mp4' },
+  webm: { container: 'webm', extension: 'webm', mimeType: 'audio/webm' },
+  ogg: { container: 'ogg', extension: 'ogg', mimeType: 'audio/ogg' },
+  flac: { container: 'flac', extension: 'flac', mimeType: 'audio/flac' },
+};
+
+/**
+ * Containers accepted for transcription, in the order they are reported to clients
+ */
+export const SUPPORTED_AUDIO_FORMATS = Object.keys(FORMATS) as AudioContainer[];
+
+/**
+ * MP4 brands used by audio-only files
+ */
+const M4A_BRANDS = new Set(['M4A ', 'M4B ', 'M4P ', 'F4A ']);
+
+/**
+ * Generic ISO/MP4 brands, used by browser and mobile recorders for audio-only files
+ * Other brands (QuickTime, 3GP, HEIC, AVIF, ...) are images or video and are rejected
+ */
+const MP4_BRANDS = new Set(['isom', 'iso2', 'iso5', 'iso6', 'mp41', 'mp42', 'dash']);
+
+const ascii = (data: Buffer, start: number, end: number): string =>
+  data.subarray(start, end).toString('latin1');
+
+/**
+ * Returns the size of a leading ID3v2 tag including its header, or 0 if there is none
+ */
+function id3TagLength(data: Buffer): number {
+  if (data.length < 10 || ascii(data, 0, 3) !== 'ID3') {
+    return 0;
+  }
+
+  // The tag size is a 28-bit "syncsafe" integer (7 bits per byte)
+  const size =
+    ((data[6] ?? 0) << 21) | ((data[7] ?? 0) << 14) | ((data[8] ?? 0) << 7) | (data[9] ?? 0);
+  const hasFooter = ((data[5] ?? 0) & 0x10) !== 0;
+
+  return 10 + size + (hasFooter ? 10 : 0);
+}
+
+/**
+ * Checks for an MPEG audio frame header (layer I-III)
+ * ADTS (raw AAC) shares the sync word but uses layer 0, so it is not matched
+ */
+function isMpegFrameHeader(data: Buffer, offset: number): boolean {
+  const b1 = data[offset + 1];
+  const b2 = data[offset + 2];
+
+  if (data[offset] !== 0xff || b1 === undefined || b2 === undefined) {
+    return false;
+  }
+
+  const hasSync = (b1 & 0xe0) === 0xe0;
+  const version = (b1 >> 3) & 0x03;
+  const layer = (b1 >> 1) & 0x03;
+  const bitrateIndex = (b2 >> 4) & 0x0f;
+  const sampleRateIndex = (b2 >> 2) & 0x03;
+
+  return hasSync && version !== 1 && layer !== 0 && bitrateIndex !== 0x0f && sampleRateIndex !== 3;
+}
+
+/**
+ * Reads the EBML DocType ("webm" or "matroska") from a Matroska header
+ */
+function isEbmlDocument(data: Buffer): boolean {
+  if (data.length < 4 || data.readUInt32BE(0) !== 0x1a45dfa3) {
+    return false;
+  }
+
+  // The DocType element (ID 0x4282) sits inside the first few dozen bytes of the header
+  const header = ascii(data, 0, Math.min(data.length, 64));
+  return header.includes('webm') || header.includes('matroska');
+}
+
+/**
+ * Detects the audio container from the file's magic bytes
+ *
+ * Detection never trusts the filename or the client-supplied MIME type, which
+ * mobile clients often send as application/octet-stream or get wrong for m4a.
+ *
+ * @param data - The uploaded file contents
+ * @returns The detected format, or null if the bytes match no supported container
+ *
+ * @example
+ * ```typescript
+ * const format = detectAudioFormat(req.file.buffer);
+ * const file = await toFile(buffer, `audio.${format.extension}`, { type: format.mimeType });
+ * ```
+ */
+export function detectAudioFormat(data: Buffer): AudioFormat | null {
+  if (data.length < 12) {
+    return null;
+  }
+
+  if (ascii(data, 0, 4) === 'RIFF' && ascii(data, 8, 12) === 'WAVE') {
+    return FORMATS.wav;
+  }
+
+  if (ascii(data, 4, 8) === 'ftyp') {
+    const brand = ascii(data, 8, 12);
+    if (M4A_BRANDS.has(brand)) {
+      return FORMATS.m4a;
+    }
+    return MP4_BRANDS.has(brand) ? FORMATS.mp4 : null;
+  }
+
+  // Matroska is sent as WebM, the Matroska subset the transcription API accepts
+  if (isEbmlDocument(data)) {
+    return FORMATS.webm;
+  }
+
+  if (ascii(data, 0, 4) === 'OggS') {
+    return FORMATS.ogg;
+  }
+
+  if (ascii(data, 0, 4) === 'fLaC') {
+    return FORMATS.flac;
+  }
+
+  // ID3 tags usually precede MP3 frames but are occasionally prepended to FLAC
+  const tagLength = id3TagLength(data);
+  if (tagLength > 0) {
+    return ascii(data, tagLength, tagLength + 4) === 'fLaC' ? FORMATS.flac : FORMATS.mp3;
+  }
+
+  if (isMpegFrameHeader(data, 0)) {
+    return FORMATS.mp3;
+  }
+
+  return null;
+}
@@ -0,0 +1,493 @@
+import type { CefrLevel } from '@prisma/client';
+import { z } from 'zod';
+import { openaiConfig } from '../../config/openai';
+import { logger } from '../../shared/utils/logger';
+import { AppError, ValidationError } from '../../shared/utils/errors';
+import { ErrorCodes } from '../../shared/constants/errorCodes';
+import { renderPrompt } from './promptRegistry';
+import { generateStructured } from './structuredOutput.service';
+import {
+  buildTranslationCacheKey,
+  ENGLISH_LANGUAGE,
+  impliedSourceLanguage,
+  renderTranslationLevelGuidance,
+  translateText,
+  TranslationResponse,
+} from './translation.service';
+import { getLanguageName, listLanguages, normalizeLanguageTag } from '../language';
+import { CacheKeyParts, getCachedResponses, setCachedResponses } from '../cache/responseCache';
+
+/**
+ * Items accepted per batch
+ */
+export const MAX_BATCH_TRANSLATION_ITEMS = 50;
+
+/**
+ * Maximum length of one text in a batch, as for single translations
+ */
+export const MAX_BATCH_TEXT_LENGTH = 5000;
+
+/**
+ * Items packed into one upstream call
+ */
+const MAX_ITEMS_PER_CALL = 20;
+
+/**
+ * Characters of text packed into one upstream call, so the output stays well within limits
+ */
+const MAX_CHARACTERS_PER_CALL = 4000;
+
+/**
+ * Upstream calls a batch runs at once, for packed calls and individual retries alike
+ */
+const MAX_CONCURRENT_CALLS = 4;
+
+/**
+ * One text of a batch with its own languages
+ */
+export interface BatchTranslationItem {
+  text: string;
+  targetLanguage: string;
+  /** Language of the text; when omitted, English unless the target is English, see translateText */
+  sourceLanguage?: string;
+}
+
+/**
+ * A translated batch item
+ */
+export interface BatchTranslationSuccess {
+  index: number;
+  translatedText: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+}
+
+/**
+ * A batch item that could not be translated
+ */
+export interface BatchTranslationFailure {
+  index: number;
+  error: { code: string; message: string };
+}
+
+export type BatchTranslationResult = BatchTranslationSuccess | BatchTranslationFailure;
+
+/**
+ * Batch translation result
+ * Results are in the order of the items; usage covers every upstream call
+ */
+export interface BatchTranslationResponse {
+  results: BatchTranslationResult[];
+  succeeded: number;
+  failed: number;
+  cached: number; // Items served from the response cache
+  model: string;
+  usage: TranslationResponse['usage'];
+}
+
+/**
+ * Batch translation options
+ */
+export interface BatchTranslationOptions {
+  /** Learner's CEFR level; lower levels get translations closer to the English wording */
+  level?: CefrLevel;
+  /** Translate every item instead of serving cached translations */
+  bypassCache?: boolean;
+}
+
+/**
+ * Output of one packed call; items are checked one by one, so a bad entry only
+ * affects its own item
+ */
+const batchOutputSchema = z.object({
+  translations: z.array(
+    z.object({
+      index: z.number().int(),
+      sourceLanguage: z.string(),
+      translatedText: z.string(),
+    })
+  ),
+});
+
+interface PendingItem extends BatchTranslationItem {
+  index: number;
+}
+
+const success = (
+  index: number,
+  translation: Pick<TranslationResponse, 'translatedText' | 'sourceLanguage' | 'targetLanguage'>
+): BatchTranslationSuccess => ({
+  index,
+  translatedText: translation.translatedText,
+  sourceLanguage: translation.sourceLanguage,
+  targetLanguage: translation.targetLanguage,
+});
+
+const failure = (index: number, error: unknown): BatchTranslationFailure => ({
+  index,
+  error: {
+    code: error instanceof AppError ? error.code : ErrorCodes.INTERNAL_SERVER_ERROR,
+    message: error instanceof Error ? error.message : 'Failed to translate text',
+  },
+});
+
+/**
+ * Checks an item before it is sent upstream, normalizing its language tags to registry codes
+ * @returns The normalized item, or why it cannot be translated
+ */
+function prepareItem(item: BatchTranslationItem): BatchTranslationItem | string {
+  if (item.text.trim().length === 0) {
+    return 'Text must be a non-empty string';
+  }
+  if (item.text.length > MAX_BATCH_TEXT_LENGTH) {
+    return `Text is too long. Maximum ${MAX_BATCH_TEXT_LENGTH} characters allowed.`;
+  }
+
+  const targetLanguage = normalizeLanguageTag(item.targetLanguage);
+  const givenSource =
+    item.sourceLanguage === undefined ? undefined : normalizeLanguageTag(item.sourceLanguage);
+
+  if (!targetLanguage) {
+    return `Unsupported target language: ${item.targetLanguage}`;
+  }
+  if (item.sourceLanguage !== undefined && !givenSource) {
+    return `Unsupported source language: ${item.sourceLanguage}`;
+  }
+
+  // Resolved as for single translations, so only texts into English are detected
+  const sourceLanguage = impliedSourceLanguage(givenSource, targetLanguage);
+  return (
+    checkDirection(sourceLanguage, targetLanguage) ?? {
+      text: item.text,
+      targetLanguage,
+      sourceLanguage,
+    }
+  );
+}
+
+/**
+ * Every translation goes from or into English, as for single translations
+ * @returns Why the direction is not supported, or undefined if it is
+ */
+function checkDirection(source: string | undefined, target: string): string | undefined {
+  if (source === undefined || (source === ENGLISH_LANGUAGE) !== (target === ENGLISH_LANGUAGE)) {
+    return undefined;
+  }
+  return source === target
+    ? `Text is already in ${getLanguageName(target)}`
+    : 'Translations go from or into English';
+}
+
+/**
+ * Runs a task for every value with at most `limit` tasks running at once
+ */
+async function runWithConcurrency<T>(
+  values: T[],
+  limit: number,
+  task: (value: T) => Promise<void>
+): Promise<void> {
+  // Workers share one iterator, so each value is taken exactly once
+  const iterator = values.values();
+  const worker = async (): Promise<void> => {
+    for (const value of iterator) {
+      await task(value);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, values.length) }, worker));
+}
+
+/**
+ * Splits items into as few calls as possible within the per-call limits, keeping their order
+ */
+function packItems(items: PendingItem[]): PendingItem[][] {
+  const chunks: PendingItem[][] = [];
+  let current: PendingItem[] = [];
+  let characters = 0;
+
+  for (const item of items) {
+    if (
+      current.length > 0 &&
+      (current.length >= MAX_ITEMS_PER_CALL ||
+        characters + item.text.length > MAX_CHARACTERS_PER_CALL)
+    ) {
+      chunks.push(current);
+      current = [];
+      characters = 0;
+    }
+
+    current.push(item);
+    characters += item.text.length;
+  }
+
+  if (current.length > 0) {
+    chunks.push(current);
+  }
+
+  return chunks;
+}
+
+/**
+ * Cache key of an item, shared with single translations of the same text
+ */
+const itemCacheKey = (item: PendingItem, level: CefrLevel | undefined): CacheKeyParts =>
+  buildTranslationCacheKey(item.text, item.targetLanguage, {
+    sourceLanguage: item.sourceLanguage,
+    level,
+  });
+
+/**
+ * Splits the usage of a packed call evenly across its items, for their cached translations
+ */
+const shareUsage = (
+  usage: TranslationResponse['usage'],
+  items: number
+): TranslationResponse['usage'] => ({
+  promptTokens: Math.round(usage.promptTokens / items),
+  completionTokens: Math.round(usage.completionTokens / items),
+  totalTokens: Math.round(usage.totalTokens / items),
+});
+
+/**
+ * Translates one packed chunk in a single call
+ * @returns Results for the items the model translated correctly, keyed by index
+ */
+async function translateChunk(
+  chunk: PendingItem[],
+  level: CefrLevel | undefined
+): Promise<{
+  results: Map<number, BatchTranslationResult>;
+  model: string;
+  usage: TranslationResponse['usage'];
+}> {
+  const items = chunk.map((item) => ({
+    index: item.index,
+    sourceLanguage: item.sourceLanguage ?? 'detect',
+    targetLanguage: item.targetLanguage,
+    text: item.text,
+  }));
+  const languages = listLanguages()
+    .map((language) => `${language.code} (${language.name})`)
+    .join(', ');
+  // Chunks are packed by direction when a level is given, see translateBatch
+  const targetLanguage = chunk[0]?.targetLanguage;
+
+  const { data, model, usage } = await generateStructured({
+    schema: batchOutputSchema,
+    schemaName: 'batch_translation',
+    prompt: renderPrompt('batch-translation', {
+      items: JSON.stringify(items, null, 2),
+      languages,
+    }),
+    instructions:
+      level && targetLanguage
+        ? renderTranslationLevelGuidance(targetLanguage, level).text
+        : undefined,
+  });
+
+  const byIndex = new Map(chunk.map((item) => [item.index, item]));
+  const results = new Map<number, BatchTranslationResult>();
+
+  for (const translation of data.translations) {
+    const item = byIndex.get(translation.index);
+    const sourceLanguage = item?.sourceLanguage ?? translation.sourceLanguage;
+
+    if (!item || results.has(item.index) || !translation.translatedText.trim()) continue;
+    if (sourceLanguage !== 'other' && !getLanguageName(sourceLanguage)) continue;
+
+    const problem =
+      sourceLanguage === 'other'
+        ? 'Could not detect a supported source language; specify sourceLanguage'
+        : checkDirection(sourceLanguage, item.targetLanguage);
+    results.set(
+      item.index,
+      problem
+        ? failure(item.index, new ValidationError(problem))
+        : {
+            index: item.index,
+            translatedText: translation.translatedText.trim(),
+            sourceLanguage,
+            targetLanguage: item.targetLanguage,
+          }
+    );
+  }
+
+  return { results, model, usage };
+}
+
+/**
+ * Translates an item on its own, for items a packed call left out
+ */
+async function translateSingle(
+  item: PendingItem,
+  level: CefrLevel | undefined
+): Promise<{ result: BatchTranslationResult; translation?: TranslationResponse }> {
+  try {
+    const translation = await translateText(item.text, item.targetLanguage, {
+      sourceLanguage: item.sourceLanguage,
+      level,
+    });
+
+    return { result: success(item.index, translation), translation };
+  } catch (error) {
+    return { result: failure(item.index, error) };
+  }
+}
+
+/**
+ * Translates many texts, each into its own target language, with per-item results
+ *
+ * Valid items are first looked up in the response cache, under the same keys as single
+ * translations; the others are packed into as few structured calls as the per-call limits
+ * allow, and their translations cached. An item
+ * that fails validation is reported without being sent; an item a call left out or returned
+ * malformed is retried on its own; an item in a failed call is reported with that call's
+ * error. Either way the other items are unaffected. At most MAX_CONCURRENT_CALLS calls run
+ * at once.
+ *
+ * @param items - Texts with their target and optional source languages
+ * @param options - Optional learner level and cache bypass
+ * @returns A result or an error per item, in order, with the usage of every call combined
+ *
+ * @example
+ * ```typescript
+ * const { results } = await translateBatch([
+ *   { text: 'What would you like to order?', targetLanguage: 'zh-TW' },
+ *   { text: 'Could I get a latte, please?', targetLanguage: 'ja' },
+ * ]);
+ * ```
+ */
+export async function translateBatch(
+  items: BatchTranslationItem[],
+  options: BatchTranslationOptions = {}
+): Promise<BatchTranslationResponse> {
+  const { level, bypassCache } = options;
+  const results: BatchTranslationResult[] = [];
+  const pending: PendingItem[] = [];
+
+  items.forEach((item, index) => {
+    const prepared = prepareItem(item);
+    if (typeof prepared === 'string') {
+      results[index] = failure(index, new ValidationError(prepared));
+    } else {
+      pending.push({ ...prepared, index });
+    }
+  });
+
+  const cachedTranslations = bypassCache
+    ? null
+    : await getCachedResponses<TranslationResponse>(
+        pending.map((item) => itemCacheKey(item, level))
+      );
+  const uncached = pending.filter((item, position) => {
+    const hit = cachedTranslations?.[position];
+    if (hit) {
+      results[item.index] = success(item.index, hit.value);
+    }
+    return !hit;
+  });
+  const cached = pending.length - uncached.length;
+
+  // Level guidance differs for translations into and out of English, as for single translations,
+  // so those are packed apart
+  const intoEnglish = (item: PendingItem) => item.targetLanguage === ENGLISH_LANGUAGE;
+  const chunks = level
+    ? [
+        ...packItems(uncached.filter(intoEnglish)),
+        ...packItems(uncached.filter((item) => !intoEnglish(item))),
+      ]
+    : packItems(uncached);
+  const fresh: Array<{ parts: CacheKeyParts; value: TranslationResponse }> = [];
+  const usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+  const addUsage = (added: TranslationResponse['usage'] | undefined) => {
+    usage.promptTokens += added?.promptTokens ?? 0;
+    usage.completionTokens += added?.completionTokens ?? 0;
+    usage.totalTokens += added?.totalTokens ?? 0;
+  };
+  let model: string = openaiConfig.gpt.model;
+
+  logger.info('Translating batch', {
+    items: items.length,
+    invalidItems: items.length - pending.length,
+    cached,
+    calls: chunks.length,
+    level,
+  });
+
+  const retries: PendingItem[] = [];
+
+  await runWithConcurrency(chunks, MAX_CONCURRENT_CALLS, async (chunk) => {
+    try {
+      const translated = await translateChunk(chunk, level);
+      model = translated.model;
+      addUsage(translated.usage);
+
+      const itemUsage = shareUsage(translated.usage, chunk.length);
+
+      for (const item of chunk) {
+        const result = translated.results.get(item.index);
+        if (!result) {
+          retries.push(item);
+          continue;
+        }
+
+        results[item.index] = result;
+        // A single translation of a detected text also reports the detection, which a packed
+        // call does not give, so those items are not cached
+        if (!('error' in result) && item.sourceLanguage !== undefined) {
+          fresh.push({
+            parts: itemCacheKey(item, level),
+            value: {
+              translatedText: result.translatedText,
+              sourceLanguage: result.sourceLanguage,
+              targetLanguage: result.targetLanguage,
+              model: translated.model,
+              usage: itemUsage,
+            },
+          });
+        }
+      }
+    } catch (error) {
+      logger.warn('Batch translation call failed', {
+        items: chunk.length,
+        error: error instanceof Error ? error.message : error,
+      });
+      for (const item of chunk) {
+        results[item.index] = failure(item.index, error);
+      }
+    }
+  });
+
+  if (retries.length > 0) {
+    logger.warn('Retrying batch items individually', { items: retries.length });
+
+    await runWithConcurrency(retries, MAX_CONCURRENT_CALLS, async (item) => {
+      const { result, translation } = await translateSingle(item, level);
+      results[item.index] = result;
+      addUsage(translation?.usage);
+      model = translation?.model ?? model;
+
+      if (translation) {
+        fresh.push({ parts: itemCacheKey(item, level), value: translation });
+      }
+    });
+  }
+
+  await setCachedResponses(fresh);
+
+  const failed = results.filter((result) => 'error' in result).length;
+
+  logger.info('Batch translation completed', {
+    items: items.length,
+    failed,
+    cached,
+    retried: retries.length,
+    usage,
+  });
+
+  return { results, succeeded: results.length - failed, failed, cached, model, usage };
+}
+
+export default {
+  translateBatch,
+};
@@ -0,0 +1,155 @@
+import OpenAI from 'openai';
+import { openaiConfig } from '../../config/openai';
+import { logger } from '../../shared/utils/logger';
+import { AppError } from '../../shared/utils/errors';
+import { ErrorCodes } from '../../shared/constants/errorCodes';
+import { HttpStatus } from '../../shared/constants/enums';
+import {
+  renderLevelGuidance,
+  TextGenerationOptions,
+  TextGenerationResponse,
+} from './textGeneration.service';
+import { promptLogFields, renderPrompt } from './promptRegistry';
+
+// Validate API key
+if (!openaiConfig.apiKey || openaiConfig.apiKey === 'your_openai_api_key_here') {
+  throw new Error('OpenAI API key is not configured. Please set OPENAI_API_KEY in your .env file');
+}
+
+// Initialize OpenAI client
+const openai = new OpenAI({
+  apiKey: openaiConfig.apiKey,
+  organization: openaiConfig.organization,
+  timeout: openaiConfig.timeout,
+});
+
+logger.info('OpenAI conversation client initialized');
+
+/**
+ * One turn of a conversation, as replayed to the model
+ */
+export interface ConversationTurn {
+  role: 'user' | 'assistant';
+  text: string;
+}
+
+/**
+ * Input used when the conversation has no turns yet
+ */
+const OPENING_INPUT = 'Start the conversation with your first line.';
+
+/**
+ * Generates the next AI turn of a multi-turn conversation
+ * Every stored turn is replayed, so the model always sees the full context
+ *
+ * @param topic - The conversation topic/scenario
+ * @param turns - All previous turns in order, ending with the learner's latest message
+ * @param options - Optional generation settings (store, learner level, etc.)
+ * @returns The AI reply with its token usage
+ *
+ * @example
+ * ```typescript
+ * const reply = await generateConversationReply('Ordering coffee at a cafe', [
+ *   { role: 'assistant', text: 'Hi! What can I get you today?' },
+ *   { role: 'user', text: 'A latte, please.' },
+ * ]);
+ * ```
+ */
+export async function generateConversationReply(
+  topic: string,
+  turns: ConversationTurn[],
+  options: TextGenerationOptions = {}
+): Promise<TextGenerationResponse> {
+  try {
+    const { store = false, level } = options;
+    const instructions = renderPrompt('conversation-partner', { topic });
+    const guidance = renderLevelGuidance(level);
+
+    logger.info('Generating conversation reply', {
+      ...promptLogFields(instructions),
+      topicLength: topic.length,
+      turns: turns.length,
+      level,
+      store,
+    });
+
+    const response = await openai.responses.create({
+      model: openaiConfig.gpt.model,
+      instructions: guidance ? `${instructions.text}\n\n${guidance.text}` : instructions.text,
+      input:
+        turns.length > 0
+          ? turns.map((turn) => ({ role: turn.role, content: turn.text }))
+          : OPENING_INPUT,
+      store,
+    });
+
+    logger.info('Conversation reply generated successfully', {
+      ...promptLogFields(instructions),
+      id: response.id,
+      model: response.model,
+      status: response.status,
+      usage: response.usage,
+    });
+
+    if (!response.output_text.trim()) {
+      throw new AppError(
+        ErrorCodes.OPENAI_API_ERROR,
+        'Conversation reply was empty',
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+
+    return {
+      text: response.output_text.trim(),
+      model: response.model,
+      usage: {
+        promptTokens: response.usage?.input_tokens || 0,
+        completionTokens: response.usage?.output_tokens || 0,
+        totalTokens: response.usage?.total_tokens || 0,
+        cachedTokens: response.usage?.input_tokens_details?.cached_tokens || 0,
+        reasoningTokens: response.usage?.output_tokens_details?.reasoning_tokens || 0,
+      },
+      status: response.status || 'completed',
+      id: response.id,
+      createdAt: response.created_at,
+      output: response.output,
+    };
+  } catch (error) {
+    logger.error('Error generating conversation reply', {
+      error:
+        error instanceof Error
+          ? {
+              message: error.message,
+              name: error.name,
+              stack: error.stack,
+            }
+          : error,
+    });
+
+    if (error instanceof AppError) {
+      throw error;
+    } else if (error instanceof OpenAI.APIError) {
+      throw new AppError(
+        ErrorCodes.OPENAI_API_ERROR,
+        `OpenAI API Error: ${error.message}`,
+        typeof error.status === 'number' ? error.status : HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    } else if (error instanceof Error) {
+      throw new AppError(
+        ErrorCodes.INTERNAL_SERVER_ERROR,
+        `Failed to generate conversation reply: ${error.message}`,
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    } else {
+      throw new AppError(
+        ErrorCodes.INTERNAL_SERVER_ERROR,
+        'Failed to generate conversation reply',
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+}
+
+export default {
+  generateConversationReply,
+};
@@ -0,0 +1,213 @@
+import { CefrLevel } from '@prisma/client';
+import { z } from 'zod';
+import { logger } from '../../shared/utils/logger';
+import { ValidationError } from '../../shared/utils/errors';
+import { CacheMetadata, withResponseCache } from '../cache/responseCache';
+import { PromptName, renderPrompt } from './promptRegistry';
+import { generateStructured } from './structuredOutput.service';
+import { TextGenerationResponse } from './textGeneration.service';
+import { DEFAULT_TARGET_LANGUAGE, ENGLISH_LANGUAGE } from './translation.service';
+import { findLanguage } from '../language';
+
+/**
+ * Parts of speech a looked-up sense can have; 'phrase' covers phrasal verbs and idioms
+ */
+export const PARTS_OF_SPEECH = [
+  'noun',
+  'verb',
+  'adjective',
+  'adverb',
+  'pronoun',
+  'preposition',
+  'conjunction',
+  'determiner',
+  'interjection',
+  'phrase',
+] as const;
+
+export type PartOfSpeech = (typeof PARTS_OF_SPEECH)[number];
+
+/**
+ * Templates whose output is cached per sense, e.g. for response cache keys
+ */
+export const DICTIONARY_PROMPTS: readonly PromptName[] = ['dictionary-entry'];
+
+/**
+ * Templates whose output is cached per term and sentence
+ */
+export const DICTIONARY_SENSE_PROMPTS: readonly PromptName[] = ['dictionary-sense'];
+
+/**
+ * The dictionary entry for one sense of a word or phrase
+ */
+export interface DictionaryEntry {
+  lemma: string;
+  partOfSpeech: PartOfSpeech;
+  sense: string; // short label of the sense, the same for every lookup of it
+  ipa: string;
+  definition: string;
+  examples: string[];
+  collocations: string[];
+  cefrLevel: CefrLevel;
+  translation: { language: string; text: string };
+}
+
+/**
+ * A lookup of a word or phrase as it appeared in a sentence
+ * Usage covers the calls made for this lookup, so it excludes cached generations
+ */
+export interface DictionaryLookup extends DictionaryEntry {
+  term: string;
+  model: string;
+  usage: TextGenerationResponse['usage'];
+  cache: CacheMetadata;
+}
+
+/**
+ * Lookup options
+ */
+export interface DictionaryLookupOptions {
+  /** Language tag of the translation, other than English; defaults to DEFAULT_TARGET_LANGUAGE */
+  language?: string;
+  /** Identify the sense and regenerate the entry instead of serving the cached ones */
+  bypassCache?: boolean;
+}
+
+const senseSchema = z.object({
+  lemma: z.string().trim().min(1),
+  partOfSpeech: z.enum(PARTS_OF_SPEECH),
+  sense: z.string().trim().min(1),
+});
+
+const entrySchema = z.object({
+  ipa: z.string().trim().min(1),
+  definition: z.string().trim().min(1),
+  examples: z.array(z.string().trim().min(1)).length(2),
+  collocations: z.array(z.string().trim().min(1)).max(6),
+  cefrLevel: z.nativeEnum(CefrLevel),
+  translation: z.string().trim().min(1),
+});
+
+type CachedSense = z.infer<typeof senseSchema> & {
+  model: string;
+  usage: TextGenerationResponse['usage'];
+};
+
+type CachedEntry = z.infer<typeof entrySchema> & {
+  model: string;
+  usage: TextGenerationResponse['usage'];
+};
+
+/**
+ * Lower-cases a sense label and collapses its spacing, so minor variations share a cache entry
+ */
+const toSenseKey = (value: string): string =>
+  value
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .replace(/[.\s]+$/, '');
+
+/**
+ * Looks up a word or phrase in the sense it has in a sentence
+ *
+ * A first call identifies the lemma and the sense that fits the context, served from the
+ * response cache per (term, context) when the same sentence was looked up before. The entry
+ * for that sense (pronunciation, definition, examples, collocations, level and translation)
+ * is then served from the response cache per (lemma, sense, language), or generated and
+ * cached.
+ *
+ * @param term - The word or phrase as the learner saw it
+ * @param context - The sentence it appeared in
+ * @param options - Translation language and cache bypass
+ * @returns The entry for the sense that fits the context, with its cache metadata
+ * @throws {ValidationError} If the language is not supported
+ * @throws {AppError} STRUCTURED_OUTPUT_INVALID if the model does not return a valid entry
+ *
+ * @example
+ * ```typescript
+ * const entry = await lookupTerm('running', 'She is running a small bakery downtown.', {
+ *   language: 'ja',
+ * });
+ * console.log(entry.lemma, entry.sense); // 'run', 'to manage a business'
+ * ```
+ */
+export async function lookupTerm(
+  term: string,
+  context: string,
+  options: DictionaryLookupOptions = {}
+): Promise<DictionaryLookup> {
+  const tag = options.language ?? DEFAULT_TARGET_LANGUAGE;
+  const found = findLanguage(tag);
+
+  if (!found || found.code === ENGLISH_LANGUAGE) {
+    throw new ValidationError(`Unsupported language: ${tag}`);
+  }
+
+  const { code: language, name: languageName } = found;
+
+  logger.info('Looking up term', { termLength: term.length, language });
+
+  const identified = await withResponseCache(
+    { operation: 'lookup-sense', prompts: DICTIONARY_SENSE_PROMPTS, input: { term, context } },
+    async (): Promise<CachedSense> => {
+      const { data, model, usage } = await generateStructured({
+        schema: senseSchema,
+        schemaName: 'dictionary_sense',
+        prompt: renderPrompt('dictionary-sense', { term, context }),
+      });
+      return { ...data, model, usage };
+    },
+    { bypass: options.bypassCache }
+  );
+  const sense = {
+    lemma: identified.value.lemma,
+    partOfSpeech: identified.value.partOfSpeech,
+    sense: toSenseKey(identified.value.sense),
+  };
+  const senseUsage = identified.cache.status === 'hit' ? undefined : identified.value.usage;
+
+  const { value, cache } = await withResponseCache(
+    {
+      operation: 'lookup',
+      prompts: DICTIONARY_PROMPTS,
+      input: { ...sense, lemma: sense.lemma.toLowerCase(), language },
+    },
+    async (): Promise<CachedEntry> => {
+      const { data, model, usage } = await generateStructured({
+        schema: entrySchema,
+        schemaName: 'dictionary_entry',
+        prompt: renderPrompt('dictionary-entry', { ...sense, language: languageName }),
+      });
+      return { ...data, model, usage };
+    },
+    { bypass: options.bypassCache }
+  );
+
+  const { model, usage, translation, ...entry } = value;
+  const entryUsage = cache.status === 'hit' ? undefined : usage;
+
+  logger.info('Term looked up', {
+    lemma: sense.lemma,
+    partOfSpeech: sense.partOfSpeech,
+    senseCache: identified.cache.status,
+    cache: cache.status,
+  });
+
+  return {
+    term,
+    ...sense,
+    ...entry,
+    translation: { language, text: translation },
+    model: entryUsage ? model : identified.value.model,
+    usage: {
+      promptTokens: (senseUsage?.promptTokens ?? 0) + (entryUsage?.promptTokens ?? 0),
+      completionTokens: (senseUsage?.completionTokens ?? 0) + (entryUsage?.completionTokens ?? 0),
+      totalTokens: (senseUsage?.totalTokens ?? 0) + (entryUsage?.totalTokens ?? 0),
+    },
+    cache,
+  };
+}
+
+export default {
+  lookupTerm,
+};
@@ -0,0 +1,162 @@
+import type { CefrLevel } from '@prisma/client';
+import { z } from 'zod';
+import { logger } from '../../shared/utils/logger';
+import { diffText } from '../../shared/utils/textDiff';
+import {
+  GRAMMAR_ERROR_CATEGORIES,
+  GrammarCheckError,
+  GrammarErrorCategory,
+  TextChange,
+} from '../../shared/types/domain.types';
+import { PromptName, renderPrompt } from './promptRegistry';
+import { generateStructured } from './structuredOutput.service';
+import { renderLevelGuidance, TextGenerationResponse } from './textGeneration.service';
+
+/**
+ * Templates checkGrammar renders, e.g. for response cache keys
+ */
+export const GRAMMAR_CHECK_PROMPTS: readonly PromptName[] = ['grammar-check', 'level-guidance'];
+
+/**
+ * Grammar check options
+ */
+export interface GrammarCheckOptions {
+  level?: CefrLevel; // Learner's CEFR level, so explanations match it
+  store?: boolean;
+}
+
+/**
+ * Grammar check result
+ * Errors use the same 0-100 score scale and categories as Practice.grammarScore
+ * and Practice.grammarErrors
+ */
+export interface GrammarCheckResult {
+  correctedText: string;
+  errors: GrammarCheckError[];
+  score: number;
+  model: string;
+  usage: TextGenerationResponse['usage'];
+}
+
+const grammarCheckSchema = z.object({
+  correctedText: z.string().trim().min(1),
+  errors: z.array(
+    z.object({
+      original: z.string(),
+      replacement: z.string(),
+      category: z.enum(GRAMMAR_ERROR_CATEGORIES),
+      explanation: z.string().trim().min(1),
+    })
+  ),
+  score: z.number(),
+});
+
+type ReportedError = z.infer<typeof grammarCheckSchema>['errors'][number];
+
+const toWords = (text: string): string[] => text.toLowerCase().match(/[\p{L}\p{N}']+/gu) ?? [];
+
+/**
+ * Explains a change found by the diff with the error the model reported for it
+ * Reported errors are matched by their fragments, preferring ones not used yet; a change
+ * the model did not report gets a plain description
+ */
+function describeChange(
+  change: TextChange,
+  reported: ReportedError[],
+  used: Set<ReportedError>
+): { category: GrammarErrorCategory; explanation: string } {
+  const original = change.original.trim();
+  const replacement = change.replacement.trim();
+  const changedWords = new Set([...toWords(original), ...toWords(replacement)]);
+
+  const matchers: Array<(error: ReportedError) => boolean> = [
+    (error) => error.original.trim() === original && error.replacement.trim() === replacement,
+    (error) =>
+      [...toWords(error.original), ...toWords(error.replacement)].some((word) =>
+        changedWords.has(word)
+      ),
+    (error) => changedWords.size === 0 && error.category === 'punctuation',
+  ];
+
+  for (const matches of matchers) {
+    const error =
+      reported.find((candidate) => !used.has(candidate) && matches(candidate)) ??
+      reported.find(matches);
+
+    if (error) {
+      used.add(error);
+      return { category: error.category, explanation: error.explanation };
+    }
+  }
+
+  return {
+    category: 'other',
+    explanation: !original
+      ? `Add "${replacement}".`
+      : !replacement
+        ? `Remove "${original}".`
+        : `Change "${original}" to "${replacement}".`,
+  };
+}
+
+/**
+ * Checks the grammar of typed or transcribed text
+ * The model corrects the text and categorizes its fixes; the errors are located by diffing
+ * the text against the corrected text, so their offsets always match the input
+ *
+ * @param text - Text to check
+ * @param options - Optional settings (learner level, store)
+ * @returns The corrected text, the located errors in order and a 0-100 grammar score
+ * @throws {AppError} STRUCTURED_OUTPUT_INVALID if the model does not return a valid check
+ *
+ * @example
+ * ```typescript
+ * const result = await checkGrammar('She go to school every days.');
+ * console.log(result.errors[0]); // { start: 4, end: 6, original: 'go', replacement: 'goes', category: 'agreement', ... }
+ * ```
+ */
+export async function checkGrammar(
+  text: string,
+  options: GrammarCheckOptions = {}
+): Promise<GrammarCheckResult> {
+  const { level, store } = options;
+  const prompt = renderPrompt('grammar-check', { text });
+
+  logger.info('Checking grammar', { textLength: text.length, level });
+
+  const { data, model, usage } = await generateStructured({
+    schema: grammarCheckSchema,
+    schemaName: 'grammar_check',
+    prompt,
+    instructions: renderLevelGuidance(level)?.text,
+    store,
+  });
+
+  const changes = diffText(text, data.correctedText);
+  const used = new Set<ReportedError>();
+  const errors = changes.map((change) => ({
+    ...change,
+    ...describeChange(change, data.errors, used),
+  }));
+
+  // A text without changes has nothing to mark down
+  const score = errors.length === 0 ? 100 : Math.round(Math.min(100, Math.max(0, data.score)));
+
+  logger.info('Grammar check completed', {
+    errors: errors.length,
+    reportedErrors: data.errors.length,
+    score,
+  });
+
+  return {
+    correctedText: errors.length === 0 ? text : data.correctedText,
+    errors,
+    score,
+    model,
+    usage,
+  };
+}
+
+export default {
+  checkGrammar,
+};
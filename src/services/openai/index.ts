@@ -1,3 +1,5 @@
+export * from './audioFormat';
+
 export * from './speechToText.service';
 export { default as speechToTextService } from './speechToText.service';
 
@@ -6,3 +8,33 @@ export { default as textGenerationService } from './textGeneration.service';
 
 export * from './translation.service';
 export { default as translationService } from './translation.service';
+
+export * from './speechAnalysis.service';
+export { default as speechAnalysisService } from './speechAnalysis.service';
+
+export * from './conversation.service';
+export { default as conversationService } from './conversation.service';
+
+export * from './promptRegistry';
+export { default as promptRegistry } from './promptRegistry';
+
+export * from './structuredOutput.service';
+export { default as structuredOutputService } from './structuredOutput.service';
+
+export * from './reportFeedback.service';
+export { default as reportFeedbackService } from './reportFeedback.service';
+
+export * from './turnCorrection.service';
+export { default as turnCorrectionService } from './turnCorrection.service';
+
+export * from './grammarCheck.service';
+export { default as grammarCheckService } from './grammarCheck.service';
+
+export * from './batchTranslation.service';
+export { default as batchTranslationService } from './batchTranslation.service';
+
+export * from './dictionary.service';
+export { default as dictionaryService } from './dictionary.service';
+
+export * from './reviewExercises.service';
+export { default as reviewExercisesService } from './reviewExercises.service';
@@ -0,0 +1,306 @@
+import { env } from '../../config/environment';
+import { openaiConfig } from '../../config/openai';
+import { logger } from '../../shared/utils/logger';
+import { AppError } from '../../shared/utils/errors';
+import { ErrorCodes } from '../../shared/constants/errorCodes';
+import { HttpStatus } from '../../shared/constants/enums';
+import { PROMPT_TEMPLATES } from './promptTemplates';
+
+/**
+ * Declaration of one template variable
+ */
+export interface PromptVariableSpec {
+  required: boolean;
+  description: string;
+}
+
+/**
+ * Template rendered locally from `{{variable}}` placeholders
+ */
+export interface TextPromptVersion {
+  version: string;
+  kind: 'text';
+  template: string;
+}
+
+/**
+ * Template hosted as a reusable OpenAI prompt
+ */
+export interface RemotePromptVersion {
+  version: string;
+  kind: 'remote';
+  remoteId: string;
+  remoteVersion: string;
+}
+
+export type PromptVersion = TextPromptVersion | RemotePromptVersion;
+
+/**
+ * A named prompt with its variables and every released version, oldest first
+ */
+export interface PromptDefinition<V extends Record<string, string>> {
+  description: string;
+  variables: { [K in keyof V]-?: PromptVariableSpec };
+  versions: readonly PromptVersion[];
+}
+
+type Templates = typeof PROMPT_TEMPLATES;
+type VariableSpecs<N extends PromptName> = Templates[N]['variables'];
+
+export type PromptName = keyof Templates;
+
+/**
+ * Variables accepted by a template; required ones must be supplied
+ */
+export type PromptVariablesOf<N extends PromptName> = {
+  [K in keyof VariableSpecs<N> as VariableSpecs<N>[K] extends { required: true }
+    ? K
+    : never]: string;
+} & {
+  [K in keyof VariableSpecs<N> as VariableSpecs<N>[K] extends { required: true }
+    ? never
+    : K]?: string;
+};
+
+export type TextPromptName = {
+  [N in PromptName]: Templates[N]['versions'][number] extends TextPromptVersion ? N : never;
+}[PromptName];
+
+export type RemotePromptName = Exclude<PromptName, TextPromptName>;
+
+/**
+ * A text template rendered with its variables
+ */
+export interface RenderedPrompt {
+  name: PromptName;
+  version: string;
+  text: string;
+}
+
+/**
+ * A hosted prompt reference ready for the Responses API `prompt` parameter
+ */
+export interface RenderedRemotePrompt {
+  name: PromptName;
+  version: string;
+  prompt: {
+    id: string;
+    version: string;
+    variables: Record<string, string>;
+  };
+}
+
+const templates: Record<PromptName, PromptDefinition<Record<string, string>>> = PROMPT_TEMPLATES;
+
+const PLACEHOLDER = /\{\{(\w+)\}\}/g;
+
+/**
+ * Parses PROMPT_VERSIONS, a comma-separated list of `name@version` pins
+ */
+function parseVersionOverrides(value: string | undefined): Map<string, string> {
+  const overrides = new Map<string, string>();
+
+  for (const entry of (value ?? '').split(',')) {
+    const [name, version] = entry.trim().split('@');
+    if (name && version) {
+      overrides.set(name, version);
+    }
+  }
+
+  return overrides;
+}
+
+/**
+ * Picks the active version of every template and checks the templates are well formed
+ * Order: PROMPT_VERSIONS override, then the environment pin, then the latest version
+ * @throws {Error} On unknown templates or versions, or undeclared placeholders
+ */
+function selectActiveVersions(): Map<PromptName, PromptVersion> {
+  const overrides = parseVersionOverrides(env.openai.promptVersions);
+  const pins: Partial<Record<string, string>> = openaiConfig.promptVersions[env.nodeEnv];
+  const active = new Map<PromptName, PromptVersion>();
+
+  for (const name of overrides.keys()) {
+    if (!(name in templates)) {
+      throw new Error(`PROMPT_VERSIONS references unknown prompt template "${name}"`);
+    }
+  }
+
+  for (const [name, definition] of Object.entries(templates) as [
+    PromptName,
+    PromptDefinition<Record<string, string>>,
+  ][]) {
+    for (const version of definition.versions) {
+      if (version.kind !== 'text') continue;
+
+      for (const [, variable] of version.template.matchAll(PLACEHOLDER)) {
+        if (!variable || !(variable in definition.variables)) {
+          throw new Error(`Prompt ${name}@${version.version} uses undeclared {{${variable}}}`);
+        }
+      }
+    }
+
+    const pinned = overrides.get(name) ?? pins[name];
+    const selected = pinned
+      ? definition.versions.find((version) => version.version === pinned)
+      : definition.versions[definition.versions.length - 1];
+
+    if (!selected) {
+      throw new Error(`Prompt template "${name}" has no version ${pinned ?? ''}`.trim());
+    }
+
+    active.set(name, selected);
+  }
+
+  return active;
+}
+
+const activeVersions = selectActiveVersions();
+
+logger.info('Prompt templates loaded', {
+  versions: Object.fromEntries(
+    [...activeVersions].map(([name, version]) => [name, version.version])
+  ),
+});
+
+/**
+ * Returns the active version of a template
+ */
+function getActiveVersion(name: PromptName): PromptVersion {
+  const version = activeVersions.get(name);
+
+  if (!version) {
+    throw new AppError(
+      ErrorCodes.PROMPT_TEMPLATE_ERROR,
+      `Unknown prompt template: ${name}`,
+      HttpStatus.INTERNAL_SERVER_ERROR
+    );
+  }
+
+  return version;
+}
+
+/**
+ * Checks that every required variable is a non-empty string and no unknown ones are passed
+ * @throws {AppError} PROMPT_TEMPLATE_ERROR
+ */
+function checkVariables(name: PromptName, variables: object): Record<string, string> {
+  const specs = templates[name].variables;
+  const values = variables as Record<string, unknown>;
+
+  const missing = Object.entries(specs)
+    .filter(([key, spec]) => spec.required && (typeof values[key] !== 'string' || !values[key]))
+    .map(([key]) => key);
+  const unknown = Object.keys(values).filter((key) => !(key in specs));
+
+  if (missing.length > 0 || unknown.length > 0) {
+    throw new AppError(
+      ErrorCodes.PROMPT_TEMPLATE_ERROR,
+      `Invalid variables for prompt ${name}` +
+        (missing.length > 0 ? `; missing: ${missing.join(', ')}` : '') +
+        (unknown.length > 0 ? `; unknown: ${unknown.join(', ')}` : ''),
+      HttpStatus.INTERNAL_SERVER_ERROR
+    );
+  }
+
+  return Object.fromEntries(
+    Object.entries(values).filter(
+      (entry): entry is [string, string] => typeof entry[1] === 'string'
+    )
+  );
+}
+
+/**
+ * Returns the version of a template the current environment uses
+ */
+export function getPromptVersion(name: PromptName): string {
+  return getActiveVersion(name).version;
+}
+
+/**
+ * Renders the active version of a text template
+ *
+ * @param name - Template name
+ * @param variables - Values for the template's `{{variable}}` placeholders
+ * @returns The rendered text with the template name and version that produced it
+ * @throws {AppError} PROMPT_TEMPLATE_ERROR if a required variable is missing
+ *
+ * @example
+ * ```typescript
+ * const prompt = renderPrompt('translation', { targetLanguage: 'Japanese' });
+ * logger.info('Translating', promptLogFields(prompt));
+ * ```
+ */
+export function renderPrompt<N extends TextPromptName>(
+  name: N,
+  variables: PromptVariablesOf<N>
+): RenderedPrompt {
+  const version = getActiveVersion(name);
+
+  if (version.kind !== 'text') {
+    throw new AppError(
+      ErrorCodes.PROMPT_TEMPLATE_ERROR,
+      `Prompt ${name}@${version.version} is hosted remotely and cannot be rendered`,
+      HttpStatus.INTERNAL_SERVER_ERROR
+    );
+  }
+
+  const values = checkVariables(name, variables);
+
+  return {
+    name,
+    version: version.version,
+    // Single pass, so placeholders inside variable values are left as they are
+    text: version.template.replace(PLACEHOLDER, (_match, key: string) => values[key] ?? ''),
+  };
+}
+
+/**
+ * Resolves the active version of a hosted prompt with its variables
+ *
+ * @param name - Template name
+ * @param variables - Values passed to the hosted prompt
+ * @returns The Responses API prompt reference with the template name and version
+ * @throws {AppError} PROMPT_TEMPLATE_ERROR if a required variable is missing
+ */
+export function resolveRemotePrompt<N extends RemotePromptName>(
+  name: N,
+  variables: PromptVariablesOf<N>
+): RenderedRemotePrompt {
+  const version = getActiveVersion(name);
+
+  if (version.kind !== 'remote') {
+    throw new AppError(
+      ErrorCodes.PROMPT_TEMPLATE_ERROR,
+      `Prompt ${name}@${version.version} is not a hosted prompt`,
+      HttpStatus.INTERNAL_SERVER_ERROR
+    );
+  }
+
+  return {
+    name,
+    version: version.version,
+    prompt: {
+      id: version.remoteId,
+      version: version.remoteVersion,
+      variables: checkVariables(name, variables),
+    },
+  };
+}
+
+/**
+ * Log fields identifying the prompt behind a generation
+ */
+export function promptLogFields(prompt: { name: PromptName; version: string }): {
+  promptTemplate: PromptName;
+  promptVersion: string;
+} {
+  return { promptTemplate: prompt.name, promptVersion: prompt.version };
+}
+
+export default {
+  renderPrompt,
+  resolveRemotePrompt,
+  getPromptVersion,
+  promptLogFields,
+};
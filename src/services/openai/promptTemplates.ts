@@ -0,0 +1,489 @@
+import type { PromptDefinition } from './promptRegistry';
+
+/**
+ * Prompt templates used by the OpenAI services
+ *
+ * Versions are listed oldest first and never edited once released; change a prompt by
+ * appending a new version, then pin or roll forward per environment in
+ * `openaiConfig.promptVersions`. Text templates use `{{variable}}` placeholders.
+ */
+export const PROMPT_TEMPLATES = {
+  'talk-with-topic': {
+    description: 'Role-play reply on a topic, hosted as a reusable OpenAI prompt',
+    variables: {
+      topic: { required: true, description: 'Scenario or topic description' },
+      initial_message: { required: true, description: 'Opening line of the conversation' },
+    },
+    versions: [
+      {
+        version: '8',
+        kind: 'remote',
+        remoteId: 'pmpt_690cafff67748196b1128b3affd644690712eb38faca12d4',
+        remoteVersion: '8',
+      },
+    ],
+  } satisfies PromptDefinition<{ topic: string; initial_message: string }>,
+
+  'conversation-partner': {
+    description: 'Instructions for the multi-turn conversation partner',
+    variables: {
+      topic: { required: true, description: 'Scenario or topic description' },
+    },
+    versions: [
+      {
+        version: '1',
+        kind: 'text',
+        template: `You are a friendly conversation partner helping an English learner practice speaking.
+Scenario: {{topic}}
+
+Stay in character for the scenario. Reply in 1-3 short, natural sentences and usually end
+with a question that keeps the conversation going. Use clear, everyday English. Do not
+correct the learner's mistakes unless they ask; simply model the correct form in your reply.`,
+      },
+    ],
+  } satisfies PromptDefinition<{ topic: string }>,
+
+  'response-suggestions': {
+    description: 'Three replies the learner could say next in a conversation',
+    variables: {
+      topic: { required: true, description: 'Scenario or topic description' },
+      conversationHistory: { required: true, description: 'Transcript of recent turns' },
+      count: { required: false, description: 'Number of suggestions to write' },
+      translationLanguage: {
+        required: false,
+        description: "Learner's native language for translations, or 'none'",
+      },
+    },
+    versions: [
+      {
+        version: '1',
+        kind: 'text',
+        template: `Based on the following conversation topic and history, generate exactly 3 helpful response suggestions that the user could say next.
+
+Topic: {{topic}}
+
+Conversation History:
+{{conversationHistory}}
+
+IMPORTANT: Your response must be a valid JSON object with this exact structure:
+{
+  "suggestions": [
+    "First suggestion as a complete, natural sentence",
+    "Second suggestion as a complete, natural sentence",
+    "Third suggestion as a complete, natural sentence"
+  ]
+}
+
+Each suggestion should be relevant, helpful, conversational, and different from each other. Provide ONLY the JSON object, no other text.`,
+      },
+      {
+        version: '2',
+        kind: 'text',
+        template: `You help an English learner keep a conversation going.
+
+Topic: {{topic}}
+
+Conversation history:
+{{conversationHistory}}
+
+Suggest exactly 3 things the learner could say next. Each suggestion must be a complete,
+natural sentence that fits the conversation, and the three must differ from each other.`,
+      },
+      {
+        version: '3',
+        kind: 'text',
+        template: `You help an English learner keep a conversation going.
+
+Topic: {{topic}}
+
+Conversation history (Partner is the AI, Learner is the student):
+{{conversationHistory}}
+
+Suggest exactly {{count}} different things the learner could say next. For each suggestion give:
+- text: a complete, natural reply that fits the conversation
+- difficulty: "simple" (short, basic words), "natural" (what a native speaker would say)
+  or "advanced" (richer vocabulary or structures); spread the suggestions across levels
+- explanation: one short sentence on why the reply fits this moment
+- keyPhrases: 1-3 useful phrases copied exactly from the text
+- translation: the text translated into {{translationLanguage}}, or null if that is "none"`,
+      },
+    ],
+  } satisfies PromptDefinition<{
+    topic: string;
+    conversationHistory: string;
+    count?: string;
+    translationLanguage?: string;
+  }>,
+
+  translation: {
+    description: 'System message for translating text between English and another language',
+    variables: {
+      sourceLanguage: { required: true, description: 'English name of the source language' },
+      targetLanguage: { required: true, description: 'English name of the target language' },
+    },
+    versions: [
+      {
+        version: '1',
+        kind: 'text',
+        template:
+          'You are a professional translator. Translate the given English text to {{targetLanguage}}. Only provide the translation without any additional explanation or commentary.',
+      },
+      {
+        version: '2',
+        kind: 'text',
+        template:
+          'You are a professional translator. Translate the given {{sourceLanguage}} text to {{targetLanguage}}. Only provide the translation without any additional explanation or commentary.',
+      },
+    ],
+  } satisfies PromptDefinition<{ sourceLanguage: string; targetLanguage: string }>,
+  'batch-translation': {
+    description: 'Translates several texts, each into its own target language, in one call',
+    variables: {
+      items: { required: true, description: 'JSON array of items to translate' },
+      languages: { required: true, description: 'Supported language codes with their names' },
+    },
+    versions: [
+      {
+        version: '1',
+        kind: 'text',
+        template: `You are a professional translator. Translate the text of every item below into the
+item's targetLanguage. Languages: {{languages}}.
+
+Items:
+{{items}}
+
+For each item return its index, the code of the language the text is written in as
+sourceLanguage (use the item's sourceLanguage when it is not "detect", or "other" if the text
+is in none of the languages listed) and the translation as translatedText. Translate each
+item on its own, without commentary, and return every item exactly once.`,
+      },
+    ],
+  } satisfies PromptDefinition<{ items: string; languages: string }>,
+  'language-detection': {
+    description: 'Detects which supported language a text is written in',
+    variables: {
+      text: { required: true, description: 'The text to inspect' },
+      languages: { required: true, description: 'Supported language codes with their names' },
+    },
+    versions: [
+      {
+        version: '1',
+        kind: 'text',
+        template: `Identify the language of the text below.
+
+Text: "{{text}}"
+
+Answer with one of these language codes: {{languages}}. Use "other" if the text is in none of
+them. For Chinese, tell Simplified (zh-CN) and Traditional (zh-TW) characters apart. Give your
+confidence from 0 to 1; use a low value for very short or mixed-language text.`,
+      },
+    ],
+  } satisfies PromptDefinition<{ text: string; languages: string }>,
+  'translation-alternatives': {
+    description: 'English phrasings of a translation at different formality levels',
+    variables: {
+      sourceLanguage: { required: true, description: 'English name of the source language' },
+      text: { required: true, description: 'The original text' },
+      translation: { required: true, description: 'Its English translation' },
+    },
+    versions: [
+      {
+        version: '1',
+        kind: 'text',
+        template: `A learner wants to say this {{sourceLanguage}} text in English:
+"{{text}}"
+
+Its plain translation is: "{{translation}}"
+
+Give 2 or 3 other natural ways to say it in English, each at a different formality level
+(formal, neutral, casual), as a native speaker would in that register. Keep the meaning.`,
+      },
+    ],
+  } satisfies PromptDefinition<{ sourceLanguage: string; text: string; translation: string }>,
+
+  'dictionary-sense': {
+    description: 'Lemma, part of speech and sense of a word or phrase as used in a sentence',
+    variables: {
+      term: { required: true, description: 'The word or phrase the learner looked up' },
+      context: { required: true, description: 'The sentence it appeared in' },
+    },
+    versions: [
+      {
+        version: '1',
+        kind: 'text',
+        template: `An English learner looked up "{{term}}" in this sentence:
+"{{context}}"
+
+Return:
+- lemma: the dictionary headword, e.g. "run" for "running" or "look up" for "looked it up".
+  Keep multi-word expressions (phrasal verbs, idioms, fixed phrases) whole when the sentence
+  uses them as one unit.
+- partOfSpeech: its part of speech in this sentence; use "phrase" for phrasal verbs and idioms.
+- sense: a short label (at most six words, lower case, no final period) for the meaning it has
+  in this sentence, worded the way a dictionary would label that sense, so the same sense
+  always gets the same label, e.g. "to manage a business" or "a financial institution".`,
+      },
+    ],
+  } satisfies PromptDefinition<{ term: string; context: string }>,
+
+  'dictionary-entry': {
+    description: 'Learner dictionary entry for one sense of a word or phrase',
+    variables: {
+      lemma: { required: true, description: 'The dictionary headword' },
+      partOfSpeech: { required: true, description: 'Part of speech of the sense' },
+      sense: { required: true, description: 'Short label of the sense' },
+      language: { required: true, description: 'Name of the translation language' },
+    },
+    versions: [
+      {
+        version: '1',
+        kind: 'text',
+        template: `Write a learner dictionary entry for one sense of an English word or phrase.
+
+Headword: {{lemma}} ({{partOfSpeech}})
+Sense: {{sense}}
+
+Describe only this sense. Return:
+- ipa: the General American pronunciation of the headword in IPA between slashes.
+- definition: one clear sentence that explains this sense using words simpler than the
+  headword; do not use the headword itself.
+- examples: exactly two natural example sentences that use the headword in this sense.
+- collocations: up to six words or phrases it commonly combines with in this sense, most
+  common first, each shown with the headword (e.g. "run a business").
+- cefrLevel: the CEFR level (A1-C2) at which learners typically learn this sense.
+- translation: the usual {{language}} equivalent of the headword in this sense.`,
+      },
+    ],
+  } satisfies PromptDefinition<{
+    lemma: string;
+    partOfSpeech: string;
+    sense: string;
+    language: string;
+  }>,
+
+  'speech-analysis': {
+    description: 'System message for grammar and pronunciation feedback on a transcript',
+    variables: {},
+    versions: [
+      {
+        version: '1',
+        kind: 'text',
+        template: `You are an expert English teacher analyzing a student's spoken English.
+You receive a speech-to-text transcript together with recognition confidence data.
+Words the recognizer was unsure about (low avg_logprob) are likely pronunciation problems.
+
+Respond with a JSON object of this exact structure:
+{
+  "grammarErrors": [{
+    "type": "tense | article | preposition | word_choice | agreement | word_order | other",
+    "message": "short description of the error",
+    "original": "the erroneous fragment as it appears in the transcript",
+    "corrected": "the corrected fragment",
+    "position": {"start": 0, "end": 0},
+    "explanation": "why it is wrong",
+    "examples": ["correct example sentence"]
+  }],
+  "pronunciationIssues": [{
+    "word": "string",
+    "issue": "string",
+    "suggestion": "string",
+    "ipa": "string"
+  }],
+  "correctedText": "the full transcript with all grammar errors fixed",
+  "suggestions": ["actionable study tip"],
+  "scores": {"grammar": 0-100, "pronunciation": 0-100}
+}
+
+"position" holds character offsets of "original" within the transcript.
+Do not report spoken disfluencies (um, uh) as grammar errors. Provide ONLY the JSON object.`,
+      },
+    ],
+  } satisfies PromptDefinition<Record<string, never>>,
+
+  'grammar-check': {
+    description: 'Grammar correction of typed or transcribed text with categorized errors',
+    variables: {
+      text: { required: true, description: 'The text to check' },
+    },
+    versions: [
+      {
+        version: '1',
+        kind: 'text',
+        template: `You are an English teacher checking the grammar of a learner's text. The text was
+either typed or transcribed from speech.
+
+Text: "{{text}}"
+
+Return:
+- correctedText: the whole text with every grammar, word-choice, spelling and punctuation
+  mistake fixed, changing as little as possible and keeping the learner's wording, meaning and
+  line breaks. Do not rephrase for style.
+- errors: one entry per fix, in the order they appear, with the fragment as written (original),
+  the fragment as corrected (replacement), its category (tense, article, preposition,
+  word_choice, agreement, word_order, verb_form, pronoun, plural, spelling, punctuation, other)
+  and a one-sentence explanation.
+- score: grammar accuracy from 0 to 100, where 100 means no mistakes. Weigh mistakes that
+  change or obscure the meaning more than minor slips, relative to the length of the text.`,
+      },
+    ],
+  } satisfies PromptDefinition<{ text: string }>,
+
+  'turn-correction': {
+    description: 'Minimal correction of one learner turn in a conversation',
+    variables: {
+      text: { required: true, description: "The learner's turn" },
+      context: { required: true, description: 'The partner turn the learner replied to' },
+    },
+    versions: [
+      {
+        version: '1',
+        kind: 'text',
+        template: `You are an English teacher correcting one turn of a learner in a conversation.
+
+The learner was replying to: "{{context}}"
+Learner's turn: "{{text}}"
+
+Return the learner's turn as corrected, changing as few words as possible and keeping their
+wording and meaning; do not rephrase for style and ignore punctuation and capitalization
+unless they change the meaning. If the turn has no grammar or word-choice mistakes, return it
+unchanged with category and explanation set to null. Otherwise give the category of the main
+mistake (tense, article, preposition, word_choice, agreement, word_order, other) and a
+one-sentence explanation of the correction.`,
+      },
+    ],
+  } satisfies PromptDefinition<{ text: string; context: string }>,
+
+  'conversation-report': {
+    description: 'End-of-conversation feedback on the learner turns',
+    variables: {
+      topic: { required: true, description: 'Scenario or topic description' },
+      transcript: { required: true, description: 'Transcript with learner turn ids' },
+    },
+    versions: [
+      {
+        version: '1',
+        kind: 'text',
+        template: `You are an English teacher writing an end-of-conversation report for a learner.
+
+Topic: {{topic}}
+
+Transcript (Partner is the AI; each Learner turn starts with its id in brackets):
+{{transcript}}
+
+Report on the learner turns only:
+- corrections: one entry for every learner turn with a grammar or word-choice mistake, giving
+  its id, the whole turn rewritten correctly with as few changes as possible, the error
+  categories (tense, article, preposition, word_choice, agreement, word_order, other) and a
+  one-sentence explanation. Leave out correct turns and ignore punctuation and capitalization.
+- strongestTurn and weakestTurn: the id of the best and of the weakest learner turn, each with
+  a short reason.
+- vocabulary: up to 8 words or phrases the learner used well that go beyond basic English,
+  each with a short note on meaning or usage.
+- goals: exactly 3 concrete, actionable goals for the next conversation, based on the mistakes.`,
+      },
+    ],
+  } satisfies PromptDefinition<{ topic: string; transcript: string }>,
+
+  'session-report': {
+    description: 'End-of-session vocabulary and goals from scored recordings',
+    variables: {
+      transcript: { required: true, description: 'What the learner said in each recording' },
+      corrections: { required: true, description: 'Mistakes found by speech analysis' },
+    },
+    versions: [
+      {
+        version: '1',
+        kind: 'text',
+        template: `You are an English teacher writing an end-of-session report for a learner.
+
+What the learner said in each recording:
+{{transcript}}
+
+Mistakes already found in these recordings:
+{{corrections}}
+
+Write:
+- vocabulary: up to 8 words or phrases the learner used well that go beyond basic English,
+  each with a short note on meaning or usage.
+- goals: exactly 3 concrete, actionable goals for the next session, based on the mistakes.`,
+      },
+    ],
+  } satisfies PromptDefinition<{ transcript: string; corrections: string }>,
+
+  'review-exercises': {
+    description: "Daily review exercises aimed at the learner's recurring mistakes",
+    variables: {
+      targets: { required: true, description: 'Error categories with frequency and examples' },
+      mix: { required: true, description: 'Number of exercises of each type' },
+      blank: { required: true, description: 'Gap marker for fill-in-the-blank questions' },
+    },
+    versions: [
+      {
+        version: '1',
+        kind: 'text',
+        template: `You are an English teacher preparing today's review for a learner. These are the
+mistakes they made most often recently, most frequent first, with examples of what they said:
+
+{{targets}}
+
+Write exactly these exercises: {{mix}}. Spread them over the mistakes above, giving the most
+frequent ones more exercises, and set category to the category of the mistake each exercise
+targets. Use new sentences on everyday topics rather than copying the examples.
+
+- FILL_BLANK: a sentence with one gap written as {{blank}}; hint names the word to change
+  (e.g. "verb: go") or is null; correctAnswer is the word or words for the gap.
+- MULTIPLE_CHOICE: a sentence with one gap written as {{blank}} and exactly 4 options, one of
+  them correct; correctAnswer repeats the correct option exactly.
+- REWRITE: an instruction and a sentence containing the kind of mistake, to be rewritten
+  correctly; correctAnswer is the corrected sentence.
+- SPEAKING: a sentence to say aloud that uses the structure correctly, e.g. "Say: ...";
+  correctAnswer is that sentence.
+
+For every exercise give targetGrammar, a short name of the structure practiced (e.g. "past
+simple"), and a one-sentence explanation of the answer. options is null except for
+MULTIPLE_CHOICE, and hint is null when no hint is needed.`,
+      },
+    ],
+  } satisfies PromptDefinition<{ targets: string; mix: string; blank: string }>,
+
+  'level-guidance': {
+    description: 'Adapts English written for the learner to their CEFR level',
+    variables: {
+      level: { required: true, description: 'CEFR level, A1-C2' },
+    },
+    versions: [
+      {
+        version: '1',
+        kind: 'text',
+        template: `The learner's English level is CEFR {{level}}. Adapt everything you write in English to it:
+- A1: only very common words, sentences of 3-8 words, present tense; one idea at a time,
+  repeat key words and rephrase instead of introducing new ones.
+- A2: everyday words, sentences of up to about 12 words, simple past and future; slow the
+  conversation down and avoid idioms.
+- B1: everyday vocabulary with the occasional new word made clear by context, sentences of
+  up to about 18 words, common phrasal verbs.
+- B2: natural vocabulary including common idioms, varied sentence structures, normal pace.
+- C1: rich, precise vocabulary and complex structures at a natural native pace.
+- C2: write as you would for an educated native speaker, without simplifying.
+Follow the {{level}} guidance only.`,
+      },
+    ],
+  } satisfies PromptDefinition<{ level: string }>,
+
+  'translation-level': {
+    description: 'Adapts translations to how the learner will use them at their CEFR level',
+    variables: {
+      level: { required: true, description: 'CEFR level, A1-C2' },
+    },
+    versions: [
+      {
+        version: '1',
+        kind: 'text',
+        template: `The reader is learning English at CEFR level {{level}} and will compare your translation with the English original.
+At A1-B1, stay close to the English wording and sentence structure wherever the target
+language allows, so the learner can match phrases. At B2 and above, prefer natural,
+idiomatic phrasing.`,
+      },
+    ],
+  } satisfies PromptDefinition<{ level: string }>,
+};
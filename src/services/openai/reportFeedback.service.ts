@@ -0,0 +1,199 @@
+import type { CefrLevel } from '@prisma/client';
+import { z } from 'zod';
+import { logger } from '../../shared/utils/logger';
+import { GRAMMAR_ERROR_CATEGORIES, GrammarErrorCategory } from '../../shared/types/domain.types';
+import { renderPrompt } from './promptRegistry';
+import { generateStructured } from './structuredOutput.service';
+import { renderLevelGuidance, TextGenerationResponse } from './textGeneration.service';
+
+/**
+ * Words or phrases highlighted in a report
+ */
+const MAX_VOCABULARY = 8;
+
+/**
+ * Goals for the next conversation or session
+ */
+const GOAL_COUNT = 3;
+
+/**
+ * A transcript turn sent for feedback
+ * Learner turns carry the ref the feedback refers back to
+ */
+export interface FeedbackTurn {
+  ref?: string;
+  role: 'user' | 'assistant';
+  text: string;
+}
+
+/**
+ * A recording with the corrections speech analysis already found in it
+ */
+export interface FeedbackRecording {
+  text: string;
+  corrections: Array<{ original: string; corrected: string; category: string }>;
+}
+
+/**
+ * A learner turn picked out by the model
+ */
+export interface FeedbackTurnPick {
+  ref: string;
+  reason: string;
+}
+
+/**
+ * Vocabulary and goals for a report
+ */
+export interface ReportFeedback {
+  vocabulary: Array<{ term: string; note: string }>;
+  goals: string[];
+  model: string;
+  usage: TextGenerationResponse['usage'];
+}
+
+/**
+ * Feedback on a conversation, where the model also assesses each learner turn
+ */
+export interface ConversationReportFeedback extends ReportFeedback {
+  corrections: Array<{
+    ref: string;
+    corrected: string;
+    categories: GrammarErrorCategory[];
+    explanation: string;
+  }>;
+  strongestTurn: FeedbackTurnPick;
+  weakestTurn: FeedbackTurnPick;
+}
+
+const vocabularySchema = z
+  .array(z.object({ term: z.string().trim().min(1), note: z.string().trim().min(1) }))
+  .max(MAX_VOCABULARY);
+
+const goalsSchema = z.array(z.string().trim().min(1)).length(GOAL_COUNT);
+
+/**
+ * Builds the expected shape of conversation feedback
+ * Every ref must name one of the learner turns that were sent
+ */
+function buildConversationFeedbackSchema(refs: Set<string>) {
+  const ref = z.string().refine((value) => refs.has(value), {
+    message: 'Unknown learner turn id',
+  });
+  const pick = z.object({ ref, reason: z.string().trim().min(1) });
+
+  return z.object({
+    corrections: z.array(
+      z.object({
+        ref,
+        corrected: z.string().trim().min(1),
+        categories: z.array(z.enum(GRAMMAR_ERROR_CATEGORIES)).min(1),
+        explanation: z.string().trim().min(1),
+      })
+    ),
+    strongestTurn: pick,
+    weakestTurn: pick,
+    vocabulary: vocabularySchema,
+    goals: goalsSchema,
+  });
+}
+
+const sessionFeedbackSchema = z.object({
+  vocabulary: vocabularySchema,
+  goals: goalsSchema,
+});
+
+/**
+ * Formats turns as the transcript shown to the model, tagging learner turns with their ref
+ */
+function formatTranscript(turns: FeedbackTurn[]): string {
+  return turns
+    .map((turn) =>
+      turn.role === 'assistant' ? `Partner: ${turn.text}` : `[${turn.ref}] Learner: ${turn.text}`
+    )
+    .join('\n');
+}
+
+/**
+ * Generates the report feedback for a finished conversation
+ * Corrections, the strongest and weakest turns, vocabulary and goals all come from the model
+ *
+ * @param topic - The conversation topic/scenario
+ * @param turns - The full transcript; learner turns must have a unique ref
+ * @param level - Learner's CEFR level, so explanations and goals match it
+ * @returns Feedback whose refs all name learner turns
+ * @throws {AppError} STRUCTURED_OUTPUT_INVALID if the model does not return valid feedback
+ */
+export async function generateConversationFeedback(
+  topic: string,
+  turns: FeedbackTurn[],
+  level?: CefrLevel
+): Promise<ConversationReportFeedback> {
+  const refs = new Set(
+    turns.flatMap((turn) => (turn.role === 'user' && turn.ref ? [turn.ref] : []))
+  );
+  const prompt = renderPrompt('conversation-report', {
+    topic,
+    transcript: formatTranscript(turns),
+  });
+
+  logger.info('Generating conversation report feedback', {
+    turns: turns.length,
+    learnerTurns: refs.size,
+    level,
+  });
+
+  const { data, model, usage } = await generateStructured({
+    schema: buildConversationFeedbackSchema(refs),
+    schemaName: 'conversation_report',
+    prompt,
+    instructions: renderLevelGuidance(level)?.text,
+  });
+
+  return { ...data, model, usage };
+}
+
+/**
+ * Generates vocabulary and goals for a finished practice session
+ * Corrections and scores come from the stored speech analysis, so they are not re-assessed
+ *
+ * @param recordings - What the learner said in each practice, with its stored corrections
+ * @param level - Learner's CEFR level, so notes and goals match it
+ * @returns Vocabulary and goals
+ * @throws {AppError} STRUCTURED_OUTPUT_INVALID if the model does not return valid feedback
+ */
+export async function generateSessionFeedback(
+  recordings: FeedbackRecording[],
+  level?: CefrLevel
+): Promise<ReportFeedback> {
+  const corrections = recordings.flatMap((recording) =>
+    recording.corrections.map(
+      (correction) =>
+        `- "${correction.original}" -> "${correction.corrected}" (${correction.category})`
+    )
+  );
+  const prompt = renderPrompt('session-report', {
+    transcript: recordings.map((recording) => `- ${recording.text}`).join('\n'),
+    corrections: corrections.length > 0 ? corrections.join('\n') : 'None',
+  });
+
+  logger.info('Generating session report feedback', {
+    recordings: recordings.length,
+    corrections: corrections.length,
+    level,
+  });
+
+  const { data, model, usage } = await generateStructured({
+    schema: sessionFeedbackSchema,
+    schemaName: 'session_report',
+    prompt,
+    instructions: renderLevelGuidance(level)?.text,
+  });
+
+  return { ...data, model, usage };
+}
+
+export default {
+  generateConversationFeedback,
+  generateSessionFeedback,
+};
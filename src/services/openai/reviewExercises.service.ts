@@ -0,0 +1,169 @@
+import { CefrLevel, ExerciseType } from '@prisma/client';
+import { z } from 'zod';
+import { logger } from '../../shared/utils/logger';
+import { ReviewExercise } from '../../shared/types/domain.types';
+import { renderPrompt } from './promptRegistry';
+import { generateStructured } from './structuredOutput.service';
+import { renderLevelGuidance, TextGenerationResponse } from './textGeneration.service';
+
+/**
+ * Exercises of each type in a daily review
+ */
+export const REVIEW_EXERCISE_MIX: Readonly<Record<ExerciseType, number>> = {
+  [ExerciseType.FILL_BLANK]: 3,
+  [ExerciseType.MULTIPLE_CHOICE]: 3,
+  [ExerciseType.REWRITE]: 2,
+  [ExerciseType.SPEAKING]: 2,
+};
+
+/**
+ * Gap marker in FILL_BLANK questions
+ */
+export const REVIEW_BLANK = '____';
+
+/**
+ * Options offered per MULTIPLE_CHOICE question
+ */
+const MULTIPLE_CHOICE_OPTIONS = 4;
+
+/**
+ * A kind of mistake the learner keeps making, with what they actually said
+ */
+export interface ReviewTarget {
+  category: string;
+  description: string;
+  frequency: number;
+  examples: string[];
+}
+
+/**
+ * Generated exercises, without their ids
+ */
+export interface GeneratedReviewExercises {
+  exercises: Array<Omit<ReviewExercise, 'id'>>;
+  model: string;
+  usage: TextGenerationResponse['usage'];
+}
+
+/**
+ * Builds the expected shape of the exercises
+ * Every exercise must target one of the given categories, and the types must follow the mix
+ */
+function buildExercisesSchema(categories: Set<string>) {
+  const exercise = z
+    .object({
+      type: z.nativeEnum(ExerciseType),
+      category: z.string().refine((value) => categories.has(value), {
+        message: 'Unknown error category',
+      }),
+      targetGrammar: z.string().trim().min(1),
+      question: z.string().trim().min(1),
+      options: z.array(z.string().trim().min(1)).nullable(),
+      hint: z.string().trim().min(1).nullable(),
+      correctAnswer: z.string().trim().min(1),
+      explanation: z.string().trim().min(1),
+    })
+    .superRefine((value, ctx) => {
+      if (value.type === ExerciseType.MULTIPLE_CHOICE) {
+        if (
+          value.options?.length !== MULTIPLE_CHOICE_OPTIONS ||
+          !value.options.includes(value.correctAnswer)
+        ) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `Multiple choice needs ${MULTIPLE_CHOICE_OPTIONS} options including the correct answer`,
+            path: ['options'],
+          });
+        }
+      } else if (value.options !== null) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: 'Only multiple choice exercises have options',
+          path: ['options'],
+        });
+      }
+
+      if (value.type === ExerciseType.FILL_BLANK && !value.question.includes(REVIEW_BLANK)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Fill-in-the-blank questions must contain ${REVIEW_BLANK}`,
+          path: ['question'],
+        });
+      }
+    });
+
+  return z.object({ exercises: z.array(exercise) }).superRefine((value, ctx) => {
+    for (const [type, count] of Object.entries(REVIEW_EXERCISE_MIX)) {
+      const actual = value.exercises.filter((item) => item.type === type).length;
+      if (actual !== count) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Expected ${count} ${type} exercises, got ${actual}`,
+          path: ['exercises'],
+        });
+      }
+    }
+  });
+}
+
+/**
+ * Formats the targets as the list shown to the model, most frequent first
+ */
+function formatTargets(targets: ReviewTarget[]): string {
+  return targets
+    .map((target) =>
+      [
+        `- ${target.category} (${target.frequency} times): ${target.description}`,
+        ...target.examples.map((example) => `  - ${example}`),
+      ].join('\n')
+    )
+    .join('\n');
+}
+
+/**
+ * Generates the exercises of a daily review aimed at the learner's recurring mistakes
+ * Exercises come in the order of REVIEW_EXERCISE_MIX; the more frequent a mistake, the more
+ * exercises target it
+ *
+ * @param targets - The learner's most frequent mistakes, most frequent first
+ * @param level - Learner's CEFR level, so questions and explanations match it
+ * @returns The exercises with their answers and explanations
+ * @throws {AppError} STRUCTURED_OUTPUT_INVALID if the model does not return valid exercises
+ */
+export async function generateReviewExercises(
+  targets: ReviewTarget[],
+  level?: CefrLevel
+): Promise<GeneratedReviewExercises> {
+  const mix = Object.entries(REVIEW_EXERCISE_MIX)
+    .map(([type, count]) => `${count} ${type}`)
+    .join(', ');
+  const prompt = renderPrompt('review-exercises', {
+    targets: formatTargets(targets),
+    mix,
+    blank: REVIEW_BLANK,
+  });
+
+  logger.info('Generating review exercises', { targets: targets.length, level });
+
+  const { data, model, usage } = await generateStructured({
+    schema: buildExercisesSchema(new Set(targets.map((target) => target.category))),
+    schemaName: 'review_exercises',
+    prompt,
+    instructions: renderLevelGuidance(level)?.text,
+  });
+
+  const order = Object.keys(REVIEW_EXERCISE_MIX);
+  const exercises = [...data.exercises]
+    .sort((a, b) => order.indexOf(a.type) - order.indexOf(b.type))
+    .map(({ options, hint, ...exercise }) => ({
+      ...exercise,
+      ...(options && { options }),
+      ...(hint && { hint }),
+    }));
+
+  return { exercises, model, usage };
+}
+
+export default {
+  generateReviewExercises,
+};
@@ -0,0 +1,231 @@
+import OpenAI from 'openai';
+import { z } from 'zod';
+import { openaiConfig } from '../../config/openai';
+import { logger } from '../../shared/utils/logger';
+import { AppError } from '../../shared/utils/errors';
+import { ErrorCodes } from '../../shared/constants/errorCodes';
+import { HttpStatus } from '../../shared/constants/enums';
+import { GrammarError, PronunciationIssue } from '../../shared/types/domain.types';
+import { TranscriptionResponse } from './speechToText.service';
+import { promptLogFields, renderPrompt } from './promptRegistry';
+
+// Validate API key
+if (!openaiConfig.apiKey || openaiConfig.apiKey === 'your_openai_api_key_here') {
+  throw new Error('OpenAI API key is not configured. Please set OPENAI_API_KEY in your .env file');
+}
+
+// Initialize OpenAI client
+const openai = new OpenAI({
+  apiKey: openaiConfig.apiKey,
+  organization: openaiConfig.organization,
+  timeout: openaiConfig.timeout,
+});
+
+logger.info('OpenAI speech analysis client initialized');
+
+/**
+ * Speech analysis options
+ */
+export interface SpeechAnalysisOptions {
+  originalText?: string;
+}
+
+/**
+ * Speech analysis result
+ */
+export interface SpeechAnalysisResult {
+  grammarErrors: GrammarError[];
+  pronunciationIssues: PronunciationIssue[];
+  correctedText: string;
+  suggestions: string[];
+  scores: {
+    grammar: number;
+    pronunciation: number;
+  };
+  model: string;
+  usage: {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+  };
+}
+
+const score = z.coerce.number().transform((value) => Math.min(100, Math.max(0, value)));
+
+/**
+ * Expected shape of the model output
+ */
+const analysisOutputSchema = z.object({
+  grammarErrors: z
+    .array(
+      z.object({
+        type: z.string(),
+        message: z.string(),
+        original: z.string(),
+        corrected: z.string(),
+        position: z.object({ start: z.number().int(), end: z.number().int() }),
+        explanation: z.string(),
+        examples: z.array(z.string()).default([]),
+      })
+    )
+    .default([]),
+  pronunciationIssues: z
+    .array(
+      z.object({
+        word: z.string(),
+        issue: z.string(),
+        suggestion: z.string(),
+        ipa: z.string().default(''),
+      })
+    )
+    .default([]),
+  correctedText: z.string(),
+  suggestions: z.array(z.string()).default([]),
+  scores: z.object({
+    grammar: score,
+    pronunciation: score,
+  }),
+});
+
+/**
+ * Builds the user message describing the transcription for the model
+ */
+function buildAnalysisInput(
+  transcription: TranscriptionResponse,
+  options: SpeechAnalysisOptions
+): string {
+  const lines = [`Transcript: "${transcription.text}"`];
+
+  if (options.originalText) {
+    lines.push(`What the student intended to say: "${options.originalText}"`);
+  }
+
+  if (transcription.duration !== undefined) {
+    lines.push(`Recording duration: ${transcription.duration.toFixed(1)}s`);
+  }
+
+  if (transcription.segments && transcription.segments.length > 0) {
+    lines.push('Segments (start-end, avg_logprob, text):');
+    for (const segment of transcription.segments) {
+      lines.push(
+        `- ${segment.start.toFixed(2)}-${segment.end.toFixed(2)}, ${segment.avg_logprob.toFixed(2)}, "${segment.text.trim()}"`
+      );
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Analyzes a transcription for grammar and pronunciation
+ * Fluency is measured locally from word timings, see analyzeFluency
+ *
+ * @param transcription - Verbose transcription of the learner's recording
+ * @param options - Optional context such as the text the learner intended to say
+ * @returns Detailed feedback and per-dimension scores
+ * @throws {AppError} ANALYSIS_FAILED when the model call fails or returns unusable output
+ *
+ * @example
+ * ```typescript
+ * const transcription = await transcribeAudioWithTimestamps(buffer);
+ * const analysis = await analyzeSpeech(transcription);
+ * console.log(analysis.scores.grammar);
+ * ```
+ */
+export async function analyzeSpeech(
+  transcription: TranscriptionResponse,
+  options: SpeechAnalysisOptions = {}
+): Promise<SpeechAnalysisResult> {
+  try {
+    const prompt = renderPrompt('speech-analysis', {});
+
+    logger.info('Analyzing speech', {
+      ...promptLogFields(prompt),
+      textLength: transcription.text.length,
+      duration: transcription.duration,
+      hasOriginalText: !!options.originalText,
+    });
+
+    const completion = await openai.chat.completions.create({
+      model: openaiConfig.gpt.model,
+      messages: [
+        { role: 'system', content: prompt.text },
+        { role: 'user', content: buildAnalysisInput(transcription, options) },
+      ],
+      response_format: { type: 'json_object' },
+      max_completion_tokens: openaiConfig.gpt.maxCompletionTokens,
+    });
+
+    const content = completion.choices[0]?.message?.content ?? '';
+    const output: unknown = JSON.parse(content || '{}');
+    const parsed = analysisOutputSchema.safeParse(output);
+
+    if (!parsed.success) {
+      logger.error('Speech analysis output failed validation', {
+        issues: parsed.error.issues,
+        responseText: content.substring(0, 200),
+      });
+
+      throw new AppError(
+        ErrorCodes.ANALYSIS_FAILED,
+        'Speech analysis returned an invalid result',
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+
+    logger.info('Speech analysis completed successfully', {
+      ...promptLogFields(prompt),
+      grammarErrors: parsed.data.grammarErrors.length,
+      pronunciationIssues: parsed.data.pronunciationIssues.length,
+      model: completion.model,
+      usage: completion.usage,
+    });
+
+    return {
+      ...parsed.data,
+      model: completion.model,
+      usage: {
+        promptTokens: completion.usage?.prompt_tokens ?? 0,
+        completionTokens: completion.usage?.completion_tokens ?? 0,
+        totalTokens: completion.usage?.total_tokens ?? 0,
+      },
+    };
+  } catch (error) {
+    logger.error('Error analyzing speech', {
+      error:
+        error instanceof Error
+          ? {
+              message: error.message,
+              name: error.name,
+              stack: error.stack,
+            }
+          : error,
+    });
+
+    if (error instanceof AppError) {
+      throw error;
+    } else if (error instanceof OpenAI.APIError) {
+      throw new AppError(
+        ErrorCodes.ANALYSIS_FAILED,
+        `OpenAI API Error: ${error.message}`,
+        typeof error.status === 'number' ? error.status : HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    } else if (error instanceof Error) {
+      throw new AppError(
+        ErrorCodes.ANALYSIS_FAILED,
+        `Failed to analyze speech: ${error.message}`,
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    } else {
+      throw new AppError(
+        ErrorCodes.ANALYSIS_FAILED,
+        'Failed to analyze speech',
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+}
+
+export default {
+  analyzeSpeech,
+};
@@ -4,6 +4,9 @@ import { logger } from '../../shared/utils/logger';
 import { AppError } from '../../shared/utils/errors';
 import { ErrorCodes } from '../../shared/constants/errorCodes';
 import { HttpStatus } from '../../shared/constants/enums';
+import { detectAudioFormat, SUPPORTED_AUDIO_FORMATS } from './audioFormat';
+import { splitWav, WavChunk } from './wavChunker';
+import { stitchTranscriptions, TranscriptPart } from './transcriptStitcher';
 import { createReadStream } from 'fs';
 import { Readable } from 'stream';
 
@@ -63,8 +66,94 @@ export interface TranscriptionResponse {
   }>;
 }
 
+/**
+ * Audio shared by consecutive chunks of a long recording (seconds)
+ */
+const CHUNK_OVERLAP_SECONDS = 5;
+
+/**
+ * Headroom kept below the API limit for each chunk (bytes)
+ */
+const CHUNK_SIZE_MARGIN = 1024 * 1024;
+
+/**
+ * Transcribes a recording above the API size limit by splitting it into
+ * overlapping WAV chunks and stitching their verbose transcriptions together
+ *
+ * @throws {AppError} AUDIO_FILE_TOO_LARGE if the recording is not a WAV file
+ * @throws {AppError} INVALID_AUDIO_FORMAT if the WAV samples cannot be split
+ */
+async function transcribeInChunks(
+  audio: Buffer,
+  options: TranscriptionOptions
+): Promise<TranscriptionResponse> {
+  const { responseFormat = openaiConfig.whisper.responseFormat, ...chunkOptions } = options;
+
+  if (detectAudioFormat(audio)?.container !== 'wav') {
+    throw new AppError(
+      ErrorCodes.AUDIO_FILE_TOO_LARGE,
+      `Only WAV recordings can exceed ${MAX_AUDIO_FILE_SIZE / (1024 * 1024)}MB`,
+      HttpStatus.BAD_REQUEST
+    );
+  }
+
+  if (responseFormat === 'srt' || responseFormat === 'vtt') {
+    throw new AppError(
+      ErrorCodes.VALIDATION_ERROR,
+      `Response format ${responseFormat} is not available for recordings over ${MAX_AUDIO_FILE_SIZE / (1024 * 1024)}MB`,
+      HttpStatus.BAD_REQUEST
+    );
+  }
+
+  let chunks: WavChunk[];
+  try {
+    chunks = splitWav(audio, {
+      maxChunkBytes: MAX_AUDIO_FILE_SIZE - CHUNK_SIZE_MARGIN,
+      overlapSeconds: CHUNK_OVERLAP_SECONDS,
+    });
+  } catch (error) {
+    throw new AppError(
+      ErrorCodes.INVALID_AUDIO_FORMAT,
+      `Unable to split WAV recording: ${error instanceof Error ? error.message : 'unknown error'}`,
+      HttpStatus.BAD_REQUEST
+    );
+  }
+
+  logger.info('Transcribing long recording in chunks', {
+    size: audio.length,
+    chunks: chunks.length,
+    overlapSeconds: CHUNK_OVERLAP_SECONDS,
+  });
+
+  // Chunks are sent one at a time to stay within the API rate limits
+  const parts: TranscriptPart[] = [];
+  for (const chunk of chunks) {
+    const transcription = await transcribeAudio(chunk.buffer, {
+      ...chunkOptions,
+      responseFormat: 'verbose_json',
+    });
+
+    parts.push({
+      offsetSeconds: chunk.offsetSeconds,
+      durationSeconds: chunk.durationSeconds,
+      transcription,
+    });
+  }
+
+  const stitched = stitchTranscriptions(parts);
+
+  logger.info('Chunked transcription completed', {
+    chunks: parts.length,
+    duration: stitched.duration,
+    words: stitched.words?.length,
+  });
+
+  return responseFormat === 'verbose_json' ? stitched : { text: stitched.text };
+}
+
 /**
  * Transcribes audio file to text using OpenAI Whisper API
+ * WAV buffers above MAX_AUDIO_FILE_SIZE are transcribed in overlapping chunks
  *
  * @param audioFile - The audio file to transcribe (File object or file path)
  * @param options - Optional transcription settings
@@ -96,6 +185,10 @@ export async function transcribeAudio(
       responseFormat = openaiConfig.whisper.responseFormat,
     } = options;
 
+    if (Buffer.isBuffer(audioFile) && audioFile.length > MAX_AUDIO_FILE_SIZE) {
+      return await transcribeInChunks(audioFile, options);
+    }
+
     logger.info('Starting audio transcription', {
       language,
       temperature,
@@ -115,8 +208,19 @@ export async function transcribeAudio(
       // If it's a Buffer, convert using toFile for OpenAI SDK
       logger.info('Processing buffer, size:', audioFile.length);
 
+      // Label the upload with the sniffed container so the API decodes it correctly
+      const format = detectAudioFormat(audioFile);
+
+      if (!format) {
+        throw new AppError(
+          ErrorCodes.INVALID_AUDIO_FORMAT,
+          `Unsupported audio format. Supported formats: ${SUPPORTED_AUDIO_FORMATS.join(', ')}`,
+          HttpStatus.BAD_REQUEST
+        );
+      }
+
       // Use OpenAI's toFile method to convert Buffer to File
-      file = await toFile(audioFile, 'audio.webm', { type: 'audio/webm' });
+      file = await toFile(audioFile, `audio.${format.extension}`, { type: format.mimeType });
     } else if (audioFile instanceof Readable) {
       logger.info('Processing readable stream');
       file = audioFile;
@@ -135,6 +239,10 @@ export async function transcribeAudio(
       prompt: prompt,
       temperature: temperature,
       response_format: responseFormat,
+      // Word timings are only returned when explicitly requested
+      ...(responseFormat === 'verbose_json' && {
+        timestamp_granularities: ['word', 'segment'],
+      }),
     });
 
     logger.info('Audio transcription completed successfully');
@@ -157,6 +265,10 @@ export async function transcribeAudio(
       errorType: error?.constructor?.name,
     });
 
+    if (error instanceof AppError) {
+      throw error;
+    }
+
     if (error instanceof OpenAI.APIError) {
       logger.error('OpenAI API Error details', {
         status: error.status,
@@ -207,16 +319,14 @@ export async function transcribeAudioWithTimestamps(
 }
 
 /**
- * Validates if the file is a supported audio format
- * Supported formats: mp3, mp4, mpeg, mpga, m4a, wav, webm
+ * Validates if the file contents are a supported audio format
+ * Supported formats: wav, mp3, m4a, mp4, webm, ogg, flac
  *
- * @param filename - The name of the file to validate
+ * @param data - The file contents; the format is detected from its magic bytes
  * @returns true if the format is supported
  */
-export function isSupportedAudioFormat(filename: string): boolean {
-  const supportedExtensions = ['mp3', 'mp4', 'mpeg', 'mpga', 'm4a', 'wav', 'webm'];
-  const extension = filename.split('.').pop()?.toLowerCase();
-  return extension ? supportedExtensions.includes(extension) : false;
+export function isSupportedAudioFormat(data: Buffer): boolean {
+  return detectAudioFormat(data) !== null;
 }
 
 /**
@@ -225,9 +335,30 @@ export function isSupportedAudioFormat(filename: string): boolean {
  */
 export const MAX_AUDIO_FILE_SIZE = 25 * 1024 * 1024; // 25 MB in bytes
 
+/**
+ * Get the maximum upload size for WAV recordings (200 MB)
+ * Larger WAV files are split into chunks below MAX_AUDIO_FILE_SIZE
+ */
+export const MAX_CHUNKED_AUDIO_FILE_SIZE = 200 * 1024 * 1024; // 200 MB in bytes
+
+/**
+ * Returns the maximum accepted size for the given file contents
+ * Only WAV can be split locally, so other formats are limited to what the API accepts
+ *
+ * @param data - The file contents; the format is detected from its magic bytes
+ * @returns The size limit in bytes
+ */
+export function getMaxAudioFileSize(data: Buffer): number {
+  return detectAudioFormat(data)?.container === 'wav'
+    ? MAX_CHUNKED_AUDIO_FILE_SIZE
+    : MAX_AUDIO_FILE_SIZE;
+}
+
 export default {
   transcribeAudio,
   transcribeAudioWithTimestamps,
   isSupportedAudioFormat,
+  getMaxAudioFileSize,
   MAX_AUDIO_FILE_SIZE,
+  MAX_CHUNKED_AUDIO_FILE_SIZE,
 };
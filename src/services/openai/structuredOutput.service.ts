@@ -0,0 +1,267 @@
+import OpenAI from 'openai';
+import { zodTextFormat } from 'openai/helpers/zod';
+import { z } from 'zod';
+import { openaiConfig } from '../../config/openai';
+import { logger } from '../../shared/utils/logger';
+import { AppError } from '../../shared/utils/errors';
+import { ErrorCodes } from '../../shared/constants/errorCodes';
+import { HttpStatus } from '../../shared/constants/enums';
+import { promptLogFields, RenderedPrompt } from './promptRegistry';
+import { TextGenerationResponse } from './textGeneration.service';
+
+// Validate API key
+if (!openaiConfig.apiKey || openaiConfig.apiKey === 'your_openai_api_key_here') {
+  throw new Error('OpenAI API key is not configured. Please set OPENAI_API_KEY in your .env file');
+}
+
+// Initialize OpenAI client
+const openai = new OpenAI({
+  apiKey: openaiConfig.apiKey,
+  organization: openaiConfig.organization,
+  timeout: openaiConfig.timeout,
+});
+
+logger.info('OpenAI structured output client initialized');
+
+/**
+ * Total attempts per request, including repair attempts after invalid output
+ */
+const DEFAULT_MAX_ATTEMPTS = 2;
+
+/**
+ * Validation issues quoted back to the model when asking for a repair
+ */
+const MAX_REPORTED_ISSUES = 5;
+
+/**
+ * A structured generation request
+ *
+ * Schemas are sent in strict JSON-schema mode, so object fields must be required;
+ * use `.nullable()` rather than `.optional()` for fields the model may leave empty.
+ */
+export interface StructuredGenerationRequest<S extends z.ZodTypeAny> {
+  /** Schema the output must satisfy; also sent to the API as the JSON schema */
+  schema: S;
+  /** Name of the JSON schema, e.g. 'response_suggestions' */
+  schemaName: string;
+  /** Rendered prompt sent as the user input; its template and version are logged */
+  prompt: RenderedPrompt;
+  /** Optional system-level instructions */
+  instructions?: string;
+  /** Attempts including repairs; defaults to 2 */
+  maxAttempts?: number;
+  store?: boolean;
+}
+
+/**
+ * A validated structured generation result
+ * Usage covers every attempt, including failed ones
+ */
+export interface StructuredGenerationResult<T> {
+  data: T;
+  model: string;
+  usage: TextGenerationResponse['usage'];
+  attempts: number;
+  id: string;
+}
+
+/**
+ * Reason an attempt produced no usable output
+ */
+interface AttemptFailure {
+  reason: string;
+  retryable: boolean;
+}
+
+/**
+ * Finds a refusal in the response output, if the model declined to answer
+ */
+function findRefusal(response: OpenAI.Responses.Response): string | undefined {
+  for (const item of response.output) {
+    if (item.type !== 'message') continue;
+
+    for (const content of item.content) {
+      if (content.type === 'refusal') return content.refusal;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Parses and validates the output of one attempt
+ */
+function parseOutput<S extends z.ZodTypeAny>(
+  schema: S,
+  response: OpenAI.Responses.Response
+): { data: z.infer<S> } | AttemptFailure {
+  const refusal = findRefusal(response);
+  if (refusal) {
+    return { reason: `Model refused: ${refusal}`, retryable: false };
+  }
+
+  if (response.status === 'incomplete') {
+    return {
+      reason: `Response was incomplete (${response.incomplete_details?.reason ?? 'unknown'})`,
+      retryable: true,
+    };
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(response.output_text);
+  } catch {
+    return { reason: 'Output is not valid JSON', retryable: true };
+  }
+
+  const parsed = schema.safeParse(json);
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .slice(0, MAX_REPORTED_ISSUES)
+      .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    return { reason: `Output failed validation: ${issues.join('; ')}`, retryable: true };
+  }
+
+  return { data: parsed.data as z.infer<S> };
+}
+
+/**
+ * Generates output matching a zod schema using JSON-schema structured outputs
+ *
+ * The schema is sent to the Responses API and the output is validated again locally,
+ * since refinements and value constraints are not all enforced by the API. Invalid
+ * output is sent back to the model with the validation issues for a bounded number
+ * of repair attempts.
+ *
+ * @param request - Schema, prompt and retry settings
+ * @returns The validated, typed output with combined token usage
+ * @throws {AppError} STRUCTURED_OUTPUT_INVALID when no attempt produced valid output
+ *
+ * @example
+ * ```typescript
+ * const { data } = await generateStructured({
+ *   schema: z.object({ suggestions: z.array(z.string()) }),
+ *   schemaName: 'response_suggestions',
+ *   prompt: renderPrompt('response-suggestions', { topic, conversationHistory }),
+ * });
+ * console.log(data.suggestions);
+ * ```
+ */
+export async function generateStructured<S extends z.ZodTypeAny>(
+  request: StructuredGenerationRequest<S>
+): Promise<StructuredGenerationResult<z.infer<S>>> {
+  const { schema, schemaName, prompt, instructions, store = false } = request;
+  const maxAttempts = Math.max(1, request.maxAttempts ?? DEFAULT_MAX_ATTEMPTS);
+  const format = zodTextFormat(schema, schemaName);
+
+  const usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+  const input: OpenAI.Responses.ResponseInput = [{ role: 'user', content: prompt.text }];
+  let failure: AttemptFailure = { reason: 'No attempt was made', retryable: false };
+
+  try {
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      logger.info('Generating structured output', {
+        ...promptLogFields(prompt),
+        schemaName,
+        attempt,
+      });
+
+      const response = await openai.responses.create({
+        model: openaiConfig.gpt.model,
+        instructions,
+        input,
+        text: { format },
+        store,
+      });
+
+      usage.promptTokens += response.usage?.input_tokens ?? 0;
+      usage.completionTokens += response.usage?.output_tokens ?? 0;
+      usage.totalTokens += response.usage?.total_tokens ?? 0;
+
+      const result = parseOutput(schema, response);
+
+      if ('data' in result) {
+        logger.info('Structured output generated successfully', {
+          ...promptLogFields(prompt),
+          schemaName,
+          attempts: attempt,
+          model: response.model,
+          usage,
+        });
+
+        return {
+          data: result.data,
+          model: response.model,
+          usage,
+          attempts: attempt,
+          id: response.id,
+        };
+      }
+
+      failure = result;
+      logger.warn('Structured output attempt failed', {
+        ...promptLogFields(prompt),
+        schemaName,
+        attempt,
+        reason: result.reason,
+        responseText: response.output_text.substring(0, 200),
+      });
+
+      if (!result.retryable) break;
+
+      // Show the model its previous answer and what was wrong with it
+      input.push(
+        { role: 'assistant', content: response.output_text || '(empty response)' },
+        {
+          role: 'user',
+          content: `Your previous response was not usable. ${result.reason}. Respond again with only the corrected JSON.`,
+        }
+      );
+    }
+  } catch (error) {
+    logger.error('Error generating structured output', {
+      ...promptLogFields(prompt),
+      schemaName,
+      error:
+        error instanceof Error
+          ? {
+              message: error.message,
+              name: error.name,
+              stack: error.stack,
+            }
+          : error,
+    });
+
+    if (error instanceof AppError) {
+      throw error;
+    } else if (error instanceof OpenAI.APIError) {
+      throw new AppError(
+        ErrorCodes.OPENAI_API_ERROR,
+        `OpenAI API Error: ${error.message}`,
+        typeof error.status === 'number' ? error.status : HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    } else if (error instanceof Error) {
+      throw new AppError(
+        ErrorCodes.INTERNAL_SERVER_ERROR,
+        `Failed to generate structured output: ${error.message}`,
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    } else {
+      throw new AppError(
+        ErrorCodes.INTERNAL_SERVER_ERROR,
+        'Failed to generate structured output',
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  throw new AppError(
+    ErrorCodes.STRUCTURED_OUTPUT_INVALID,
+    `Model output for ${schemaName} was invalid: ${failure.reason}`,
+    HttpStatus.INTERNAL_SERVER_ERROR
+  );
+}
+
+export default {
+  generateStructured,
+};
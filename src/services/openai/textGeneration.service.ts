@@ -1,9 +1,20 @@
 import OpenAI from 'openai';
+import type { CefrLevel } from '@prisma/client';
+import { z } from 'zod';
 import { openaiConfig } from '../../config/openai';
 import { logger } from '../../shared/utils/logger';
 import { AppError } from '../../shared/utils/errors';
 import { ErrorCodes } from '../../shared/constants/errorCodes';
 import { HttpStatus } from '../../shared/constants/enums';
+import {
+  promptLogFields,
+  RenderedPrompt,
+  renderPrompt,
+  resolveRemotePrompt,
+} from './promptRegistry';
+import { generateStructured } from './structuredOutput.service';
+import { getLanguageName } from '../language';
+import { ConversationTurn } from './conversation.service';
 
 // Validate API key
 if (!openaiConfig.apiKey || openaiConfig.apiKey === 'your_openai_api_key_here') {
@@ -24,7 +35,9 @@ logger.info('OpenAI text generation client initialized');
  */
 export interface TextGenerationOptions {
   store?: boolean;
-  include?: Array<string>;
+  include?: OpenAI.Responses.ResponseIncludable[];
+  /** Learner's CEFR level; adapts vocabulary, sentence length and pace when set */
+  level?: CefrLevel;
 }
 
 /**
@@ -52,6 +65,18 @@ interface ResponsesAPIInputRequestParams {
   include?: Array<string>;
 }
 
+/**
+ * Request parameters for a streamed response; the SDK typings lack reusable prompts, whose
+ * pinned model is used when no model is given
+ */
+type StreamingRequestParams = Omit<
+  OpenAI.Responses.ResponseCreateParamsStreaming,
+  'stream' | 'model'
+> & {
+  model?: OpenAI.Responses.ResponseCreateParamsStreaming['model'];
+  prompt?: ResponsesAPIPromptRequestParams['prompt'];
+};
+
 /**
  * Text generation response from Responses API
  */
@@ -84,13 +109,31 @@ function extractTextFromResponse(output: Array<any> | undefined): string {
   return textContent?.text || '';
 }
 
+/**
+ * Renders the guidance that adapts generated English to the learner's level
+ * Returns undefined when the level is unknown, in which case output is not adapted
+ *
+ * @param level - The learner's CEFR level
+ */
+export function renderLevelGuidance(level: CefrLevel | undefined): RenderedPrompt | undefined {
+  return level ? renderPrompt('level-guidance', { level }) : undefined;
+}
+
+/**
+ * Input items carrying the level guidance for a hosted prompt
+ */
+function buildLevelInput(level: CefrLevel | undefined): OpenAI.Responses.ResponseInput {
+  const guidance = renderLevelGuidance(level);
+  return guidance ? [{ role: 'developer', content: guidance.text }] : [];
+}
+
 /**
  * Talk with specific topic using reusable OpenAI prompt
  * This function uses OpenAI's reusable prompt feature to generate conversation responses
  *
  * @param topic - The conversation topic/scenario
  * @param initial_message - The initial message in the conversation
- * @param options - Optional generation settings (store, include, etc.)
+ * @param options - Optional generation settings (store, include, learner level, etc.)
  * @returns Generated conversation response
  *
  * @example
@@ -110,25 +153,23 @@ export async function talkWithSpecificTopic(
     const {
       store = true,
       include,
+      level,
     } = options;
 
+    const prompt = resolveRemotePrompt('talk-with-topic', { topic, initial_message });
+
     logger.info('Generating response with specific topic using reusable prompt', {
+      ...promptLogFields(prompt),
       topic: topic.substring(0, 50) + '...',
       initial_message: initial_message.substring(0, 50) + '...',
+      level,
       store,
     });
 
-    // Build request parameters
+    // Build request parameters; the level guidance is added as a developer message
     const requestParams: ResponsesAPIPromptRequestParams = {
-      prompt: {
-        id: openaiConfig.prompts.talkWithSpecificTopic.id,
-        version: openaiConfig.prompts.talkWithSpecificTopic.version,
-        variables: {
-          topic: topic,
-          initial_message: initial_message
-        }
-      },
-      input: [],
+      prompt: prompt.prompt,
+      input: buildLevelInput(level),
       reasoning: {},
       store,
     };
@@ -142,6 +183,7 @@ export async function talkWithSpecificTopic(
     const response = await openai.responses.create(requestParams);
 
     logger.info('Topic conversation generated successfully', {
+      ...promptLogFields(prompt),
       id: response.id,
       model: response.model,
       status: response.status,
@@ -315,148 +357,386 @@ export async function generateText(
 }
 
 /**
- * Response suggestions interface
+ * Callbacks for streamed generations
  */
-export interface ResponseSuggestionsResult {
-  suggestions: string[];
+export interface StreamHandlers {
+  onDelta: (delta: string) => void;
+  signal?: AbortSignal;
 }
 
 /**
- * Generate response suggestions for conversation
- * This function generates structured suggestions and parses them reliably
+ * Maps a completed Responses API response to TextGenerationResponse
+ */
+function buildTextGenerationResponse(response: OpenAI.Responses.Response): TextGenerationResponse {
+  return {
+    text: extractTextFromResponse(response.output),
+    model: response.model,
+    usage: {
+      promptTokens: response.usage?.input_tokens || 0,
+      completionTokens: response.usage?.output_tokens || 0,
+      totalTokens: response.usage?.total_tokens || 0,
+      cachedTokens: response.usage?.input_tokens_details?.cached_tokens || 0,
+      reasoningTokens: response.usage?.output_tokens_details?.reasoning_tokens || 0,
+    },
+    status: response.status || 'completed',
+    id: response.id,
+    createdAt: response.created_at,
+    output: response.output,
+  };
+}
+
+/**
+ * Runs a Responses API request in streaming mode, forwarding text deltas as they arrive
+ * Aborting the signal cancels the upstream request
  *
- * @param topic - The conversation topic
- * @param conversationHistory - Recent conversation messages
- * @param options - Optional generation settings (store, include, etc.)
- * @returns Parsed array of 3 suggestions
+ * @param requestParams - The same parameters as the non-streaming request
+ * @param handlers - Delta callback and abort signal
+ * @param action - Description used in logs and error messages
+ * @returns The same metadata as a non-streaming call once the response completes
+ */
+async function streamResponse(
+  requestParams: StreamingRequestParams,
+  handlers: StreamHandlers,
+  action: string
+): Promise<TextGenerationResponse> {
+  try {
+    const params: StreamingRequestParams & { stream: true } = {
+      ...requestParams,
+      stream: true,
+    };
+    // The API accepts a reusable prompt in place of the model the SDK typings require
+    const stream = await openai.responses.create(
+      params as OpenAI.Responses.ResponseCreateParamsStreaming,
+      { signal: handlers.signal }
+    );
+
+    let completed: OpenAI.Responses.Response | undefined;
+
+    for await (const event of stream) {
+      if (event.type === 'response.output_text.delta') {
+        handlers.onDelta(event.delta);
+      } else if (event.type === 'response.completed' || event.type === 'response.incomplete') {
+        completed = event.response;
+      } else if (event.type === 'response.failed') {
+        throw new Error(event.response.error?.message || 'Response failed');
+      } else if (event.type === 'error') {
+        throw new Error(event.message);
+      }
+    }
+
+    if (!completed) {
+      throw new Error('Stream ended before the response completed');
+    }
+
+    logger.info(`Streamed ${action} successfully`, {
+      id: completed.id,
+      model: completed.model,
+      status: completed.status,
+      usage: completed.usage,
+    });
+
+    return buildTextGenerationResponse(completed);
+  } catch (error) {
+    if (handlers.signal?.aborted) {
+      logger.info(`Streaming ${action} aborted by client`);
+      throw error;
+    }
+
+    logger.error(`Error streaming ${action}`, {
+      error:
+        error instanceof Error
+          ? {
+              message: error.message,
+              name: error.name,
+              stack: error.stack,
+            }
+          : error,
+    });
+
+    if (error instanceof OpenAI.APIError) {
+      throw new AppError(
+        ErrorCodes.OPENAI_API_ERROR,
+        `OpenAI API Error: ${error.message}`,
+        typeof error.status === 'number' ? error.status : HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+
+    throw new AppError(
+      ErrorCodes.INTERNAL_SERVER_ERROR,
+      `Failed to stream ${action}: ${error instanceof Error ? error.message : 'unknown error'}`,
+      HttpStatus.INTERNAL_SERVER_ERROR
+    );
+  }
+}
+
+/**
+ * Streams a topic conversation response, see talkWithSpecificTopic
  *
- * @example
- * ```typescript
- * const result = await generateResponseSuggestions(
- *   "Job interview",
- *   "Teacher: Tell me about yourself.\nUser: I am a software engineer."
- * );
- * console.log(result.suggestions); // ["I have 5 years...", "I specialize in...", "I'm passionate about..."]
- * ```
+ * @param topic - The conversation topic/scenario
+ * @param initial_message - The initial message in the conversation
+ * @param handlers - Delta callback and abort signal
+ * @param options - Optional generation settings (store, include, learner level, etc.)
+ * @returns Generated conversation response once streaming completes
  */
-export async function generateResponseSuggestions(
+export async function streamTalkWithSpecificTopic(
   topic: string,
-  conversationHistory: string,
+  initial_message: string,
+  handlers: StreamHandlers,
   options: TextGenerationOptions = {}
-): Promise<ResponseSuggestionsResult> {
-  try {
-    const prompt = `Based on the following conversation topic and history, generate exactly 3 helpful response suggestions that the user could say next.
+): Promise<TextGenerationResponse> {
+  const { store = true, include, level } = options;
+  const prompt = resolveRemotePrompt('talk-with-topic', { topic, initial_message });
+
+  logger.info('Streaming response with specific topic using reusable prompt', {
+    ...promptLogFields(prompt),
+    topic: topic.substring(0, 50) + '...',
+    initial_message: initial_message.substring(0, 50) + '...',
+    level,
+    store,
+  });
+
+  return streamResponse(
+    {
+      prompt: prompt.prompt,
+      input: buildLevelInput(level),
+      reasoning: {},
+      store,
+      ...(include && include.length > 0 && { include }),
+    },
+    handlers,
+    'topic conversation'
+  );
+}
 
-Topic: ${topic}
+/**
+ * Streams text generated from a simple prompt, see generateText
+ *
+ * @param prompt - The prompt for text generation
+ * @param handlers - Delta callback and abort signal
+ * @param options - Optional generation settings (store, include, etc.)
+ * @returns Generated text response once streaming completes
+ */
+export async function streamText(
+  prompt: string,
+  handlers: StreamHandlers,
+  options: TextGenerationOptions = {}
+): Promise<TextGenerationResponse> {
+  const { store = true, include } = options;
 
-Conversation History:
-${conversationHistory}
+  logger.info('Streaming text response', {
+    prompt: prompt.substring(0, 50) + '...',
+    store,
+  });
 
-IMPORTANT: Your response must be a valid JSON object with this exact structure:
-{
-  "suggestions": [
-    "First suggestion as a complete, natural sentence",
-    "Second suggestion as a complete, natural sentence",
-    "Third suggestion as a complete, natural sentence"
-  ]
+  return streamResponse(
+    {
+      model: openaiConfig.gpt.model,
+      input: prompt,
+      store,
+      ...(include && include.length > 0 && { include }),
+    },
+    handlers,
+    'text'
+  );
 }
 
-Each suggestion should be relevant, helpful, conversational, and different from each other. Provide ONLY the JSON object, no other text.`;
-
-    logger.info('Generating response suggestions', {
-      topicLength: topic.length,
-      historyLength: conversationHistory.length,
-    });
+/**
+ * Difficulty of a suggested reply
+ */
+export type SuggestionDifficulty = 'simple' | 'natural' | 'advanced';
 
-    const response = await generateText(prompt, { ...options, store: false });
-
-    // Parse JSON response
-    let parsedResponse: ResponseSuggestionsResult;
-    try {
-      // Clean the text - remove markdown code blocks if present
-      let cleanText = response.text.trim();
-      if (cleanText.startsWith('```json')) {
-        cleanText = cleanText.replace(/^```json\s*/, '').replace(/\s*```$/, '');
-      } else if (cleanText.startsWith('```')) {
-        cleanText = cleanText.replace(/^```\s*/, '').replace(/\s*```$/, '');
-      }
+/**
+ * A phrase worth learning, with its character offsets in the suggestion text
+ */
+export interface SuggestionKeyPhrase {
+  phrase: string;
+  start: number;
+  end: number;
+}
 
-      parsedResponse = JSON.parse(cleanText);
+/**
+ * One suggested reply
+ */
+export interface ResponseSuggestion {
+  text: string;
+  difficulty: SuggestionDifficulty;
+  explanation: string;
+  keyPhrases: SuggestionKeyPhrase[];
+  translation?: string;
+}
 
-      // Validate structure
-      if (!parsedResponse.suggestions || !Array.isArray(parsedResponse.suggestions)) {
-        throw new Error('Invalid response structure: missing suggestions array');
-      }
+/**
+ * Response suggestions interface
+ */
+export interface ResponseSuggestionsResult {
+  suggestions: ResponseSuggestion[];
+  translationLanguage?: string;
+}
 
-      // Ensure we have exactly 3 suggestions
-      if (parsedResponse.suggestions.length < 3) {
-        throw new Error(`Expected 3 suggestions, got ${parsedResponse.suggestions.length}`);
-      }
+/**
+ * Options for generateResponseSuggestions
+ */
+export interface ResponseSuggestionsOptions extends TextGenerationOptions {
+  /** Number of suggestions, 1-5 (default 3) */
+  count?: number;
+  /** Language code from SUPPORTED_LANGUAGES to translate each suggestion into */
+  nativeLanguage?: string;
+}
 
-      // Take only first 3 suggestions
-      parsedResponse.suggestions = parsedResponse.suggestions
-        .slice(0, 3)
-        .map(s => s.trim())
-        .filter(s => s.length > 0);
+export const MIN_SUGGESTIONS = 1;
+export const MAX_SUGGESTIONS = 5;
+const DEFAULT_SUGGESTIONS = 3;
 
-      if (parsedResponse.suggestions.length < 3) {
-        throw new Error('Not enough valid suggestions after filtering');
+/**
+ * Builds the expected shape of the suggestions output
+ * Key phrases must be copied from the text so they can be highlighted, and a
+ * translation is required exactly when one was requested
+ */
+function buildSuggestionsSchema(count: number, withTranslation: boolean) {
+  const suggestion = z
+    .object({
+      text: z.string().trim().min(1),
+      difficulty: z.enum(['simple', 'natural', 'advanced']),
+      explanation: z.string().trim().min(1),
+      keyPhrases: z.array(z.string().trim().min(1)).max(3),
+      translation: z.string().trim().min(1).nullable(),
+    })
+    .superRefine((value, ctx) => {
+      const text = value.text.toLowerCase();
+      for (const phrase of value.keyPhrases) {
+        if (!text.includes(phrase.toLowerCase())) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ['keyPhrases'],
+            message: `Key phrase "${phrase}" does not appear in the text`,
+          });
+        }
       }
+      if (withTranslation && value.translation === null) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['translation'],
+          message: 'Translation is required',
+        });
+      }
+    });
 
-    } catch (parseError) {
-      logger.error('Failed to parse response suggestions', {
-        error: parseError instanceof Error ? parseError.message : 'Unknown error',
-        responseText: response.text.substring(0, 200),
-      });
+  return z.object({ suggestions: z.array(suggestion).length(count) });
+}
 
-      // Fallback: try to split by newlines as last resort
-      const suggestions = response.text
-        .split('\n')
-        .map(s => s.trim())
-        .filter(s => s.length > 0 && !s.startsWith('{') && !s.startsWith('['))
-        .slice(0, 3);
-
-      if (suggestions.length >= 3) {
-        logger.warn('Used fallback parsing for suggestions');
-        parsedResponse = { suggestions: suggestions.slice(0, 3) };
-      } else {
-        throw new AppError(
-          ErrorCodes.INTERNAL_SERVER_ERROR,
-          'Failed to parse response suggestions from LLM output',
-          HttpStatus.INTERNAL_SERVER_ERROR
-        );
-      }
-    }
+/**
+ * Formats turns as the transcript shown to the model
+ */
+function formatConversationHistory(turns: ConversationTurn[]): string {
+  return turns
+    .map((turn) => `${turn.role === 'assistant' ? 'Partner' : 'Learner'}: ${turn.text}`)
+    .join('\n');
+}
 
-    logger.info('Response suggestions generated successfully', {
-      count: parsedResponse.suggestions.length,
-    });
+/**
+ * Locates each key phrase in the suggestion text for highlighting
+ */
+function locateKeyPhrases(text: string, phrases: string[]): SuggestionKeyPhrase[] {
+  const lower = text.toLowerCase();
+
+  return phrases.flatMap((phrase) => {
+    const start = lower.indexOf(phrase.toLowerCase());
+    return start === -1
+      ? []
+      : [{ phrase: text.slice(start, start + phrase.length), start, end: start + phrase.length }];
+  });
+}
 
-    return parsedResponse;
+/**
+ * Generate response suggestions for conversation
+ * The output is requested as JSON-schema structured output and validated, see generateStructured
+ *
+ * @param topic - The conversation topic
+ * @param conversationHistory - Turns so far, oldest first
+ * @param options - Number of suggestions, translation language, learner level and generation settings
+ * @returns Suggestions tagged with difficulty, explanation, key phrases and optional translation
+ * @throws {AppError} VALIDATION_ERROR for an unsupported count or language,
+ *   STRUCTURED_OUTPUT_INVALID if the model does not return valid suggestions
+ *
+ * @example
+ * ```typescript
+ * const result = await generateResponseSuggestions(
+ *   "Job interview",
+ *   [
+ *     { role: 'assistant', text: 'Tell me about yourself.' },
+ *     { role: 'user', text: 'I am a software engineer.' },
+ *   ],
+ *   { count: 3, nativeLanguage: 'ja' }
+ * );
+ * console.log(result.suggestions[0]); // { text: "I have 5 years...", difficulty: 'natural', ... }
+ * ```
+ */
+export async function generateResponseSuggestions(
+  topic: string,
+  conversationHistory: ConversationTurn[],
+  options: ResponseSuggestionsOptions = {}
+): Promise<ResponseSuggestionsResult> {
+  const { count = DEFAULT_SUGGESTIONS, nativeLanguage, level } = options;
 
-  } catch (error) {
-    logger.error('Error generating response suggestions', {
-      error: error instanceof Error ? {
-        message: error.message,
-        name: error.name,
-        stack: error.stack,
-      } : error,
-    });
+  if (!Number.isInteger(count) || count < MIN_SUGGESTIONS || count > MAX_SUGGESTIONS) {
+    throw new AppError(
+      ErrorCodes.VALIDATION_ERROR,
+      `Suggestion count must be between ${MIN_SUGGESTIONS} and ${MAX_SUGGESTIONS}`,
+      HttpStatus.BAD_REQUEST
+    );
+  }
 
-    if (error instanceof AppError) {
-      throw error;
-    }
+  const languageName = nativeLanguage ? getLanguageName(nativeLanguage) : undefined;
 
+  if (nativeLanguage && !languageName) {
     throw new AppError(
-      ErrorCodes.INTERNAL_SERVER_ERROR,
-      'Failed to generate response suggestions',
-      HttpStatus.INTERNAL_SERVER_ERROR
+      ErrorCodes.VALIDATION_ERROR,
+      `Unsupported native language: ${nativeLanguage}`,
+      HttpStatus.BAD_REQUEST
     );
   }
+
+  const prompt = renderPrompt('response-suggestions', {
+    topic,
+    conversationHistory: formatConversationHistory(conversationHistory),
+    count: String(count),
+    translationLanguage: languageName ?? 'none',
+  });
+
+  logger.info('Generating response suggestions', {
+    ...promptLogFields(prompt),
+    topicLength: topic.length,
+    turns: conversationHistory.length,
+    count,
+    nativeLanguage,
+    level,
+  });
+
+  const { data } = await generateStructured({
+    schema: buildSuggestionsSchema(count, !!languageName),
+    schemaName: 'response_suggestions',
+    prompt,
+    instructions: renderLevelGuidance(level)?.text,
+    store: options.store ?? false,
+  });
+
+  return {
+    suggestions: data.suggestions.map((suggestion) => ({
+      text: suggestion.text,
+      difficulty: suggestion.difficulty,
+      explanation: suggestion.explanation,
+      keyPhrases: locateKeyPhrases(suggestion.text, suggestion.keyPhrases),
+      ...(languageName && suggestion.translation && { translation: suggestion.translation }),
+    })),
+    ...(nativeLanguage && { translationLanguage: nativeLanguage }),
+  };
 }
 
 export default {
   talkWithSpecificTopic,
   generateText,
+  streamTalkWithSpecificTopic,
+  streamText,
   generateResponseSuggestions,
+  renderLevelGuidance,
 };
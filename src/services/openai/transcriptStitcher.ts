@@ -0,0 +1,241 @@
+import { TranscriptionResponse } from './speechToText.service';
+
+type Word = NonNullable<TranscriptionResponse['words']>[number];
+type Segment = NonNullable<TranscriptionResponse['segments']>[number];
+
+/**
+ * Transcription of one chunk of a longer recording
+ */
+export interface TranscriptPart {
+  offsetSeconds: number;
+  durationSeconds: number;
+  transcription: TranscriptionResponse;
+}
+
+/**
+ * Time window of a part whose words are kept (absolute seconds, start inclusive)
+ */
+interface KeepWindow {
+  from: number;
+  until: number;
+}
+
+/**
+ * Shortest run of matching words accepted as the same speech heard in two chunks
+ */
+const MIN_OVERLAP_MATCH = 2;
+
+/**
+ * Whisper "seek" positions are counted in 10 ms frames
+ */
+const SEEK_FRAMES_PER_SECOND = 100;
+
+const normalize = (word: string): string => word.toLowerCase().replace(/[^a-z0-9']/g, '');
+
+/**
+ * Moves a part's words and segments onto the timeline of the full recording
+ */
+function shiftPart(part: TranscriptPart): { words: Word[]; segments: Segment[] } {
+  const offset = part.offsetSeconds;
+
+  return {
+    words: (part.transcription.words ?? []).map((word) => ({
+      ...word,
+      start: word.start + offset,
+      end: word.end + offset,
+    })),
+    segments: (part.transcription.segments ?? []).map((segment) => ({
+      ...segment,
+      start: segment.start + offset,
+      end: segment.end + offset,
+      seek: segment.seek + Math.round(offset * SEEK_FRAMES_PER_SECOND),
+    })),
+  };
+}
+
+/**
+ * Finds the longest run of identical words in two word lists
+ * @returns Start indexes in both lists and the run length
+ */
+function longestCommonRun(
+  a: Word[],
+  b: Word[]
+): { aIndex: number; bIndex: number; length: number } {
+  const aTokens = a.map((word) => normalize(word.word));
+  const bTokens = b.map((word) => normalize(word.word));
+  let best = { aIndex: 0, bIndex: 0, length: 0 };
+  let previous: number[] = new Array<number>(bTokens.length + 1).fill(0);
+
+  for (let i = 1; i <= aTokens.length; i++) {
+    const current: number[] = new Array<number>(bTokens.length + 1).fill(0);
+
+    for (let j = 1; j <= bTokens.length; j++) {
+      const token = aTokens[i - 1];
+      if (token && token === bTokens[j - 1]) {
+        const length = (previous[j - 1] ?? 0) + 1;
+        current[j] = length;
+
+        if (length > best.length) {
+          best = { aIndex: i - length, bIndex: j - length, length };
+        }
+      }
+    }
+
+    previous = current;
+  }
+
+  return best;
+}
+
+/**
+ * Decides where the transcript switches from one part to the next
+ *
+ * Words heard in both chunks are matched, and the switch happens in the middle
+ * of the matching run so that neither chunk contributes its edge words, which
+ * are the least reliable. Without a match the middle of the overlap is used.
+ *
+ * @returns Exclusive end of the earlier part and inclusive start of the later part
+ */
+function findCut(
+  earlier: { words: Word[]; part: TranscriptPart },
+  later: { words: Word[]; part: TranscriptPart }
+): { earlierUntil: number; laterFrom: number } {
+  const overlapStart = later.part.offsetSeconds;
+  const overlapEnd = earlier.part.offsetSeconds + earlier.part.durationSeconds;
+
+  const tail = earlier.words.filter((word) => word.end > overlapStart);
+  const head = later.words.filter((word) => word.start < overlapEnd);
+  const match = longestCommonRun(tail, head);
+
+  if (match.length >= MIN_OVERLAP_MATCH) {
+    const middle = Math.floor(match.length / 2);
+    const earlierWord = tail[match.aIndex + middle];
+    const laterWord = head[match.bIndex + middle];
+
+    if (earlierWord && laterWord) {
+      return { earlierUntil: earlierWord.start, laterFrom: laterWord.start };
+    }
+  }
+
+  const midpoint = (overlapStart + overlapEnd) / 2;
+  return { earlierUntil: midpoint, laterFrom: midpoint };
+}
+
+/**
+ * Keeps the part of a segment that falls inside the window
+ * Text is trimmed by the share of the segment's words that fall outside it
+ */
+function trimSegment(segment: Segment, words: Word[], window: KeepWindow): Segment | null {
+  if (segment.end <= window.from || segment.start >= window.until) {
+    return null;
+  }
+
+  if (segment.start >= window.from && segment.end <= window.until) {
+    return segment;
+  }
+
+  const segmentWords = words.filter(
+    (word) => word.start >= segment.start && word.start < segment.end
+  );
+  const tokens = segment.text.trim().split(/\s+/);
+
+  if (segmentWords.length === 0) {
+    // No word timings: keep the segment where most of it lies
+    const middle = (segment.start + segment.end) / 2;
+    return middle >= window.from && middle < window.until ? segment : null;
+  }
+
+  const scale = tokens.length / segmentWords.length;
+  const before = segmentWords.filter((word) => word.start < window.from).length;
+  const inside = segmentWords.filter(
+    (word) => word.start >= window.from && word.start < window.until
+  ).length;
+
+  const first = Math.round(before * scale);
+  const last = Math.round((before + inside) * scale);
+  const text = tokens.slice(first, last).join(' ');
+
+  if (!text) {
+    return null;
+  }
+
+  return {
+    ...segment,
+    start: Math.max(segment.start, window.from),
+    end: Math.min(segment.end, window.until),
+    text: ` ${text}`,
+  };
+}
+
+/**
+ * Joins the transcriptions of overlapping chunks into one transcription
+ *
+ * Word and segment timestamps are moved onto the timeline of the full
+ * recording, and speech heard in two consecutive chunks is kept only once.
+ *
+ * @param parts - Verbose transcriptions of the chunks, in recording order
+ * @returns One transcription in the same shape as a single API response
+ *
+ * @example
+ * ```typescript
+ * const parts = await Promise.all(chunks.map(async (chunk) => ({
+ *   offsetSeconds: chunk.offsetSeconds,
+ *   durationSeconds: chunk.durationSeconds,
+ *   transcription: await transcribeAudioWithTimestamps(chunk.buffer),
+ * })));
+ * const transcription = stitchTranscriptions(parts);
+ * ```
+ */
+export function stitchTranscriptions(parts: TranscriptPart[]): TranscriptionResponse {
+  const shifted = parts.map((part) => ({ part, ...shiftPart(part) }));
+  const windows: KeepWindow[] = shifted.map(() => ({ from: -Infinity, until: Infinity }));
+
+  for (let i = 1; i < shifted.length; i++) {
+    const earlier = shifted[i - 1];
+    const later = shifted[i];
+    const earlierWindow = windows[i - 1];
+    const laterWindow = windows[i];
+
+    if (earlier && later && earlierWindow && laterWindow) {
+      const cut = findCut(earlier, later);
+      earlierWindow.until = cut.earlierUntil;
+      laterWindow.from = cut.laterFrom;
+    }
+  }
+
+  const words: Word[] = [];
+  const segments: Segment[] = [];
+  const texts: string[] = [];
+
+  shifted.forEach(({ part, words: partWords, segments: partSegments }, index) => {
+    const window = windows[index] ?? { from: -Infinity, until: Infinity };
+
+    words.push(
+      ...partWords.filter((word) => word.start >= window.from && word.start < window.until)
+    );
+
+    if (partSegments.length === 0) {
+      // Without segments the part's text can only be joined whole
+      texts.push(part.transcription.text.trim());
+      return;
+    }
+
+    for (const segment of partSegments) {
+      const trimmed = trimSegment(segment, partWords, window);
+      if (trimmed) {
+        segments.push({ ...trimmed, id: segments.length });
+        texts.push(trimmed.text.trim());
+      }
+    }
+  });
+
+  const last = parts[parts.length - 1];
+
+  return {
+    text: texts.filter((partText) => partText.length > 0).join(' '),
+    language: parts[0]?.transcription.language,
+    duration: last ? last.offsetSeconds + last.durationSeconds : 0,
+    words,
+    segments,
+  };
+}
@@ -1,9 +1,17 @@
 import OpenAI from 'openai';
+import type { CefrLevel } from '@prisma/client';
+import { z } from 'zod';
 import { openaiConfig } from '../../config/openai';
+import { languageConfig } from '../../config/languages';
 import { logger } from '../../shared/utils/logger';
 import { AppError } from '../../shared/utils/errors';
 import { ErrorCodes } from '../../shared/constants/errorCodes';
 import { HttpStatus } from '../../shared/constants/enums';
+import { StreamHandlers } from './textGeneration.service';
+import { PromptName, promptLogFields, RenderedPrompt, renderPrompt } from './promptRegistry';
+import { generateStructured } from './structuredOutput.service';
+import { getLanguageName, listLanguages, normalizeLanguageTag } from '../language';
+import { CacheKeyParts } from '../cache/responseCache';
 
 // Validate API key
 if (!openaiConfig.apiKey || openaiConfig.apiKey === 'your_openai_api_key_here') {
@@ -19,6 +27,22 @@ const openai = new OpenAI({
 
 logger.info('OpenAI translation client initialized');
 
+/**
+ * Language detected in the text to translate
+ */
+export interface LanguageDetection {
+  language: string; // 'en', a code from SUPPORTED_LANGUAGES, or 'other'
+  confidence: number; // 0-1
+}
+
+/**
+ * An English translation at a given formality
+ */
+export interface TranslationAlternative {
+  formality: 'formal' | 'neutral' | 'casual';
+  text: string;
+}
+
 /**
  * Translation response interface
  */
@@ -26,6 +50,8 @@ export interface TranslationResponse {
   translatedText: string;
   sourceLanguage: string;
   targetLanguage: string;
+  detection?: LanguageDetection; // Set when the source language was detected
+  alternatives?: TranslationAlternative[]; // Set when requested for translations into English
   model: string;
   usage: {
     promptTokens: number;
@@ -35,30 +61,328 @@ export interface TranslationResponse {
 }
 
 /**
- * Language code to full name mapping
+ * Every translation goes from or into English
  */
-const LANGUAGE_NAMES: Record<string, string> = {
-  'zh-CN': 'Simplified Chinese',
-  'zh-TW': 'Traditional Chinese',
-  'ja': 'Japanese',
-  'ko': 'Korean',
-  'es': 'Spanish',
-  'fr': 'French',
-  'de': 'German',
-};
+export const ENGLISH_LANGUAGE = languageConfig.english;
+
+/**
+ * Supported languages for translation besides English
+ * Derived from the enabled languages of the language registry
+ */
+export const SUPPORTED_LANGUAGES = listLanguages()
+  .map((language) => language.code)
+  .filter((code) => code !== ENGLISH_LANGUAGE);
+
+/**
+ * Target language for English text when none is given
+ */
+export const DEFAULT_TARGET_LANGUAGE = languageConfig.defaultTargetLanguage;
+
+/**
+ * Templates translateText renders, e.g. for response cache keys
+ */
+export const TRANSLATION_PROMPTS: readonly PromptName[] = [
+  'translation',
+  'translation-level',
+  'level-guidance',
+  'language-detection',
+  'translation-alternatives',
+];
+
+/**
+ * Translation options
+ */
+export interface TranslationOptions {
+  /** Language of the text; detected when omitted */
+  sourceLanguage?: string;
+  /** Learner's CEFR level; lower levels get translations closer to the English wording */
+  level?: CefrLevel;
+  /** For translations into English, also return phrasings at different formality levels */
+  alternatives?: boolean;
+}
 
 /**
- * Supported languages for translation
- * Derived from LANGUAGE_NAMES to ensure consistency
+ * Source language implied when none is given: a non-English target implies English, while
+ * with an English target or none the source is left to detection
  */
-export const SUPPORTED_LANGUAGES = Object.keys(LANGUAGE_NAMES) as Array<keyof typeof LANGUAGE_NAMES>;
+export function impliedSourceLanguage(
+  sourceLanguage: string | undefined,
+  targetLanguage: string | undefined
+): string | undefined {
+  if (sourceLanguage !== undefined || targetLanguage === undefined) {
+    return sourceLanguage;
+  }
+  return targetLanguage === ENGLISH_LANGUAGE ? undefined : ENGLISH_LANGUAGE;
+}
 
 /**
- * Translate text from English to target language using OpenAI
+ * Builds the response cache key of a translation
+ * Single and batch translations share their entries, so the batch template is part of the key,
+ * and the source is keyed as it is resolved, see impliedSourceLanguage
  *
  * @param text - The text to translate
- * @param targetLanguage - The target language code (e.g., 'zh-TW', 'zh-CN', 'ja', etc.)
- * @returns Translation result
+ * @param targetLanguage - Registry code of the target language, if given
+ * @param options - Source language code, level and alternatives, as passed to translateText
+ */
+export function buildTranslationCacheKey(
+  text: string,
+  targetLanguage: string | undefined,
+  options: TranslationOptions = {}
+): CacheKeyParts {
+  return {
+    operation: 'translation',
+    prompts: [...TRANSLATION_PROMPTS, 'batch-translation'],
+    input: {
+      text,
+      sourceLanguage: impliedSourceLanguage(options.sourceLanguage, targetLanguage),
+      targetLanguage,
+      level: options.level,
+      alternatives: options.alternatives ?? false,
+    },
+  };
+}
+
+/**
+ * Source and target of a translation, with the detection that chose the source
+ */
+interface TranslationDirection {
+  sourceLanguage: string;
+  targetLanguage: string;
+  detection?: LanguageDetection;
+  usage: TranslationResponse['usage'];
+}
+
+const emptyUsage = (): TranslationResponse['usage'] => ({
+  promptTokens: 0,
+  completionTokens: 0,
+  totalTokens: 0,
+});
+
+function addUsage(
+  total: TranslationResponse['usage'],
+  usage: TranslationResponse['usage']
+): TranslationResponse['usage'] {
+  return {
+    promptTokens: total.promptTokens + usage.promptTokens,
+    completionTokens: total.completionTokens + usage.completionTokens,
+    totalTokens: total.totalTokens + usage.totalTokens,
+  };
+}
+
+const detectionSchema = z.object({
+  language: z.enum([ENGLISH_LANGUAGE, ...SUPPORTED_LANGUAGES, 'other'] as [string, ...string[]]),
+  confidence: z.number().transform((value) => Math.min(1, Math.max(0, value))),
+});
+
+const alternativesSchema = z.object({
+  alternatives: z
+    .array(
+      z.object({
+        formality: z.enum(['formal', 'neutral', 'casual']),
+        text: z.string().trim().min(1),
+      })
+    )
+    .min(2)
+    .max(3),
+});
+
+/**
+ * Detects which supported language a text is written in
+ *
+ * @param text - The text to inspect
+ * @returns The language code ('other' if it is none of the supported languages), a 0-1
+ *   confidence and the token usage
+ * @throws {AppError} STRUCTURED_OUTPUT_INVALID if the model does not return a valid detection
+ */
+export async function detectLanguage(
+  text: string
+): Promise<LanguageDetection & { usage: TranslationResponse['usage'] }> {
+  const languages = listLanguages()
+    .map((language) => `${language.code} (${language.name})`)
+    .join(', ');
+
+  const { data, usage } = await generateStructured({
+    schema: detectionSchema,
+    schemaName: 'language_detection',
+    prompt: renderPrompt('language-detection', { text, languages }),
+  });
+
+  logger.info('Language detected', data);
+
+  return { ...data, usage };
+}
+
+/**
+ * Normalizes a language tag given with a translation request to its registry code
+ * @throws {AppError} VALIDATION_ERROR for tags that match no enabled language
+ */
+function toSupportedLanguage(languageTag: string, role: 'source' | 'target'): string {
+  const languageCode = normalizeLanguageTag(languageTag);
+
+  if (!languageCode) {
+    throw new AppError(
+      ErrorCodes.VALIDATION_ERROR,
+      `Unsupported ${role} language: ${languageTag}`,
+      HttpStatus.BAD_REQUEST
+    );
+  }
+
+  return languageCode;
+}
+
+/**
+ * Works out which way to translate, detecting the source language when it is not given
+ * English goes into the target language (DEFAULT_TARGET_LANGUAGE by default); any other
+ * supported language goes into English. A non-English target implies an English source, so
+ * the text is only detected when the target is English or not given. Given tags are
+ * normalized to registry codes, e.g. pt-BR to pt
+ *
+ * @throws {AppError} VALIDATION_ERROR for unsupported or undetectable languages, or when
+ *   neither side is English
+ */
+async function resolveDirection(
+  text: string,
+  targetTag: string | undefined,
+  sourceTag: string | undefined
+): Promise<TranslationDirection> {
+  const targetLanguage =
+    targetTag === undefined ? undefined : toSupportedLanguage(targetTag, 'target');
+  const sourceLanguage = impliedSourceLanguage(
+    sourceTag === undefined ? undefined : toSupportedLanguage(sourceTag, 'source'),
+    targetLanguage
+  );
+
+  const detected = sourceLanguage === undefined ? await detectLanguage(text) : undefined;
+  const source = sourceLanguage ?? detected?.language ?? ENGLISH_LANGUAGE;
+
+  if (source === 'other') {
+    throw new AppError(
+      ErrorCodes.VALIDATION_ERROR,
+      'Could not detect a supported source language; specify sourceLanguage',
+      HttpStatus.BAD_REQUEST
+    );
+  }
+
+  const target =
+    targetLanguage ?? (source === ENGLISH_LANGUAGE ? DEFAULT_TARGET_LANGUAGE : ENGLISH_LANGUAGE);
+
+  if ((source === ENGLISH_LANGUAGE) === (target === ENGLISH_LANGUAGE)) {
+    throw new AppError(
+      ErrorCodes.VALIDATION_ERROR,
+      detected
+        ? `Translations go from or into English, but the text was detected as ${getLanguageName(source)} and the target is ${getLanguageName(target)}`
+        : 'Translations go from or into English',
+      HttpStatus.BAD_REQUEST
+    );
+  }
+
+  return {
+    sourceLanguage: source,
+    targetLanguage: target,
+    detection: detected && { language: detected.language, confidence: detected.confidence },
+    usage: detected?.usage ?? emptyUsage(),
+  };
+}
+
+/**
+ * Renders the level guidance of a translation into the target language
+ * Translations into English follow the general level guidance; translations from English
+ * are adapted to how the learner compares them with the original
+ */
+export function renderTranslationLevelGuidance(
+  targetLanguage: string,
+  level: CefrLevel
+): RenderedPrompt {
+  return targetLanguage === ENGLISH_LANGUAGE
+    ? renderPrompt('level-guidance', { level })
+    : renderPrompt('translation-level', { level });
+}
+
+/**
+ * Renders the system message for a translation, adapted to the learner's level when known
+ */
+function buildTranslationPrompt(
+  direction: TranslationDirection,
+  level: CefrLevel | undefined
+): RenderedPrompt {
+  const prompt = renderPrompt('translation', {
+    sourceLanguage: getLanguageName(direction.sourceLanguage) ?? direction.sourceLanguage,
+    targetLanguage: getLanguageName(direction.targetLanguage) ?? direction.targetLanguage,
+  });
+
+  if (!level) {
+    return prompt;
+  }
+
+  const guidance = renderTranslationLevelGuidance(direction.targetLanguage, level);
+
+  return {
+    ...prompt,
+    text: `${prompt.text}\n\n${guidance.text}`,
+  };
+}
+
+/**
+ * Generates English phrasings of a text at different formality levels
+ */
+async function generateAlternatives(
+  text: string,
+  direction: TranslationDirection,
+  translatedText: string
+): Promise<{ alternatives: TranslationAlternative[]; usage: TranslationResponse['usage'] }> {
+  const { data, usage } = await generateStructured({
+    schema: alternativesSchema,
+    schemaName: 'translation_alternatives',
+    prompt: renderPrompt('translation-alternatives', {
+      sourceLanguage: getLanguageName(direction.sourceLanguage) ?? direction.sourceLanguage,
+      text,
+      translation: translatedText,
+    }),
+  });
+
+  return { alternatives: data.alternatives, usage };
+}
+
+/**
+ * Adds the requested alternatives and the detection to a finished translation
+ */
+async function completeTranslation(
+  text: string,
+  direction: TranslationDirection,
+  translation: Pick<TranslationResponse, 'translatedText' | 'model' | 'usage'>,
+  options: TranslationOptions
+): Promise<TranslationResponse> {
+  let usage = addUsage(direction.usage, translation.usage);
+  let alternatives: TranslationAlternative[] | undefined;
+
+  if (options.alternatives && direction.targetLanguage === ENGLISH_LANGUAGE) {
+    const generated = await generateAlternatives(text, direction, translation.translatedText);
+    alternatives = generated.alternatives;
+    usage = addUsage(usage, generated.usage);
+  }
+
+  return {
+    translatedText: translation.translatedText,
+    sourceLanguage: direction.sourceLanguage,
+    targetLanguage: direction.targetLanguage,
+    ...(direction.detection && { detection: direction.detection }),
+    ...(alternatives && { alternatives }),
+    model: translation.model,
+    usage,
+  };
+}
+
+/**
+ * Translate text between English and another supported language using OpenAI
+ * Without a source language, it is detected first: English text is translated into
+ * the target language, text in another language into English
+ *
+ * @param text - The text to translate
+ * @param targetLanguage - The target language tag (e.g., 'en', 'zh-TW', 'pt-BR'), normalized to
+ *   its registry code; defaults to DEFAULT_TARGET_LANGUAGE for English text and to English
+ *   otherwise
+ * @param options - Optional source language, learner level and formality alternatives
+ * @returns Translation result, with the detection when the source language was detected
  *
  * @example
  * ```typescript
@@ -66,26 +390,25 @@ export const SUPPORTED_LANGUAGES = Object.keys(LANGUAGE_NAMES) as Array<keyof ty
  *   "Hello, how are you?",
  *   "zh-TW"
  * );
+ * const reverse = await translateText('我想訂一張桌子', undefined, { alternatives: true });
  * ```
  */
 export async function translateText(
   text: string,
-  targetLanguage: string
+  targetLanguage?: string,
+  options: TranslationOptions = {}
 ): Promise<TranslationResponse> {
   try {
-    const targetLanguageName = LANGUAGE_NAMES[targetLanguage];
-
-    if (!targetLanguageName) {
-      throw new AppError(
-        ErrorCodes.VALIDATION_ERROR,
-        `Unsupported target language: ${targetLanguage}`,
-        HttpStatus.BAD_REQUEST
-      );
-    }
+    const direction = await resolveDirection(text, targetLanguage, options.sourceLanguage);
+    const prompt = buildTranslationPrompt(direction, options.level);
 
     logger.info('Translating text', {
+      ...promptLogFields(prompt),
       textLength: text.length,
-      targetLanguage,
+      sourceLanguage: direction.sourceLanguage,
+      targetLanguage: direction.targetLanguage,
+      detected: !!direction.detection,
+      level: options.level,
     });
 
     const completion = await openai.chat.completions.create({
@@ -93,7 +416,7 @@ export async function translateText(
       messages: [
         {
           role: 'system',
-          content: `You are a professional translator. Translate the given English text to ${targetLanguageName}. Only provide the translation without any additional explanation or commentary.`,
+          content: prompt.text,
         },
         {
           role: 'user',
@@ -114,22 +437,26 @@ export async function translateText(
     }
 
     logger.info('Translation completed successfully', {
+      ...promptLogFields(prompt),
       translatedTextLength: translatedText.length,
       model: completion.model,
       usage: completion.usage,
     });
 
-    return {
-      translatedText,
-      sourceLanguage: 'en',
-      targetLanguage,
-      model: completion.model,
-      usage: {
-        promptTokens: completion.usage?.prompt_tokens ?? 0,
-        completionTokens: completion.usage?.completion_tokens ?? 0,
-        totalTokens: completion.usage?.total_tokens ?? 0,
+    return await completeTranslation(
+      text,
+      direction,
+      {
+        translatedText,
+        model: completion.model,
+        usage: {
+          promptTokens: completion.usage?.prompt_tokens ?? 0,
+          completionTokens: completion.usage?.completion_tokens ?? 0,
+          totalTokens: completion.usage?.total_tokens ?? 0,
+        },
       },
-    };
+      options
+    );
   } catch (error) {
     logger.error('Error translating text', {
       error: error instanceof Error ? {
@@ -170,6 +497,141 @@ export async function translateText(
   }
 }
 
+/**
+ * Streams a translation, see translateText
+ * Detection runs before the first delta and alternatives after the last one; both are
+ * part of the final result. Aborting the signal cancels the upstream request
+ *
+ * @param text - The text to translate
+ * @param targetLanguage - The target language code (e.g., 'en', 'zh-TW', 'ja'), see translateText
+ * @param handlers - Delta callback and abort signal
+ * @param options - Optional source language, learner level and formality alternatives
+ * @returns Translation result once streaming completes
+ */
+export async function streamTranslateText(
+  text: string,
+  targetLanguage: string | undefined,
+  handlers: StreamHandlers,
+  options: TranslationOptions = {}
+): Promise<TranslationResponse> {
+  try {
+    const direction = await resolveDirection(text, targetLanguage, options.sourceLanguage);
+    const prompt = buildTranslationPrompt(direction, options.level);
+
+    logger.info('Streaming translation', {
+      ...promptLogFields(prompt),
+      textLength: text.length,
+      sourceLanguage: direction.sourceLanguage,
+      targetLanguage: direction.targetLanguage,
+      detected: !!direction.detection,
+      level: options.level,
+    });
+
+    const stream = await openai.chat.completions.create(
+      {
+        model: openaiConfig.gpt.model,
+        messages: [
+          { role: 'system', content: prompt.text },
+          { role: 'user', content: text },
+        ],
+        max_completion_tokens: openaiConfig.gpt.maxCompletionTokens,
+        stream: true,
+        // Usage arrives in a final chunk with no choices
+        stream_options: { include_usage: true },
+      },
+      { signal: handlers.signal }
+    );
+
+    let translatedText = '';
+    let model: string = openaiConfig.gpt.model;
+    let usage: OpenAI.CompletionUsage | undefined;
+
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+
+      if (delta) {
+        translatedText += delta;
+        handlers.onDelta(delta);
+      }
+
+      model = chunk.model || model;
+      usage = chunk.usage ?? usage;
+    }
+
+    translatedText = translatedText.trim();
+
+    if (!translatedText) {
+      throw new AppError(
+        ErrorCodes.OPENAI_API_ERROR,
+        'No translation received from OpenAI',
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+
+    logger.info('Streamed translation completed successfully', {
+      ...promptLogFields(prompt),
+      translatedTextLength: translatedText.length,
+      model,
+      usage,
+    });
+
+    return await completeTranslation(
+      text,
+      direction,
+      {
+        translatedText,
+        model,
+        usage: {
+          promptTokens: usage?.prompt_tokens ?? 0,
+          completionTokens: usage?.completion_tokens ?? 0,
+          totalTokens: usage?.total_tokens ?? 0,
+        },
+      },
+      options
+    );
+  } catch (error) {
+    if (handlers.signal?.aborted) {
+      logger.info('Streaming translation aborted by client');
+      throw error;
+    }
+
+    logger.error('Error streaming translation', {
+      error:
+        error instanceof Error
+          ? {
+              message: error.message,
+              name: error.name,
+              stack: error.stack,
+            }
+          : error,
+    });
+
+    if (error instanceof AppError) {
+      throw error;
+    } else if (error instanceof OpenAI.APIError) {
+      throw new AppError(
+        ErrorCodes.OPENAI_API_ERROR,
+        `OpenAI API Error: ${error.message}`,
+        typeof error.status === 'number' ? error.status : HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    } else if (error instanceof Error) {
+      throw new AppError(
+        ErrorCodes.INTERNAL_SERVER_ERROR,
+        `Failed to translate text: ${error.message}`,
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    } else {
+      throw new AppError(
+        ErrorCodes.INTERNAL_SERVER_ERROR,
+        'Failed to translate text',
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+}
+
 export default {
   translateText,
+  streamTranslateText,
+  detectLanguage,
 };
@@ -0,0 +1,90 @@
+import type { CefrLevel } from '@prisma/client';
+import { z } from 'zod';
+import { logger } from '../../shared/utils/logger';
+import { diffText } from '../../shared/utils/textDiff';
+import { GRAMMAR_ERROR_CATEGORIES, TurnCorrection } from '../../shared/types/domain.types';
+import { renderPrompt } from './promptRegistry';
+import { generateStructured } from './structuredOutput.service';
+import { renderLevelGuidance, TextGenerationResponse } from './textGeneration.service';
+
+/**
+ * Context shown to the model when the learner opened the conversation
+ */
+const NO_CONTEXT = '(the learner started the conversation)';
+
+/**
+ * A turn correction with the cost of producing it
+ */
+export interface TurnCorrectionResult extends TurnCorrection {
+  model: string;
+  usage: TextGenerationResponse['usage'];
+}
+
+const turnCorrectionSchema = z.object({
+  corrected: z.string().trim().min(1),
+  category: z.enum(GRAMMAR_ERROR_CATEGORIES).nullable(),
+  explanation: z.string().trim().min(1).nullable(),
+});
+
+/**
+ * Corrects one learner turn with as few edits as possible
+ * The model only supplies the corrected text, category and explanation; the changes are
+ * located by diffing the turn against the corrected text, so their offsets always match
+ *
+ * @param text - The learner's turn
+ * @param context - The partner turn the learner replied to, if any
+ * @param level - Learner's CEFR level, so the explanation matches it
+ * @returns The correction; without changes, category and explanation are null
+ * @throws {AppError} STRUCTURED_OUTPUT_INVALID if the model does not return a valid correction
+ *
+ * @example
+ * ```typescript
+ * const correction = await correctTurn('I go there yesterday', 'What did you do at the weekend?');
+ * console.log(correction.changes); // [{ start: 2, end: 4, original: 'go', replacement: 'went' }]
+ * ```
+ */
+export async function correctTurn(
+  text: string,
+  context?: string,
+  level?: CefrLevel
+): Promise<TurnCorrectionResult> {
+  const prompt = renderPrompt('turn-correction', { text, context: context ?? NO_CONTEXT });
+
+  logger.info('Correcting conversation turn', { textLength: text.length, level });
+
+  const { data, model, usage } = await generateStructured({
+    schema: turnCorrectionSchema,
+    schemaName: 'turn_correction',
+    prompt,
+    instructions: renderLevelGuidance(level)?.text,
+  });
+
+  const changes = diffText(text, data.corrected);
+
+  // A correction the diff cannot see (e.g. whitespace only) is no correction
+  if (changes.length === 0) {
+    return {
+      original: text,
+      corrected: text,
+      changes,
+      category: null,
+      explanation: null,
+      model,
+      usage,
+    };
+  }
+
+  return {
+    original: text,
+    corrected: data.corrected,
+    changes,
+    category: data.category ?? 'other',
+    explanation: data.explanation,
+    model,
+    usage,
+  };
+}
+
+export default {
+  correctTurn,
+};
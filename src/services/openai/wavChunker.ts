@@ -0,0 +1,180 @@
+/**
+ * WAV encodings made of fixed-size sample frames, which can be cut at any frame boundary
+ */
+const SPLITTABLE_WAV_FORMATS = new Set([
+  0x0001, // PCM
+  0x0003, // IEEE float
+  0xfffe, // WAVE_FORMAT_EXTENSIBLE
+]);
+
+const RIFF_HEADER_SIZE = 12;
+const CHUNK_HEADER_SIZE = 8;
+
+/**
+ * Layout of a WAV file
+ */
+export interface WavInfo {
+  channels: number;
+  sampleRate: number;
+  byteRate: number;
+  blockAlign: number;
+  bitsPerSample: number;
+  /** The complete "fmt " chunk, header included, reused verbatim for every piece */
+  fmtChunk: Buffer;
+  dataOffset: number;
+  dataLength: number;
+  durationSeconds: number;
+}
+
+/**
+ * A standalone WAV file cut from a longer recording
+ */
+export interface WavChunk {
+  buffer: Buffer;
+  /** Position of the chunk within the original recording (seconds) */
+  offsetSeconds: number;
+  durationSeconds: number;
+}
+
+/**
+ * Options for splitting a WAV file
+ */
+export interface WavSplitOptions {
+  maxChunkBytes: number;
+  overlapSeconds: number;
+}
+
+/**
+ * Reads the format and data location of an uncompressed WAV file
+ *
+ * @param data - The complete WAV file
+ * @returns Format details and the location of the sample data
+ * @throws {Error} If the file is not a WAV file with uncompressed samples
+ */
+export function parseWav(data: Buffer): WavInfo {
+  if (
+    data.length < RIFF_HEADER_SIZE ||
+    data.toString('latin1', 0, 4) !== 'RIFF' ||
+    data.toString('latin1', 8, 12) !== 'WAVE'
+  ) {
+    throw new Error('Not a WAV file');
+  }
+
+  let fmtChunk: Buffer | undefined;
+  let dataOffset: number | undefined;
+  let dataLength = 0;
+  let offset = RIFF_HEADER_SIZE;
+
+  while (offset + CHUNK_HEADER_SIZE <= data.length && dataOffset === undefined) {
+    const id = data.toString('latin1', offset, offset + 4);
+    const size = data.readUInt32LE(offset + 4);
+    const bodyOffset = offset + CHUNK_HEADER_SIZE;
+
+    if (id === 'fmt ') {
+      fmtChunk = data.subarray(offset, bodyOffset + size);
+    } else if (id === 'data') {
+      dataOffset = bodyOffset;
+      // Streaming recorders leave the size at 0 or 0xFFFFFFFF; the data then runs to the end
+      dataLength = size === 0 || bodyOffset + size > data.length ? data.length - bodyOffset : size;
+    }
+
+    // Chunks are padded to an even length
+    offset = bodyOffset + size + (size % 2);
+  }
+
+  if (!fmtChunk || fmtChunk.length < CHUNK_HEADER_SIZE + 16 || dataOffset === undefined) {
+    throw new Error('WAV file is missing its fmt or data chunk');
+  }
+
+  const audioFormat = fmtChunk.readUInt16LE(8);
+  const channels = fmtChunk.readUInt16LE(10);
+  const sampleRate = fmtChunk.readUInt32LE(12);
+  const byteRate = fmtChunk.readUInt32LE(16);
+  const blockAlign = fmtChunk.readUInt16LE(20);
+  const bitsPerSample = fmtChunk.readUInt16LE(22);
+
+  if (!SPLITTABLE_WAV_FORMATS.has(audioFormat) || byteRate === 0 || blockAlign === 0) {
+    throw new Error(`WAV encoding 0x${audioFormat.toString(16)} cannot be split`);
+  }
+
+  // Ignore a trailing partial frame
+  dataLength -= dataLength % blockAlign;
+
+  return {
+    channels,
+    sampleRate,
+    byteRate,
+    blockAlign,
+    bitsPerSample,
+    fmtChunk,
+    dataOffset,
+    dataLength,
+    durationSeconds: dataLength / byteRate,
+  };
+}
+
+/**
+ * Wraps raw sample data in a minimal WAV container
+ */
+function buildWav(info: WavInfo, samples: Buffer): Buffer {
+  const riff = Buffer.alloc(RIFF_HEADER_SIZE);
+  riff.write('RIFF', 0, 'latin1');
+  riff.writeUInt32LE(4 + info.fmtChunk.length + CHUNK_HEADER_SIZE + samples.length, 4);
+  riff.write('WAVE', 8, 'latin1');
+
+  const dataHeader = Buffer.alloc(CHUNK_HEADER_SIZE);
+  dataHeader.write('data', 0, 'latin1');
+  dataHeader.writeUInt32LE(samples.length, 4);
+
+  return Buffer.concat([riff, info.fmtChunk, dataHeader, samples]);
+}
+
+/**
+ * Splits an uncompressed WAV file into overlapping WAV files no larger than maxChunkBytes
+ * Consecutive chunks share overlapSeconds of audio so words cut at a boundary
+ * are heard whole in at least one chunk.
+ *
+ * @param data - The complete WAV file
+ * @param options - Maximum chunk size and overlap between chunks
+ * @returns The chunks in order with their position in the recording
+ * @throws {Error} If the file cannot be split or the overlap leaves no room for new audio
+ *
+ * @example
+ * ```typescript
+ * const chunks = splitWav(buffer, { maxChunkBytes: 24 * 1024 * 1024, overlapSeconds: 5 });
+ * console.log(chunks.map((chunk) => chunk.offsetSeconds));
+ * ```
+ */
+export function splitWav(data: Buffer, options: WavSplitOptions): WavChunk[] {
+  const info = parseWav(data);
+  const headerSize = RIFF_HEADER_SIZE + info.fmtChunk.length + CHUNK_HEADER_SIZE;
+
+  const framesPerChunk = Math.floor((options.maxChunkBytes - headerSize) / info.blockAlign);
+  const overlapFrames = Math.ceil((options.overlapSeconds * info.byteRate) / info.blockAlign);
+  const stepFrames = framesPerChunk - overlapFrames;
+
+  if (stepFrames <= 0) {
+    throw new Error('Chunk size is too small for the requested overlap');
+  }
+
+  const totalFrames = info.dataLength / info.blockAlign;
+  const chunks: WavChunk[] = [];
+
+  for (let startFrame = 0; startFrame < totalFrames; startFrame += stepFrames) {
+    const endFrame = Math.min(totalFrames, startFrame + framesPerChunk);
+    const start = info.dataOffset + startFrame * info.blockAlign;
+    const end = info.dataOffset + endFrame * info.blockAlign;
+
+    chunks.push({
+      buffer: buildWav(info, data.subarray(start, end)),
+      offsetSeconds: (startFrame * info.blockAlign) / info.byteRate,
+      durationSeconds: ((endFrame - startFrame) * info.blockAlign) / info.byteRate,
+    });
+
+    if (endFrame === totalFrames) {
+      break;
+    }
+  }
+
+  return chunks;
+}
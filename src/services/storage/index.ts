@@ -0,0 +1,28 @@
+import { env } from '../../config/environment';
+import { LocalStorage } from './local.storage';
+import { StorageBackend } from './storage.interface';
+
+export * from './storage.interface';
+export * from './local.storage';
+export * from './s3.storage';
+
+let storageBackend: StorageBackend | null = null;
+
+/**
+ * Returns the active storage backend
+ * Defaults to local files under UPLOAD_DIR
+ */
+export const getStorage = (): StorageBackend => {
+  if (!storageBackend) {
+    storageBackend = new LocalStorage(env.fileUpload.uploadDir);
+  }
+
+  return storageBackend;
+};
+
+/**
+ * Replaces the active storage backend, e.g. with an S3Storage at startup
+ */
+export const setStorage = (backend: StorageBackend): void => {
+  storageBackend = backend;
+};
@@ -0,0 +1,65 @@
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { logger } from '../../shared/utils/logger';
+import { ByteRange, StorageBackend, StoredObjectInfo } from './storage.interface';
+
+/**
+ * Stores objects as files below a root directory
+ */
+export class LocalStorage implements StorageBackend {
+  public readonly name = 'local';
+  private readonly rootDir: string;
+
+  constructor(rootDir: string) {
+    this.rootDir = path.resolve(rootDir);
+  }
+
+  /**
+   * Resolves a key to a path, refusing keys that escape the root directory
+   */
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+
+    if (!filePath.startsWith(this.rootDir + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+
+    return filePath;
+  }
+
+  public async put(key: string, data: Buffer, _contentType: string): Promise<void> {
+    const filePath = this.resolve(key);
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+
+    // Write to a temp file first so readers never see a partial file
+    await fs.promises.writeFile(tempPath, data);
+    await fs.promises.rename(tempPath, filePath);
+
+    logger.info('Stored file locally', { key, size: data.length });
+  }
+
+  public async stat(key: string): Promise<StoredObjectInfo | null> {
+    try {
+      const stats = await fs.promises.stat(this.resolve(key));
+      return { key, size: stats.size };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  public createReadStream(key: string, range?: ByteRange): Promise<Readable> {
+    return Promise.resolve(fs.createReadStream(this.resolve(key), range));
+  }
+
+  public async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+}
+
+export default LocalStorage;
@@ -0,0 +1,79 @@
+import { Readable } from 'stream';
+import { logger } from '../../shared/utils/logger';
+import { ByteRange, StorageBackend, StoredObjectInfo } from './storage.interface';
+
+/**
+ * Minimal client surface needed from an S3-compatible SDK
+ * (AWS S3, Cloudflare R2, MinIO, ...). Adapt the SDK of choice to this
+ * interface so the backend does not depend on a specific package.
+ */
+export interface S3CompatibleClient {
+  putObject(params: {
+    Bucket: string;
+    Key: string;
+    Body: Buffer;
+    ContentType: string;
+  }): Promise<void>;
+  headObject(params: { Bucket: string; Key: string }): Promise<{ ContentLength: number } | null>;
+  getObject(params: { Bucket: string; Key: string; Range?: string }): Promise<Readable>;
+  deleteObject(params: { Bucket: string; Key: string }): Promise<void>;
+}
+
+/**
+ * S3-compatible storage backend options
+ */
+export interface S3StorageOptions {
+  bucket: string;
+  prefix?: string;
+}
+
+/**
+ * Stores objects in an S3-compatible bucket
+ */
+export class S3Storage implements StorageBackend {
+  public readonly name = 's3';
+  private readonly bucket: string;
+  private readonly prefix: string;
+
+  constructor(
+    private readonly client: S3CompatibleClient,
+    options: S3StorageOptions
+  ) {
+    this.bucket = options.bucket;
+    this.prefix = options.prefix ? options.prefix.replace(/\/+$/, '') + '/' : '';
+  }
+
+  private objectKey(key: string): string {
+    return `${this.prefix}${key}`;
+  }
+
+  public async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    await this.client.putObject({
+      Bucket: this.bucket,
+      Key: this.objectKey(key),
+      Body: data,
+      ContentType: contentType,
+    });
+
+    logger.info('Stored object in S3', { bucket: this.bucket, key, size: data.length });
+  }
+
+  public async stat(key: string): Promise<StoredObjectInfo | null> {
+    const head = await this.client.headObject({ Bucket: this.bucket, Key: this.objectKey(key) });
+    return head ? { key, size: head.ContentLength } : null;
+  }
+
+  public createReadStream(key: string, range?: ByteRange): Promise<Readable> {
+    return this.client.getObject({
+      Bucket: this.bucket,
+      Key: this.objectKey(key),
+      Range: range ? `bytes=${range.start}-${range.end}` : undefined,
+    });
+  }
+
+  public async delete(key: string): Promise<void> {
+    await this.client.deleteObject({ Bucket: this.bucket, Key: this.objectKey(key) });
+  }
+}
+
+export default S3Storage;
@@ -0,0 +1,45 @@
+import { Readable } from 'stream';
+
+/**
+ * Byte range within a stored object (inclusive on both ends)
+ */
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Metadata of a stored object
+ */
+export interface StoredObjectInfo {
+  key: string;
+  size: number;
+}
+
+/**
+ * Backend that persists binary objects such as audio recordings
+ * Keys are relative, slash-separated paths (e.g. "audio/ab/abcdef.webm")
+ */
+export interface StorageBackend {
+  readonly name: string;
+
+  /**
+   * Stores the data under the key, replacing any existing object
+   */
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+
+  /**
+   * Returns the object metadata, or null if it does not exist
+   */
+  stat(key: string): Promise<StoredObjectInfo | null>;
+
+  /**
+   * Opens the object, or a byte range of it, for reading
+   */
+  createReadStream(key: string, range?: ByteRange): Promise<Readable>;
+
+  /**
+   * Removes the object if it exists
+   */
+  delete(key: string): Promise<void>;
+}
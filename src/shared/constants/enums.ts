@@ -3,11 +3,13 @@ export enum HttpStatus {
   OK = 200,
   CREATED = 201,
   NO_CONTENT = 204,
+  PARTIAL_CONTENT = 206,
   BAD_REQUEST = 400,
   UNAUTHORIZED = 401,
   FORBIDDEN = 403,
   NOT_FOUND = 404,
   CONFLICT = 409,
+  RANGE_NOT_SATISFIABLE = 416,
   TOO_MANY_REQUESTS = 429,
   INTERNAL_SERVER_ERROR = 500,
   SERVICE_UNAVAILABLE = 503,
@@ -15,6 +15,13 @@ export const ErrorCodes = {
   ANALYSIS_FAILED: 'ANALYSIS_FAILED',
   SESSION_NOT_FOUND: 'SESSION_NOT_FOUND',
   SESSION_ALREADY_ENDED: 'SESSION_ALREADY_ENDED',
+  PRACTICE_NOT_FOUND: 'PRACTICE_NOT_FOUND',
+  CONVERSATION_NOT_FOUND: 'CONVERSATION_NOT_FOUND',
+  RECORDING_NOT_FOUND: 'RECORDING_NOT_FOUND',
+  RANGE_NOT_SATISFIABLE: 'RANGE_NOT_SATISFIABLE',
+  SCENARIO_NOT_FOUND: 'SCENARIO_NOT_FOUND',
+  CONVERSATION_ALREADY_ENDED: 'CONVERSATION_ALREADY_ENDED',
+  REPORT_NOT_AVAILABLE: 'REPORT_NOT_AVAILABLE',
 
   // Review Module
   NO_REVIEW_AVAILABLE: 'NO_REVIEW_AVAILABLE',
@@ -29,6 +36,8 @@ export const ErrorCodes = {
 
   // External Services
   OPENAI_API_ERROR: 'OPENAI_API_ERROR',
+  PROMPT_TEMPLATE_ERROR: 'PROMPT_TEMPLATE_ERROR',
+  STRUCTURED_OUTPUT_INVALID: 'STRUCTURED_OUTPUT_INVALID',
   DATABASE_ERROR: 'DATABASE_ERROR',
   REDIS_ERROR: 'REDIS_ERROR',
 } as const;
@@ -17,6 +17,13 @@ export const ErrorMessages: Record<string, string> = {
   [ErrorCodes.ANALYSIS_FAILED]: 'Failed to analyze speech',
   [ErrorCodes.SESSION_NOT_FOUND]: 'Practice session not found',
   [ErrorCodes.SESSION_ALREADY_ENDED]: 'Practice session already ended',
+  [ErrorCodes.PRACTICE_NOT_FOUND]: 'Practice not found',
+  [ErrorCodes.CONVERSATION_NOT_FOUND]: 'Conversation not found',
+  [ErrorCodes.RECORDING_NOT_FOUND]: 'Recording not found',
+  [ErrorCodes.RANGE_NOT_SATISFIABLE]: 'Requested range not satisfiable',
+  [ErrorCodes.SCENARIO_NOT_FOUND]: 'Scenario not found',
+  [ErrorCodes.CONVERSATION_ALREADY_ENDED]: 'Conversation already ended',
+  [ErrorCodes.REPORT_NOT_AVAILABLE]: 'Report card not available',
 
   // Review Module
   [ErrorCodes.NO_REVIEW_AVAILABLE]: 'No review available for today',
@@ -31,6 +38,9 @@ export const ErrorMessages: Record<string, string> = {
 
   // External Services
   [ErrorCodes.OPENAI_API_ERROR]: 'OpenAI API error',
+  [ErrorCodes.PROMPT_TEMPLATE_ERROR]: 'Prompt template error',
+  [ErrorCodes.STRUCTURED_OUTPUT_INVALID]:
+    'Model returned output that does not match the expected format',
   [ErrorCodes.DATABASE_ERROR]: 'Database error',
   [ErrorCodes.REDIS_ERROR]: 'Redis error',
 };
@@ -39,6 +49,17 @@ export const SuccessMessages = {
   PRACTICE_ANALYZED: 'Speech analysis completed successfully',
   SESSION_STARTED: 'Practice session started',
   SESSION_ENDED: 'Practice session ended',
+  CONVERSATION_STARTED: 'Conversation started',
+  CONVERSATION_REPLIED: 'Conversation reply generated',
+  CONVERSATION_ENDED: 'Conversation ended',
+  SCENARIO_CREATED: 'Scenario created',
+  SCENARIO_UPDATED: 'Scenario updated',
+  SCENARIO_DELETED: 'Scenario deleted',
+  LEVEL_UPDATED: 'Learner level updated',
+  GRAMMAR_CHECKED: 'Grammar check completed',
+  TERM_LOOKED_UP: 'Dictionary lookup completed',
+  LANGUAGES_LISTED: 'Supported languages retrieved',
+  REVIEW_RETRIEVED: "Today's review retrieved",
   REVIEW_SUBMITTED: 'Exercise submitted successfully',
   REVIEW_COMPLETED: 'Daily review completed',
 } as const;
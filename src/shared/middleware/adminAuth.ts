@@ -0,0 +1,44 @@
+import { Request, Response, NextFunction } from 'express';
+import { createHash, timingSafeEqual } from 'crypto';
+import { env } from '@config/environment';
+import { ForbiddenError, UnauthorizedError } from '@shared/utils/errors';
+
+// Header carrying the admin API key until role-based authentication is in place
+export const ADMIN_KEY_HEADER = 'x-admin-key';
+
+/**
+ * Compares two secrets in constant time
+ * Both are hashed first so inputs of different lengths can be compared
+ */
+const secretsMatch = (provided: string, expected: string): boolean =>
+  timingSafeEqual(
+    createHash('sha256').update(provided).digest(),
+    createHash('sha256').update(expected).digest()
+  );
+
+/**
+ * Allows the request only when the X-Admin-Key header matches ADMIN_API_KEY
+ * Admin routes are closed entirely when no key is configured
+ */
+export const requireAdmin = (req: Request, _res: Response, next: NextFunction): void => {
+  const expected = env.admin.apiKey;
+
+  if (!expected) {
+    next(new ForbiddenError('Admin API is not enabled'));
+    return;
+  }
+
+  const provided = req.header(ADMIN_KEY_HEADER);
+
+  if (!provided) {
+    next(new UnauthorizedError(`Missing ${ADMIN_KEY_HEADER} header`));
+    return;
+  }
+
+  if (!secretsMatch(provided, expected)) {
+    next(new ForbiddenError('Invalid admin key'));
+    return;
+  }
+
+  next();
+};
@@ -3,7 +3,7 @@ import { env } from '@config/environment';
 import { ResponseHandler } from '@shared/utils/response';
 import { ErrorCodes } from '@shared/constants/errorCodes';
 import { HttpStatus } from '@shared/constants/enums';
-import { Request, Response } from 'express';
+import { NextFunction, Request, Response } from 'express';
 
 // Global rate limiter
 export const globalRateLimiter = rateLimit({
@@ -52,3 +52,83 @@ export const aiAnalysisRateLimiter = rateLimit({
     );
   },
 });
+
+// Translation rate limiter
+export const translationRateLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 30,
+  standardHeaders: true,
+  legacyHeaders: false,
+  handler: (_req: Request, res: Response) => {
+    ResponseHandler.error(
+      res,
+      ErrorCodes.RATE_LIMIT_EXCEEDED,
+      'Too many translation requests, please wait a moment',
+      HttpStatus.TOO_MANY_REQUESTS
+    );
+  },
+});
+
+/**
+ * Texts per minute the batch translation limiter allows each client
+ */
+const BATCH_TRANSLATION_ITEMS_PER_MINUTE = 100;
+const BATCH_TRANSLATION_WINDOW_MS = 60 * 1000;
+
+/**
+ * Number of items in a batch request body, at least 1
+ */
+const countBatchItems = (req: Request): number => {
+  const body: unknown = req.body;
+  const items = typeof body === 'object' && body !== null && 'items' in body ? body.items : null;
+  return Array.isArray(items) ? Math.max(1, items.length) : 1;
+};
+
+/**
+ * Items each client has sent in its current window, for batchTranslationRateLimiter
+ */
+const batchItemWindows = new Map<string, { items: number; resetAt: number }>();
+
+// Batch translation rate limiter, counting items rather than requests: each batch adds its
+// size to the client's count, so mixing batch sizes cannot exceed the per-minute item budget
+export const batchTranslationRateLimiter = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const now = Date.now();
+
+  for (const [key, window] of batchItemWindows) {
+    if (window.resetAt <= now) {
+      batchItemWindows.delete(key);
+    }
+  }
+
+  const key = req.ip ?? 'unknown';
+  const window = batchItemWindows.get(key) ?? {
+    items: 0,
+    resetAt: now + BATCH_TRANSLATION_WINDOW_MS,
+  };
+  const items = countBatchItems(req);
+  const resetSeconds = Math.ceil((window.resetAt - now) / 1000);
+
+  res.setHeader('RateLimit-Limit', BATCH_TRANSLATION_ITEMS_PER_MINUTE);
+  res.setHeader('RateLimit-Reset', resetSeconds);
+
+  if (window.items + items > BATCH_TRANSLATION_ITEMS_PER_MINUTE) {
+    res.setHeader('RateLimit-Remaining', BATCH_TRANSLATION_ITEMS_PER_MINUTE - window.items);
+    res.setHeader('Retry-After', resetSeconds);
+    ResponseHandler.error(
+      res,
+      ErrorCodes.RATE_LIMIT_EXCEEDED,
+      'Too many batch translation requests, please wait a moment',
+      HttpStatus.TOO_MANY_REQUESTS
+    );
+    return;
+  }
+
+  window.items += items;
+  batchItemWindows.set(key, window);
+  res.setHeader('RateLimit-Remaining', BATCH_TRANSLATION_ITEMS_PER_MINUTE - window.items);
+  next();
+};
@@ -0,0 +1,79 @@
+import { Request, Response, NextFunction } from 'express';
+import { prisma } from '@database/client';
+import { UnauthorizedError } from '@shared/utils/errors';
+import { AuthenticatedRequest } from '@shared/types/api.types';
+
+// Header carrying the current user id until JWT authentication is in place
+export const USER_ID_HEADER = 'x-user-id';
+
+/**
+ * Resolves the current user from the X-User-Id header and attaches it to the request
+ * Rejects the request when the header is missing or the user does not exist
+ */
+export const requireUser = async (
+  req: Request,
+  _res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.header(USER_ID_HEADER);
+
+    if (!userId) {
+      throw new UnauthorizedError(`Missing ${USER_ID_HEADER} header`);
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+
+    if (!user) {
+      throw new UnauthorizedError('Unknown user');
+    }
+
+    (req as AuthenticatedRequest).user = {
+      id: user.id,
+      email: user.email ?? undefined,
+      name: user.name ?? undefined,
+    };
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Resolves the current user like requireUser when the X-User-Id header is present
+ * Requests without the header continue anonymously
+ */
+export const attachUser = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  if (!req.header(USER_ID_HEADER)) {
+    next();
+    return;
+  }
+
+  await requireUser(req, res, next);
+};
+
+/**
+ * Returns the id of the user resolved by attachUser, if the request identified one
+ */
+export const findUserId = (req: Request): string | undefined => {
+  return (req as AuthenticatedRequest).user?.id;
+};
+
+/**
+ * Returns the id of the user resolved by requireUser
+ * @throws {UnauthorizedError} If the request has not been through requireUser
+ */
+export const getUserId = (req: Request): string => {
+  const user = (req as AuthenticatedRequest).user;
+
+  if (!user) {
+    throw new UnauthorizedError();
+  }
+
+  return user.id;
+};
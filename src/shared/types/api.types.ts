@@ -1,10 +1,10 @@
 import { Request } from 'express';
 
-// Extend Express Request type for authenticated requests (future use)
+// Extend Express Request type for authenticated requests
 export interface AuthenticatedRequest extends Request {
   user?: {
     id: string;
-    email: string;
+    email?: string;
     name?: string;
   };
 }
@@ -0,0 +1,134 @@
+import type { ExerciseType } from '@prisma/client';
+
+// Domain types shared between services, repositories and API responses
+
+// Grammar error categories used by speech analysis, report cards, inline corrections and
+// grammar checks; also the values of ErrorPattern.errorCategory for grammar errors
+export const GRAMMAR_ERROR_CATEGORIES = [
+  'tense',
+  'article',
+  'preposition',
+  'word_choice',
+  'agreement',
+  'word_order',
+  'verb_form',
+  'pronoun',
+  'plural',
+  'spelling',
+  'punctuation',
+  'other',
+] as const;
+
+export type GrammarErrorCategory = (typeof GRAMMAR_ERROR_CATEGORIES)[number];
+
+// Stored in Practice.grammarErrors
+export interface GrammarError {
+  type: string;
+  message: string;
+  original: string;
+  corrected: string;
+  position: {
+    start: number;
+    end: number;
+  };
+  explanation: string;
+  examples: string[];
+}
+
+// Stored in Practice.pronunciationIssues
+// Read-aloud assessments also record the alignment error and where it occurred in the audio
+export interface PronunciationIssue {
+  word: string;
+  issue: string;
+  suggestion: string;
+  ipa: string;
+  type?: ReadingErrorType;
+  expected?: string;
+  spoken?: string;
+  start?: number; // seconds
+  end?: number; // seconds
+}
+
+export type ReadingErrorType = 'omission' | 'insertion' | 'substitution';
+
+// Per-dimension scores (0-100)
+export interface PracticeScores {
+  grammar: number;
+  pronunciation: number;
+  fluency: number;
+  overall: number;
+}
+
+// A learner turn highlighted in a report card
+// ref is a practice id for sessions, or the message position for conversations
+export interface ReportTurn {
+  ref: string;
+  text: string;
+  reason: string;
+  scores?: PracticeScores;
+}
+
+// A mistaken learner utterance with its corrected version
+export interface ReportCorrection {
+  ref: string;
+  original: string;
+  corrected: string;
+  categories: string[];
+  explanation?: string;
+}
+
+// A change between two texts, located by character offsets in the original
+export interface TextChange {
+  start: number; // inclusive
+  end: number; // exclusive; equal to start for insertions
+  original: string;
+  replacement: string;
+}
+
+// A grammar error located in checked text
+export interface GrammarCheckError extends TextChange {
+  category: GrammarErrorCategory;
+  explanation: string;
+}
+
+// Inline correction of a learner's conversation turn
+export interface TurnCorrection {
+  original: string;
+  corrected: string; // equal to original when there is nothing to correct
+  changes: TextChange[]; // computed by diffing original and corrected, not by the model
+  category: GrammarErrorCategory | null;
+  explanation: string | null;
+}
+
+// Stored in ReportCard.content
+export interface ReportCardContent {
+  scope: 'session' | 'conversation';
+  turnCount: number;
+  scores: PracticeScores | null; // session averages of the Practice scores
+  strongestTurn: ReportTurn | null;
+  weakestTurn: ReportTurn | null;
+  corrections: ReportCorrection[];
+  vocabulary: Array<{ term: string; note: string }>;
+  recurringErrors: Array<{ category: string; count: number; examples: string[] }>;
+  goals: string[];
+}
+
+// Stored in Review.exercises
+export interface ReviewExercise {
+  id: string; // unique within the review, e.g. 'ex-1'
+  type: ExerciseType;
+  question: string;
+  options?: string[]; // MULTIPLE_CHOICE only
+  targetGrammar: string;
+  hint?: string;
+  category: string; // error category the exercise targets
+  correctAnswer: string; // a model answer for REWRITE and SPEAKING
+  explanation: string;
+}
+
+// A review exercise as sent to the learner, without its answer and explanation; they stay
+// stored in Review.exercises until answers can be submitted
+export type ReviewExercisePrompt = Omit<
+  ReviewExercise,
+  'category' | 'correctAnswer' | 'explanation'
+>;
@@ -0,0 +1,17 @@
+import { Request } from 'express';
+
+/**
+ * Request header that skips the response cache lookup
+ */
+export const CACHE_BYPASS_HEADER = 'X-Cache-Bypass';
+
+/**
+ * Returns whether the client asked for a fresh response instead of a cached one,
+ * via `X-Cache-Bypass: true` (or `1`) or `Cache-Control: no-cache`
+ */
+export function wantsCacheBypass(req: Request): boolean {
+  const bypass = (req.get(CACHE_BYPASS_HEADER) ?? '').trim().toLowerCase();
+  return (
+    bypass === 'true' || bypass === '1' || /\bno-cache\b/i.test(req.get('cache-control') ?? '')
+  );
+}
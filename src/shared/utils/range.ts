@@ -0,0 +1,51 @@
+import { ByteRange } from '@services/storage';
+
+/**
+ * Parses a single-range HTTP Range header ("bytes=0-499", "bytes=500-", "bytes=-500")
+ *
+ * @param header - Value of the Range request header
+ * @param size - Total size of the resource in bytes
+ * @returns The inclusive byte range, null to serve the whole resource (no header,
+ * malformed or multi-range requests), or 'unsatisfiable' when the range lies outside the resource
+ */
+export function parseRangeHeader(
+  header: string | undefined,
+  size: number
+): ByteRange | null | 'unsatisfiable' {
+  if (!header) {
+    return null;
+  }
+
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match) {
+    return null;
+  }
+
+  const [, startText = '', endText = ''] = match;
+
+  if (startText === '' && endText === '') {
+    return null;
+  }
+
+  let start: number;
+  let end: number;
+
+  if (startText === '') {
+    // Suffix range: the last N bytes
+    const length = Number(endText);
+    if (length === 0) {
+      return 'unsatisfiable';
+    }
+    start = Math.max(0, size - length);
+    end = size - 1;
+  } else {
+    start = Number(startText);
+    end = endText === '' ? size - 1 : Math.min(Number(endText), size - 1);
+  }
+
+  if (start >= size || start > end) {
+    return 'unsatisfiable';
+  }
+
+  return { start, end };
+}
@@ -44,6 +44,11 @@ export class ResponseHandler {
     return this.success(res, data, message, HttpStatus.CREATED);
   }
 
+  static file(res: Response, content: string, contentType: string, filename: string): Response {
+    res.setHeader('Content-Disposition', `inline; filename="${filename}"`);
+    return res.status(HttpStatus.OK).type(contentType).send(content);
+  }
+
   static error(
     res: Response,
     code: string,
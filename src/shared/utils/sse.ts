@@ -0,0 +1,84 @@
+import { Request, Response } from 'express';
+import { StreamHandlers } from '@services/openai';
+import { AppError } from '@shared/utils/errors';
+import { ErrorCodes } from '@shared/constants/errorCodes';
+import { logger } from '@shared/utils/logger';
+
+/**
+ * Interval of SSE comment lines that keep proxies from closing idle streams (ms)
+ */
+const HEARTBEAT_INTERVAL = 15000;
+
+/**
+ * Returns whether the client asked for a Server-Sent Events stream,
+ * via `Accept: text/event-stream` or `?stream=true`
+ */
+export function wantsEventStream(req: Request): boolean {
+  return req.query.stream === 'true' || (req.get('accept') ?? '').includes('text/event-stream');
+}
+
+/**
+ * Streams a generation to the client as Server-Sent Events
+ *
+ * Emits `delta` events ({text}) while the model writes, then a single `done`
+ * event carrying the full result, or an `error` event ({code, message}).
+ * When the client disconnects, the upstream request is aborted.
+ *
+ * @param req - The incoming request; its connection is watched for disconnects
+ * @param res - The response to stream to
+ * @param run - Starts the upstream generation with the given stream handlers
+ *
+ * @example
+ * ```typescript
+ * await streamEvents(req, res, (handlers) => streamText(prompt, handlers));
+ * ```
+ */
+export async function streamEvents<T>(
+  req: Request,
+  res: Response,
+  run: (handlers: StreamHandlers) => Promise<T>
+): Promise<void> {
+  const controller = new AbortController();
+
+  const send = (event: string, data: unknown) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  // Disables response buffering in nginx
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+
+  const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), HEARTBEAT_INTERVAL);
+
+  const onClose = () => {
+    if (!res.writableEnded) {
+      logger.info('Client disconnected from event stream', { path: req.path });
+      controller.abort();
+    }
+  };
+  res.on('close', onClose);
+
+  try {
+    const result = await run({
+      signal: controller.signal,
+      onDelta: (text) => send('delta', { text }),
+    });
+
+    send('done', result);
+  } catch (error) {
+    if (!controller.signal.aborted) {
+      send('error', {
+        code: error instanceof AppError ? error.code : ErrorCodes.INTERNAL_SERVER_ERROR,
+        message: error instanceof AppError ? error.message : 'An unexpected error occurred',
+      });
+    }
+  } finally {
+    clearInterval(heartbeat);
+    res.off('close', onClose);
+    res.end();
+  }
+}
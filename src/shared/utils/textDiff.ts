@@ -0,0 +1,139 @@
+import { TextChange } from '@shared/types/domain.types';
+
+interface Token {
+  text: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Words (with inner apostrophes) and single punctuation marks; whitespace separates tokens
+ */
+const TOKEN_PATTERN = /[\p{L}\p{N}]+(?:['’][\p{L}\p{N}]+)*|[^\s\p{L}\p{N}]/gu;
+
+function tokenize(text: string): Token[] {
+  return [...text.matchAll(TOKEN_PATTERN)].map((match) => ({
+    text: match[0],
+    start: match.index,
+    end: match.index + match[0].length,
+  }));
+}
+
+/**
+ * Pairs the tokens both texts share, in order, via a longest common subsequence
+ * @returns Index pairs [originalIndex, correctedIndex] of the shared tokens
+ */
+function matchTokens(original: Token[], corrected: Token[]): Array<[number, number]> {
+  const rows = original.length;
+  const cols = corrected.length;
+  // lengths[i * (cols + 1) + j] = LCS length of original[i..] and corrected[j..]
+  const lengths = new Uint16Array((rows + 1) * (cols + 1));
+  const at = (i: number, j: number): number => lengths[i * (cols + 1) + j] ?? 0;
+
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lengths[i * (cols + 1) + j] =
+        original[i]?.text === corrected[j]?.text
+          ? at(i + 1, j + 1) + 1
+          : Math.max(at(i + 1, j), at(i, j + 1));
+    }
+  }
+
+  const pairs: Array<[number, number]> = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < rows && j < cols) {
+    if (original[i]?.text === corrected[j]?.text) {
+      pairs.push([i, j]);
+      i++;
+      j++;
+    } else if (at(i + 1, j) >= at(i, j + 1)) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  return pairs;
+}
+
+/**
+ * Computes the changes that turn one text into another using a token diff
+ * Deterministic: the same texts always give the same changes. Whitespace-only
+ * differences are ignored, and a pure insertion or deletion takes the adjacent
+ * space with it so applying it leaves single spaces.
+ *
+ * @param original - The text as written
+ * @param corrected - The edited text
+ * @returns Changes in order of position, empty if the texts match token for token;
+ *   applying them to the original, last first, yields the corrected text
+ *
+ * @example
+ * ```typescript
+ * diffText('She go to school', 'She goes to school');
+ * // [{ start: 4, end: 6, original: 'go', replacement: 'goes' }]
+ * ```
+ */
+export function diffText(original: string, corrected: string): TextChange[] {
+  const from = tokenize(original);
+  const to = tokenize(corrected);
+  // Sentinel pair after the last tokens closes the final change
+  const anchors: Array<[number, number]> = [...matchTokens(from, to), [from.length, to.length]];
+  const changes: TextChange[] = [];
+  let fromIndex = 0;
+  let toIndex = 0;
+
+  for (const [nextFrom, nextTo] of anchors) {
+    if (nextFrom > fromIndex || nextTo > toIndex) {
+      const previousFrom = from[fromIndex - 1];
+      const previousTo = to[toIndex - 1];
+      const followingFrom = from[nextFrom];
+      const followingTo = to[nextTo];
+
+      let start = from[fromIndex]?.start ?? followingFrom?.start ?? original.length;
+      let end = nextFrom > fromIndex ? (from[nextFrom - 1]?.end ?? start) : start;
+      let replacementStart = to[toIndex]?.start ?? followingTo?.start ?? corrected.length;
+      let replacementEnd =
+        nextTo > toIndex ? (to[nextTo - 1]?.end ?? replacementStart) : replacementStart;
+
+      if (nextFrom === fromIndex || nextTo === toIndex) {
+        // Take the whole gap between the surrounding tokens, then drop what both texts share,
+        // so the adjacent space or punctuation goes with the inserted or deleted tokens
+        start = previousFrom?.end ?? 0;
+        end = followingFrom?.start ?? original.length;
+        replacementStart = previousTo?.end ?? 0;
+        replacementEnd = followingTo?.start ?? corrected.length;
+
+        while (
+          start < end &&
+          replacementStart < replacementEnd &&
+          original[start] === corrected[replacementStart]
+        ) {
+          start++;
+          replacementStart++;
+        }
+        while (
+          start < end &&
+          replacementStart < replacementEnd &&
+          original[end - 1] === corrected[replacementEnd - 1]
+        ) {
+          end--;
+          replacementEnd--;
+        }
+      }
+
+      changes.push({
+        start,
+        end,
+        original: original.slice(start, end),
+        replacement: corrected.slice(replacementStart, replacementEnd),
+      });
+    }
+
+    fromIndex = nextFrom + 1;
+    toIndex = nextTo + 1;
+  }
+
+  return changes;
+}
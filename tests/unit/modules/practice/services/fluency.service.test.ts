@@ -0,0 +1,57 @@
+import { TranscriptionResponse } from '@services/openai';
+import { analyzeFluency } from '@modules/practice/services/fluency.service';
+
+// 150 words per minute, within the natural band, with no pauses
+const WORD_SECONDS = 0.4;
+
+/**
+ * Builds a transcription of the text with evenly timed words
+ */
+function transcribe(text: string): TranscriptionResponse {
+  const words = text.split(' ').map((word, index) => ({
+    word,
+    start: index * WORD_SECONDS,
+    end: (index + 1) * WORD_SECONDS,
+  }));
+
+  return {
+    text,
+    language: 'english',
+    duration: words.length * WORD_SECONDS,
+    words,
+  };
+}
+
+describe('analyzeFluency', () => {
+  describe('self-corrections', () => {
+    it.each([
+      'I want to go to the park on Sunday',
+      'I think I can finish it today',
+      'She said that she would call me back',
+      'We went to the shop and then to the bank',
+      'What I mean is that the plan works',
+      'It is what I mean when I say it',
+    ])('counts none in "%s"', (text) => {
+      const { score, metrics, penalties } = analyzeFluency(transcribe(text));
+
+      expect(metrics.selfCorrections.count).toBe(0);
+      expect(penalties.selfCorrections).toBe(0);
+      expect(score).toBe(100);
+    });
+
+    it('counts explicit correction markers', () => {
+      const { metrics } = analyzeFluency(
+        transcribe('He go to school, I mean, he goes to school every day')
+      );
+
+      expect(metrics.selfCorrections.count).toBe(1);
+      expect(metrics.selfCorrections.examples).toEqual(['to school i mean he goes']);
+    });
+
+    it('does not count a marker at the start of the recording', () => {
+      const { metrics } = analyzeFluency(transcribe('I mean the weather was lovely'));
+
+      expect(metrics.selfCorrections.count).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import { languageConfig } from '@config/languages';
+import {
+  findLanguage,
+  getLanguageName,
+  listLanguages,
+  normalizeLanguageTag,
+} from '@services/language/languageRegistry';
+
+describe('findLanguage', () => {
+  it('matches registry codes case-insensitively', () => {
+    expect(normalizeLanguageTag('zh-tw')).toBe('zh-TW');
+    expect(normalizeLanguageTag(' EN ')).toBe('en');
+  });
+
+  it('falls back from a region to the base language', () => {
+    expect(normalizeLanguageTag('pt-BR')).toBe('pt');
+    expect(normalizeLanguageTag('en-GB')).toBe('en');
+    expect(normalizeLanguageTag('es-419')).toBe('es');
+  });
+
+  it('resolves a script to the language written in it', () => {
+    expect(normalizeLanguageTag('zh-Hant')).toBe('zh-TW');
+    expect(normalizeLanguageTag('zh-Hant-HK')).toBe('zh-TW');
+    expect(normalizeLanguageTag('zh-Hans')).toBe('zh-CN');
+  });
+
+  it('expands a region to its likely script', () => {
+    expect(normalizeLanguageTag('zh-HK')).toBe('zh-TW');
+    expect(normalizeLanguageTag('zh-SG')).toBe('zh-CN');
+  });
+
+  it('resolves a bare language to its likely script and region', () => {
+    expect(normalizeLanguageTag('zh')).toBe('zh-CN');
+  });
+
+  it('returns undefined for unknown and malformed tags', () => {
+    expect(findLanguage('xx')).toBeUndefined();
+    expect(findLanguage('tlh-Latn')).toBeUndefined();
+    expect(findLanguage('!!')).toBeUndefined();
+    expect(findLanguage('')).toBeUndefined();
+  });
+
+  it('returns undefined for disabled languages', () => {
+    expect(findLanguage('ar')).toBeUndefined();
+  });
+});
+
+describe('default languages', () => {
+  it('resolves the default target language to itself', () => {
+    const found = findLanguage(languageConfig.defaultTargetLanguage);
+
+    expect(found?.code).toBe(languageConfig.defaultTargetLanguage);
+    expect(getLanguageName(languageConfig.defaultTargetLanguage)).toBe(found?.name);
+  });
+
+  it('lists English first and includes the default target language', () => {
+    const codes = listLanguages().map((language) => language.code);
+
+    expect(codes[0]).toBe(languageConfig.english);
+    expect(codes).toContain(languageConfig.defaultTargetLanguage);
+  });
+});
@@ -0,0 +1,102 @@
+import { TranscriptionResponse } from '@services/openai/speechToText.service';
+import { stitchTranscriptions, TranscriptPart } from '@services/openai/transcriptStitcher';
+
+// One word per second across the whole recording
+const SPEECH = 'we walked to the old mill by the river and then went home for dinner'.split(' ');
+
+/**
+ * Builds the transcription of a chunk covering [offset, offset + duration) of SPEECH,
+ * with local timestamps and a single segment
+ */
+function part(
+  offsetSeconds: number,
+  durationSeconds: number,
+  words: string[] = SPEECH.slice(offsetSeconds, offsetSeconds + durationSeconds)
+): TranscriptPart {
+  const text = words.join(' ');
+  const transcription: TranscriptionResponse = {
+    text,
+    language: 'english',
+    duration: durationSeconds,
+    words: words.map((word, index) => ({ word, start: index, end: index + 0.8 })),
+    segments: [
+      {
+        id: 0,
+        seek: 0,
+        start: 0,
+        end: words.length,
+        text: ` ${text}`,
+        tokens: [],
+        temperature: 0,
+        avg_logprob: -0.2,
+        compression_ratio: 1.2,
+        no_speech_prob: 0.01,
+      },
+    ],
+  };
+
+  return { offsetSeconds, durationSeconds, transcription };
+}
+
+describe('stitchTranscriptions', () => {
+  it('keeps speech heard in two chunks only once', () => {
+    const result = stitchTranscriptions([part(0, 10), part(8, 7)]);
+
+    expect(result.text).toBe(SPEECH.join(' '));
+    expect(result.words?.map((word) => word.word)).toEqual(SPEECH);
+    expect(result.duration).toBe(15);
+    expect(result.language).toBe('english');
+  });
+
+  it('moves timestamps onto the timeline of the full recording', () => {
+    const result = stitchTranscriptions([part(0, 10), part(8, 7)]);
+
+    result.words?.forEach((word, index) => {
+      expect(word.start).toBe(index);
+      expect(word.end).toBeCloseTo(index + 0.8);
+    });
+    expect(result.segments?.map((segment) => [segment.id, segment.start, segment.end])).toEqual([
+      [0, 0, 9],
+      [1, 9, 15],
+    ]);
+    expect(result.segments?.[1]?.seek).toBe(800);
+  });
+
+  it('switches chunks in the middle of the overlap when the words do not match', () => {
+    const later = part(8, 7, ['liver', 'sand', ...SPEECH.slice(10)]);
+    const result = stitchTranscriptions([part(0, 10), later]);
+
+    // The overlap runs from 8 to 10 seconds; each chunk keeps its own side of 9 seconds
+    expect(result.words?.map((word) => word.word)).toEqual([
+      ...SPEECH.slice(0, 9),
+      'sand',
+      ...SPEECH.slice(10),
+    ]);
+  });
+
+  it('joins several chunks in order', () => {
+    const result = stitchTranscriptions([part(0, 6), part(4, 6), part(8, 7)]);
+
+    expect(result.words?.map((word) => word.word)).toEqual(SPEECH);
+    expect(result.text).toBe(SPEECH.join(' '));
+  });
+
+  it('joins whole texts when the chunks have no segments', () => {
+    const first = part(0, 8);
+    const second = part(8, 7);
+    delete first.transcription.segments;
+    delete second.transcription.segments;
+
+    expect(stitchTranscriptions([first, second]).text).toBe(SPEECH.join(' '));
+  });
+
+  it('returns an empty transcription for no chunks', () => {
+    expect(stitchTranscriptions([])).toEqual({
+      text: '',
+      language: undefined,
+      duration: 0,
+      words: [],
+      segments: [],
+    });
+  });
+});
@@ -0,0 +1,168 @@
+import { parseWav, splitWav } from '@services/openai/wavChunker';
+
+const SAMPLE_RATE = 8000;
+const BYTES_PER_SAMPLE = 2; // 16-bit mono PCM
+const BYTE_RATE = SAMPLE_RATE * BYTES_PER_SAMPLE;
+const HEADER_SIZE = 44;
+
+interface WavOptions {
+  frames: number;
+  audioFormat?: number;
+  dataSize?: number;
+  extraChunk?: Buffer;
+}
+
+/**
+ * Builds a 16-bit mono WAV file whose sample values are the frame indexes
+ */
+function buildWav({ frames, audioFormat = 1, dataSize, extraChunk }: WavOptions): Buffer {
+  const samples = Buffer.alloc(frames * BYTES_PER_SAMPLE);
+  for (let i = 0; i < frames; i++) {
+    samples.writeUInt16LE(i % 0x10000, i * BYTES_PER_SAMPLE);
+  }
+
+  const fmt = Buffer.alloc(24);
+  fmt.write('fmt ', 0, 'latin1');
+  fmt.writeUInt32LE(16, 4);
+  fmt.writeUInt16LE(audioFormat, 8);
+  fmt.writeUInt16LE(1, 10);
+  fmt.writeUInt32LE(SAMPLE_RATE, 12);
+  fmt.writeUInt32LE(BYTE_RATE, 16);
+  fmt.writeUInt16LE(BYTES_PER_SAMPLE, 20);
+  fmt.writeUInt16LE(16, 22);
+
+  const dataHeader = Buffer.alloc(8);
+  dataHeader.write('data', 0, 'latin1');
+  dataHeader.writeUInt32LE(dataSize ?? samples.length, 4);
+
+  const body = Buffer.concat([fmt, extraChunk ?? Buffer.alloc(0), dataHeader, samples]);
+  const riff = Buffer.alloc(12);
+  riff.write('RIFF', 0, 'latin1');
+  riff.writeUInt32LE(4 + body.length, 4);
+  riff.write('WAVE', 8, 'latin1');
+
+  return Buffer.concat([riff, body]);
+}
+
+/**
+ * Reads the frame indexes stored in a WAV file's samples
+ */
+function frameIndexes(data: Buffer): number[] {
+  const info = parseWav(data);
+  const indexes: number[] = [];
+  for (let offset = 0; offset < info.dataLength; offset += BYTES_PER_SAMPLE) {
+    indexes.push(data.readUInt16LE(info.dataOffset + offset));
+  }
+  return indexes;
+}
+
+describe('parseWav', () => {
+  it('reads the format and the location of the samples', () => {
+    const info = parseWav(buildWav({ frames: SAMPLE_RATE }));
+
+    expect(info).toMatchObject({
+      channels: 1,
+      sampleRate: SAMPLE_RATE,
+      byteRate: BYTE_RATE,
+      blockAlign: BYTES_PER_SAMPLE,
+      bitsPerSample: 16,
+      dataOffset: HEADER_SIZE,
+      dataLength: BYTE_RATE,
+      durationSeconds: 1,
+    });
+    expect(info.fmtChunk).toHaveLength(24);
+  });
+
+  it('skips chunks placed before the samples', () => {
+    const list = Buffer.alloc(14);
+    list.write('LIST', 0, 'latin1');
+    list.writeUInt32LE(5, 4); // odd size, padded to 6 bytes
+
+    const info = parseWav(buildWav({ frames: 100, extraChunk: list }));
+
+    expect(info.dataOffset).toBe(HEADER_SIZE + list.length);
+    expect(info.dataLength).toBe(100 * BYTES_PER_SAMPLE);
+  });
+
+  it('reads to the end of the file when the data size was left unset', () => {
+    const info = parseWav(buildWav({ frames: 100, dataSize: 0 }));
+
+    expect(info.dataLength).toBe(100 * BYTES_PER_SAMPLE);
+  });
+
+  it('ignores a trailing partial frame', () => {
+    const data = Buffer.concat([buildWav({ frames: 100, dataSize: 0 }), Buffer.from([0x01])]);
+
+    expect(parseWav(data).dataLength).toBe(100 * BYTES_PER_SAMPLE);
+  });
+
+  it('rejects files that are not WAV', () => {
+    expect(() => parseWav(Buffer.from('OggS not a wav file'))).toThrow('Not a WAV file');
+  });
+
+  it('rejects compressed encodings', () => {
+    expect(() => parseWav(buildWav({ frames: 100, audioFormat: 0x0055 }))).toThrow(
+      'WAV encoding 0x55 cannot be split'
+    );
+  });
+});
+
+describe('splitWav', () => {
+  const frames = 2 * SAMPLE_RATE; // 2 seconds
+  const maxChunkBytes = HEADER_SIZE + (SAMPLE_RATE / 2) * BYTES_PER_SAMPLE; // 0.5 seconds of audio
+  const overlapSeconds = 0.1;
+
+  it('cuts overlapping chunks no larger than the maximum size', () => {
+    const chunks = splitWav(buildWav({ frames }), { maxChunkBytes, overlapSeconds });
+
+    expect(chunks.map((chunk) => chunk.offsetSeconds)).toEqual([0, 0.4, 0.8, 1.2, 1.6]);
+    expect(chunks.map((chunk) => chunk.durationSeconds)).toEqual([0.5, 0.5, 0.5, 0.5, 0.4]);
+    for (const chunk of chunks) {
+      expect(chunk.buffer.length).toBeLessThanOrEqual(maxChunkBytes);
+    }
+  });
+
+  it('writes a valid header for every chunk', () => {
+    const chunks = splitWav(buildWav({ frames }), { maxChunkBytes, overlapSeconds });
+
+    for (const chunk of chunks) {
+      const info = parseWav(chunk.buffer);
+      expect(chunk.buffer.readUInt32LE(4)).toBe(chunk.buffer.length - 8);
+      expect(info.sampleRate).toBe(SAMPLE_RATE);
+      expect(info.dataOffset + info.dataLength).toBe(chunk.buffer.length);
+      expect(info.durationSeconds).toBeCloseTo(chunk.durationSeconds);
+    }
+  });
+
+  it('cuts at frame boundaries and repeats the overlap in the next chunk', () => {
+    const chunks = splitWav(buildWav({ frames }), { maxChunkBytes, overlapSeconds });
+    const overlapFrames = overlapSeconds * SAMPLE_RATE;
+
+    chunks.forEach((chunk, index) => {
+      const indexes = frameIndexes(chunk.buffer);
+      expect(indexes[0]).toBe(chunk.offsetSeconds * SAMPLE_RATE);
+
+      const next = chunks[index + 1];
+      if (next) {
+        expect(frameIndexes(next.buffer).slice(0, overlapFrames)).toEqual(
+          indexes.slice(-overlapFrames)
+        );
+      }
+    });
+    expect(frameIndexes(chunks[chunks.length - 1]!.buffer).pop()).toBe(frames - 1);
+  });
+
+  it('returns a single chunk when the file already fits', () => {
+    const data = buildWav({ frames: 100 });
+    const chunks = splitWav(data, { maxChunkBytes, overlapSeconds });
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0]?.buffer.equals(data)).toBe(true);
+  });
+
+  it('rejects an overlap that leaves no room for new audio', () => {
+    expect(() => splitWav(buildWav({ frames }), { maxChunkBytes, overlapSeconds: 0.5 })).toThrow(
+      'Chunk size is too small for the requested overlap'
+    );
+  });
+});
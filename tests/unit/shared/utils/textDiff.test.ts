@@ -0,0 +1,93 @@
+import { TextChange } from '@shared/types/domain.types';
+import { diffText } from '@shared/utils/textDiff';
+
+/**
+ * Applies changes to the original text, last first
+ */
+function applyChanges(text: string, changes: TextChange[]): string {
+  return [...changes]
+    .reverse()
+    .reduce(
+      (result, change) =>
+        result.slice(0, change.start) + change.replacement + result.slice(change.end),
+      text
+    );
+}
+
+describe('diffText', () => {
+  it('replaces a changed word', () => {
+    expect(diffText('She go to school', 'She goes to school')).toEqual([
+      { start: 4, end: 6, original: 'go', replacement: 'goes' },
+    ]);
+  });
+
+  it('inserts a missing word with its space', () => {
+    const changes = diffText('I went to store', 'I went to the store');
+
+    expect(changes).toEqual([{ start: 10, end: 10, original: '', replacement: 'the ' }]);
+    expect(applyChanges('I went to store', changes)).toBe('I went to the store');
+  });
+
+  it('deletes an extra word with its space', () => {
+    const changes = diffText('He can to swim', 'He can swim');
+
+    expect(changes).toEqual([{ start: 7, end: 10, original: 'to ', replacement: '' }]);
+    expect(applyChanges('He can to swim', changes)).toBe('He can swim');
+  });
+
+  it('takes the preceding space when deleting the last word', () => {
+    const changes = diffText('I like it very', 'I like it');
+
+    expect(changes).toEqual([{ start: 9, end: 14, original: ' very', replacement: '' }]);
+    expect(applyChanges('I like it very', changes)).toBe('I like it');
+  });
+
+  it('groups adjacent changed words into one change', () => {
+    expect(diffText('He have went home', 'He has gone home')).toEqual([
+      { start: 3, end: 12, original: 'have went', replacement: 'has gone' },
+    ]);
+  });
+
+  it('treats punctuation marks as separate tokens', () => {
+    const original = 'However I agree.';
+    const corrected = 'However, I agree!';
+    const changes = diffText(original, corrected);
+
+    expect(changes).toEqual([
+      { start: 7, end: 7, original: '', replacement: ',' },
+      { start: 15, end: 16, original: '.', replacement: '!' },
+    ]);
+    expect(applyChanges(original, changes)).toBe(corrected);
+  });
+
+  it('keeps contractions as single words', () => {
+    expect(diffText('I dont know', "I don't know")).toEqual([
+      { start: 2, end: 6, original: 'dont', replacement: "don't" },
+    ]);
+  });
+
+  it('ignores differences in whitespace only', () => {
+    expect(diffText('She  goes to\nschool', 'She goes to school')).toEqual([]);
+  });
+
+  it('returns no changes for identical texts', () => {
+    expect(diffText('All good here.', 'All good here.')).toEqual([]);
+  });
+
+  it('handles empty inputs', () => {
+    expect(diffText('', '')).toEqual([]);
+    expect(diffText('', 'Hello')).toEqual([
+      { start: 0, end: 0, original: '', replacement: 'Hello' },
+    ]);
+    expect(diffText('Hello', '')).toEqual([
+      { start: 0, end: 5, original: 'Hello', replacement: '' },
+    ]);
+  });
+
+  it('yields the corrected text when its changes are applied', () => {
+    const original = 'Yesterday me and him goes to the the park it were fun';
+    const corrected = 'Yesterday he and I went to the park, and it was fun.';
+
+    expect(applyChanges(original, diffText(original, corrected))).toBe(corrected);
+  });
+});